@@ -0,0 +1,42 @@
+import esbuild from "esbuild";
+import process from "process";
+import { spawnSync } from "child_process";
+import { readdirSync, rmSync } from "fs";
+import { join } from "path";
+
+// Bundles every *.test.ts under src/ and test/ and runs them with Node's built-in
+// test runner. "obsidian" only exists inside the app, so it's swapped for the
+// stand-in in test/obsidian.ts.
+const outdir = ".test-build";
+const testRoots = ["src", "test"];
+
+const entryPoints = testRoots.flatMap((root) =>
+	readdirSync(root, { recursive: true })
+		.filter((file) => file.endsWith(".test.ts"))
+		.map((file) => join(root, file)),
+);
+
+if (entryPoints.length === 0) {
+	console.log("No test files found");
+	process.exit(0);
+}
+
+rmSync(outdir, { recursive: true, force: true });
+await esbuild.build({
+	entryPoints,
+	bundle: true,
+	platform: "node",
+	format: "cjs",
+	target: "node18",
+	outdir,
+	outbase: ".",
+	alias: { obsidian: "./test/obsidian.ts" },
+	sourcemap: "inline",
+	logLevel: "warning",
+});
+
+const result = spawnSync(process.execPath, ["--test", "--enable-source-maps", outdir], {
+	stdio: "inherit",
+});
+rmSync(outdir, { recursive: true, force: true });
+process.exit(result.status ?? 1);
@@ -12,14 +12,80 @@ import {
 	requestUrl,
 	ItemView,
 	WorkspaceLeaf,
+	ViewStateResult,
 	MarkdownRenderer,
 	Component,
+	normalizePath,
 } from "obsidian";
 import { LettaClient, LettaError } from "@letta-ai/letta-client";
+import { SyncManifest, VaultSyncEngine } from "./src/sync";
+import { VaultVisibility } from "./src/visibility";
+import { AgentRouter } from "./src/agent-routing";
+import {
+	VaultTool,
+	VaultToolOutcome,
+	VaultToolRegistry,
+} from "./src/vault-tools";
+import { renderSideBySideDiff } from "./src/diff-render";
+import { AgentChangeJournal } from "./src/change-journal";
+import { AgentChangesView, LETTA_CHANGES_VIEW_TYPE } from "./src/changes-view";
+import {
+	ArchivalMemoryView,
+	LETTA_ARCHIVAL_VIEW_TYPE,
+	insertPassage,
+} from "./src/archival-view";
+import { buildTranscript, fetchConversation } from "./src/transcript";
+import { HistorySearchHit, searchHistory } from "./src/history-search";
+import {
+	AGENT_FILE_KEY,
+	AgentFileData,
+	exportAgent,
+	modelHandle,
+	parseAgentFile,
+	serializeAgentFile,
+} from "./src/agent-file";
+import {
+	AgentTemplate,
+	listAgentTemplates,
+	saveAgentTemplate,
+} from "./src/agent-templates";
+import { BLOCK_PULL_INTERVAL_MS, BlockMirror } from "./src/block-mirror";
+import { showBlockConflictDialog } from "./src/block-conflict";
+import { BlockHistory, MEMORY_TOOL_PATTERN } from "./src/block-history";
+import { BlockHistoryModal } from "./src/block-history-modal";
+import { ChangedSpan, findChangedSpan } from "./src/note-patch";
+import { parseToolReturn } from "./src/python-literal";
+import {
+	SELECTION_ACTIONS,
+	SelectionAction,
+	SelectionActionInfo,
+	buildInlinePrompt,
+	buildSelectionPrompt,
+	promptForQuestion,
+	readEditorContext,
+	readSelectionContext,
+} from "./src/selection-prompts";
+import { InlineWriter } from "./src/inline-writer";
+import { Delivery, Outbox, OutboxMessage, isOfflineError, outboxPayload } from "./src/outbox";
+import {
+	CONNECTION_STATE_LABELS,
+	ConnectionMonitor,
+	ConnectionState,
+	isAuthError,
+} from "./src/connection-health";
 
 export const LETTA_CHAT_VIEW_TYPE = "letta-chat-view";
 export const LETTA_MEMORY_VIEW_TYPE = "letta-memory-view";
 
+// Messages fetched per page of conversation history
+const HISTORY_PAGE_SIZE = 50;
+
+// Characters of unchanged text shown either side of a block change made by the agent
+const BLOCK_CHANGE_CONTEXT = 40;
+
+// Vault folder that agent exports are written to
+const AGENT_FILE_FOLDER = "Letta Agents";
+
 // Rate limit message constants
 export const RATE_LIMIT_MESSAGE = {
 	TITLE: "Rate Limit Exceeded - You've reached the rate limit for your account. Please wait a moment before sending another message.",
@@ -72,13 +138,20 @@ interface LettaPluginSettings {
 	allowAgentCreation: boolean; // Control whether agent creation modal can be shown
 	enableCustomTools: boolean; // Control whether to register custom Obsidian tools
 	askBeforeToolRegistration: boolean; // Ask for consent before registering custom tools
+	autoApproveReadTools: boolean; // Run read-only vault tools without asking for approval each time
 	defaultNoteFolder: string; // Default folder for new notes created via custom tools
 	focusMode: boolean; // Control whether to track and share the currently viewed note
 	focusBlockCharLimit: number; // Character limit for the focus mode memory block
+	sourceName: string; // Name of the Letta folder that vault notes are synced into
+	autoSync: boolean; // Sync notes to Letta as they are created, changed, renamed or deleted
+	syncOnStartup: boolean; // Run a full vault sync after connecting on startup
+	syncManifest: SyncManifest | null; // Uploaded notes with their content hashes and Letta file IDs
+	visibilityRules: string; // Gitignore-style rules (globs, #tags) for notes hidden from the agent
+	agentRoutingRules: string; // "<glob or #tag> -> <agent>" rules that pick the agent for the active note
+	agentTemplateFolder: string; // Vault folder holding agent template notes
+	mirrorMemoryBlocks: boolean; // Keep a note per memory block in step with the server
+	outbox: OutboxMessage[]; // Chat messages waiting for the server to be reachable
 	// Deprecated properties (kept for compatibility)
-	sourceName?: string;
-	autoSync?: boolean;
-	syncOnStartup?: boolean;
 	askBeforeFolderCreation?: boolean;
 	askBeforeFolderAttachment?: boolean;
 }
@@ -95,12 +168,22 @@ const DEFAULT_SETTINGS: LettaPluginSettings = {
 	allowAgentCreation: true, // Default to enabling agent creation modal
 	enableCustomTools: true, // Default to enabling custom tools
 	askBeforeToolRegistration: true, // Default to asking before registering tools
+	autoApproveReadTools: true, // Default to letting the agent read visible notes without prompting
 	defaultNoteFolder: "lettamade", // Default folder for agent-created notes
 	focusMode: true, // Default to enabling focus mode
 	focusBlockCharLimit: 4000, // Default character limit for focus block
+	sourceName: "obsidian-vault-files", // Default Letta folder for synced notes
+	autoSync: false, // Default to manual syncing
+	syncOnStartup: false, // Default to not syncing on startup
+	syncManifest: null, // Built on first sync
+	visibilityRules: "Letta Memory Blocks/\n#private", // Default to hiding block files and #private notes
+	agentRoutingRules: "", // Default to using one agent for every note
+	agentTemplateFolder: "Letta Templates", // Default folder for agent templates
+	mirrorMemoryBlocks: false, // Default to editing blocks in the memory view only
+	outbox: [], // Replaced, never mutated, so the default stays empty
 };
 
-interface LettaAgent {
+export interface LettaAgent {
 	id: string;
 	name: string;
 	llm_config?: {
@@ -114,6 +197,19 @@ interface LettaAgent {
 	};
 }
 
+interface RoutedAgent {
+	agent: LettaAgent;
+	reason: string; // Which routing rule or frontmatter value picked the agent
+}
+
+// A message sendMessage is waiting on the agent's response to
+interface ActiveResponse {
+	agent: LettaAgent | null;
+	controller: AbortController; // Aborted by the Stop button
+	runId: string | null; // Server run producing the response, once the stream names it
+	pending: number; // Parts still running: the request itself and streamed chunks being handled, approvals included
+}
+
 interface LettaModel {
 	model: string;
 	model_endpoint_type: string;
@@ -171,7 +267,10 @@ interface AgentConfig {
 		label: string;
 		limit?: number;
 		description?: string;
+		read_only?: boolean;
 	}>;
+	tools?: string[]; // Tool names to attach, defaults to the memory editing tools
+	initial_message_sequence?: Array<{ role: "user" | "assistant"; content: string }>; // Conversation to start from
 }
 
 export default class LettaPlugin extends Plugin {
@@ -181,13 +280,48 @@ export default class LettaPlugin extends Plugin {
 	client: LettaClient | null = null;
 	lastAuthError: string | null = null;
 	focusBlockId: string | null = null;
+	focusBlockAgentId: string | null = null; // Agent the focus block is attached to
 	focusUpdateTimer: NodeJS.Timeout | null = null;
 	lastFocusedFile: TFile | null = null;
-	isConnecting: boolean = false;
+	focusedFileExcluded = false;
+	connectionState: ConnectionState = "disconnected";
+	connectionMonitor: ConnectionMonitor;
+	syncEngine: VaultSyncEngine;
+	visibility: VaultVisibility;
+	agentRouter: AgentRouter;
+	routedAgent: RoutedAgent | null = null; // Set while the active note routes to a non-default agent
+	private resolvedAgents: Map<string, LettaAgent> = new Map();
+	private missingAgents: Set<string> = new Set(); // References already reported as not found
+	private routeRequest = 0;
+	vaultTools: VaultToolRegistry;
+	changeJournal: AgentChangeJournal;
+	blockMirror: BlockMirror;
+	blockHistory: BlockHistory;
+	inlineWriter: InlineWriter;
+	outbox: Outbox;
 
 	async onload() {
 		await this.loadSettings();
 
+		this.visibility = new VaultVisibility(
+			this.app,
+			() => this.settings.visibilityRules,
+		);
+		this.agentRouter = new AgentRouter(
+			this.app,
+			() => this.settings.agentRoutingRules,
+		);
+		this.changeJournal = new AgentChangeJournal(this);
+		await this.changeJournal.load();
+		this.blockMirror = new BlockMirror(this);
+		await this.blockMirror.load();
+		this.blockHistory = new BlockHistory(this);
+		await this.blockHistory.load();
+		this.vaultTools = new VaultToolRegistry(this);
+		this.inlineWriter = new InlineWriter(this);
+		this.outbox = new Outbox(this);
+		this.registerEditorExtension(this.inlineWriter.extension);
+
 		// Register the chat view
 		this.registerView(
 			LETTA_CHAT_VIEW_TYPE,
@@ -199,6 +333,16 @@ export default class LettaPlugin extends Plugin {
 			(leaf) => new LettaMemoryView(leaf, this),
 		);
 
+		this.registerView(
+			LETTA_CHANGES_VIEW_TYPE,
+			(leaf) => new AgentChangesView(leaf, this),
+		);
+
+		this.registerView(
+			LETTA_ARCHIVAL_VIEW_TYPE,
+			(leaf) => new ArchivalMemoryView(leaf, this),
+		);
+
 		// Add ribbon icons
 		this.addRibbonIcon("bot", "Open Letta Chat", (evt: MouseEvent) => {
 			this.openChatView();
@@ -216,6 +360,17 @@ export default class LettaPlugin extends Plugin {
 		this.statusBarItem = this.addStatusBarItem();
 		this.updateStatusBar("Disconnected");
 
+		// Recheck the connection in the background, but only while Obsidian has focus
+		this.connectionMonitor = new ConnectionMonitor(this);
+		this.registerDomEvent(window, "blur", () => this.connectionMonitor.pause());
+		this.registerDomEvent(window, "focus", () => this.connectionMonitor.resume());
+		if (!document.hasFocus()) {
+			this.connectionMonitor.pause();
+		}
+
+		// Vault sync reports its progress in a status bar item of its own
+		this.syncEngine = new VaultSyncEngine(this, this.addStatusBarItem());
+
 		// Add commands
 		this.addCommand({
 			id: "open-letta-chat",
@@ -239,20 +394,19 @@ export default class LettaPlugin extends Plugin {
 			id: "open-block-folder",
 			name: "Open Memory Blocks Folder",
 			callback: async () => {
-				const folder = this.app.vault.getAbstractFileByPath(
-					"Letta Memory Blocks",
-				);
-				if (folder && folder instanceof TFolder) {
-					// Focus the file explorer and reveal the folder
-					this.app.workspace.leftSplit.expand();
-					new Notice(
-						"📁 Memory Blocks folder is now visible in the file explorer",
-					);
-				} else {
-					new Notice(
-						'Memory Blocks folder not found. Use "Open Memory Block Files" to create it.',
-					);
+				await this.openBlockFolder();
+			},
+		});
+
+		this.addCommand({
+			id: "sync-memory-block-notes",
+			name: "Sync Memory Block Notes",
+			checkCallback: (checking: boolean) => {
+				if (!this.settings.mirrorMemoryBlocks || !this.agent) return false;
+				if (!checking) {
+					this.pullMemoryBlockNotes(true);
 				}
+				return true;
 			},
 		});
 
@@ -268,12 +422,147 @@ export default class LettaPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: "sync-vault-to-letta",
+			name: "Sync vault",
+			callback: async () => {
+				await this.syncEngine.syncVault();
+			},
+		});
+
+		this.addCommand({
+			id: "sync-current-file-to-letta",
+			name: "Sync current file",
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.syncEngine.isSyncable(file)) return false;
+				if (this.visibility.isExcluded(file)) return false;
+				if (!checking) {
+					this.syncEngine.syncFile(file);
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "export-conversation",
+			name: "Export conversation to note",
+			callback: () => {
+				new ExportConversationModal(this.app, this).open();
+			},
+		});
+
+		this.addCommand({
+			id: "open-chat-with-agent",
+			name: "Open chat with another agent",
+			callback: async () => {
+				await this.openPinnedChatView();
+			},
+		});
+
+		this.addCommand({
+			id: "export-agent-file",
+			name: "Export agent to agent file",
+			callback: () => {
+				new ExportAgentModal(this.app, this).open();
+			},
+		});
+
+		this.addCommand({
+			id: "import-agent-file",
+			name: "Create agent from agent file",
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isAgentFile(file)) return false;
+				if (!checking) {
+					this.importAgentFile(file);
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "open-archival-memory",
+			name: "Open Archival Memory",
+			callback: () => {
+				this.openArchivalView();
+			},
+		});
+
+		this.addCommand({
+			id: "save-selection-to-archival-memory",
+			name: "Save selection to archival memory",
+			editorCheckCallback: (checking: boolean, editor: Editor, ctx) => {
+				const selection = editor.getSelection();
+				if (!selection.trim()) return false;
+				if (!checking) {
+					this.saveSelectionToArchivalMemory(selection, ctx.file);
+				}
+				return true;
+			},
+		});
+
+		// Ask the agent the note routes to about the selection; the reply shows in chat
+		SELECTION_ACTIONS.forEach((action) => {
+			this.addCommand({
+				id: `selection-${action.id}`,
+				name: action.name,
+				icon: action.icon,
+				editorCheckCallback: (checking: boolean, editor: Editor, ctx) => {
+					if (!this.canRunSelectionAction(action, editor)) return false;
+					if (!checking) {
+						this.runSelectionAction(action.id, editor, ctx.file);
+					}
+					return true;
+				},
+			});
+		});
+
+		// Stream the reply into the note at the cursor, replacing the selection if there is one
+		this.addCommand({
+			id: "write-inline",
+			name: "Write with Letta at cursor",
+			icon: "wand",
+			editorCallback: (editor: Editor, ctx) => {
+				this.runInlineWrite(editor, ctx.file);
+			},
+		});
+
+		this.addCommand({
+			id: "review-agent-changes",
+			name: "Review agent changes",
+			callback: () => {
+				this.openChangesView();
+			},
+		});
+
+		this.addCommand({
+			id: "undo-agent-note-edit",
+			name: "Undo last agent note edit",
+			checkCallback: (checking: boolean) => {
+				if (!this.changeJournal.canUndo) return false;
+				if (!checking) {
+					this.changeJournal
+						.undoLast()
+						.then((entry) => {
+							new Notice(`Reverted ${entry.source} on ${entry.path}`);
+						})
+						.catch((error) => {
+							new Notice(`Could not undo: ${error.message}`);
+						});
+				}
+				return true;
+			},
+		});
+
 		this.addCommand({
 			id: "disconnect-from-letta",
 			name: "Disconnect",
 			callback: () => {
 				this.agent = null;
-				this.updateStatusBar("Disconnected");
+				this.syncEngine.cancelPendingChanges();
+				this.connectionMonitor.stop();
+				this.setConnectionState("disconnected");
 				new Notice("Disconnected");
 			},
 		});
@@ -283,15 +572,135 @@ export default class LettaPlugin extends Plugin {
 
 		// Auto-connect on startup if configured (non-blocking)
 		if (this.settings.lettaApiKey && this.settings.autoConnect) {
-			this.connectToLetta().catch((error) => {
-				console.error(
-					"[Letta Plugin] Background connection failed:",
-					error,
-				);
-				// Don't show notices for background connection failures during startup
-			});
+			this.connectToLetta()
+				.then(async (connected) => {
+					if (connected && this.agent && this.settings.syncOnStartup) {
+						await this.syncEngine.syncVault();
+					}
+				})
+				.catch((error) => {
+					console.error(
+						"[Letta Plugin] Background connection failed:",
+						error,
+					);
+					// Don't show notices for background connection failures during startup
+				});
 		}
 
+		// Keep the Letta folder in step with the vault (no-op unless auto sync is enabled)
+		this.registerEvent(
+			this.app.vault.on("create", (file) => this.syncEngine.onFileChange(file)),
+		);
+		this.registerEvent(
+			this.app.vault.on("modify", (file) => this.syncEngine.onFileChange(file)),
+		);
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) =>
+				this.syncEngine.onFileRename(file, oldPath),
+			),
+		);
+		this.registerEvent(
+			this.app.vault.on("delete", (file) => this.syncEngine.onFileDelete(file)),
+		);
+
+		// Push edits to memory block notes, and pull server changes into them
+		this.registerEvent(
+			this.app.metadataCache.on("changed", (file) => this.blockMirror.onFileChange(file)),
+		);
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) =>
+				this.blockMirror.onFileRename(file, oldPath),
+			),
+		);
+		this.registerEvent(
+			this.app.vault.on("delete", (file) => this.blockMirror.onFileDelete(file)),
+		);
+		this.registerInterval(
+			window.setInterval(() => {
+				if (this.settings.mirrorMemoryBlocks && this.agent) {
+					this.pullMemoryBlockNotes();
+				}
+			}, BLOCK_PULL_INTERVAL_MS),
+		);
+
+		// Add context menu for syncing files
+		this.registerEvent(
+			this.app.workspace.on("file-menu", (menu, file) => {
+				if (file instanceof TFile && this.isAgentFile(file)) {
+					menu.addItem((item) => {
+						item.setTitle("Create Letta agent from this file")
+							.setIcon("bot")
+							.onClick(async () => {
+								await this.importAgentFile(file);
+							});
+					});
+				}
+				if (
+					this.syncEngine.isSyncable(file) &&
+					!this.visibility.isExcluded(file)
+				) {
+					menu.addItem((item) => {
+						item.setTitle("Sync to Letta")
+							.setIcon("bot")
+							.onClick(async () => {
+								await this.syncEngine.syncFile(file);
+							});
+					});
+				}
+			}),
+		);
+
+		// Selection actions in the editor's context menu
+		this.registerEvent(
+			this.app.workspace.on("editor-menu", (menu, editor, info) => {
+				SELECTION_ACTIONS.filter((action) => this.canRunSelectionAction(action, editor)).forEach(
+					(action) => {
+						menu.addItem((item) => {
+							item.setTitle(action.name)
+								.setIcon(action.icon)
+								.setSection("letta")
+								.onClick(() => this.runSelectionAction(action.id, editor, info.file));
+						});
+					},
+				);
+				menu.addItem((item) => {
+					item.setTitle("Write with Letta here")
+						.setIcon("wand")
+						.setSection("letta")
+						.onClick(() => this.runInlineWrite(editor, info.file));
+				});
+			}),
+		);
+
+		// Re-check focus mode when the active note becomes hidden or visible through its tags or frontmatter
+		this.registerEvent(
+			this.app.metadataCache.on("changed", (file) => {
+				if (
+					this.settings.focusMode &&
+					this.agent &&
+					file === this.lastFocusedFile &&
+					this.visibility.isExcluded(file) !== this.focusedFileExcluded
+				) {
+					this.refreshFocusIndicator();
+					this.scheduleFocusUpdate();
+				}
+			}),
+		);
+
+		// Route chat and focus mode to the agent for the note being viewed
+		this.registerEvent(
+			this.app.workspace.on("file-open", (file) => {
+				this.updateAgentRoute(file);
+			}),
+		);
+		this.registerEvent(
+			this.app.metadataCache.on("changed", (file) => {
+				if (file === this.app.workspace.getActiveFile()) {
+					this.updateAgentRoute(file);
+				}
+			}),
+		);
+
 		// Track active file changes for focus mode
 		this.registerEvent(
 			this.app.workspace.on("layout-change", () => {
@@ -311,6 +720,11 @@ export default class LettaPlugin extends Plugin {
 		if (this.focusUpdateTimer) {
 			clearTimeout(this.focusUpdateTimer);
 		}
+		this.syncEngine?.cancelPendingChanges();
+		this.blockMirror?.cancelPendingChanges();
+		this.inlineWriter?.discard();
+		this.outbox?.reset();
+		this.connectionMonitor?.stop();
 		this.agent = null;
 	}
 
@@ -358,15 +772,37 @@ export default class LettaPlugin extends Plugin {
 		const isCloudInstance =
 			this.settings.lettaBaseUrl.includes("api.letta.com");
 
+		let server: string;
 		if (isCloudInstance) {
 			const projectInfo = this.settings.lettaProjectSlug
 				? ` • ${this.settings.lettaProjectSlug}`
 				: "";
-			return `Connected to Letta Cloud${projectInfo}`;
+			server = `Letta Cloud${projectInfo}`;
 		} else {
 			// Show base URL for local/custom instances
-			return `Connected to ${this.settings.lettaBaseUrl}`;
+			server = this.settings.lettaBaseUrl;
+		}
+
+		if (this.connectionState === "degraded") {
+			return `${server} is not responding, reconnecting...`;
 		}
+		return `Connected to ${server}`;
+	}
+
+	// Move to `state`, showing `status` in the status bar and open chats
+	setConnectionState(state: ConnectionState, status: string = CONNECTION_STATE_LABELS[state]) {
+		this.connectionState = state;
+		this.updateStatusBar(status);
+	}
+
+	// The server refused the API key: drop the client and stop checking until the settings change
+	markAuthFailed() {
+		console.log("[Letta Plugin] Authentication failed - clearing client");
+		this.client = null;
+		this.agent = null;
+		this.lastAuthError = "Authentication failed. Please check your API key and base URL in the plugin settings.";
+		this.connectionMonitor.stop();
+		this.setConnectionState("auth-failed");
 	}
 
 	updateStatusBar(status: string) {
@@ -379,13 +815,13 @@ export default class LettaPlugin extends Plugin {
 			}
 		}
 
-		// Also update chat status if chat view is open
-		const chatLeaf =
-			this.app.workspace.getLeavesOfType(LETTA_CHAT_VIEW_TYPE)[0];
-		if (chatLeaf && chatLeaf.view instanceof LettaChatView) {
-			// Don't await since updateStatusBar should be non-blocking
-			(chatLeaf.view as LettaChatView).updateChatStatus();
-		}
+		// Also update chat status of any open chat views
+		this.app.workspace.getLeavesOfType(LETTA_CHAT_VIEW_TYPE).forEach((chatLeaf) => {
+			if (chatLeaf.view instanceof LettaChatView) {
+				// Don't await since updateStatusBar should be non-blocking
+				chatLeaf.view.updateChatStatus();
+			}
+		});
 	}
 
 	async makeRequest(path: string, options: any = {}): Promise<any> {
@@ -503,7 +939,7 @@ export default class LettaPlugin extends Plugin {
 							"Cannot connect to Letta API. Please verify:\n• Base URL is correct\n• Letta service is running\n• Network connectivity is available";
 					} else if (path.includes("/v1/folders")) {
 						errorMessage =
-							"Source not found. This may indicate:\n• Invalid project configuration\n• Missing permissions\n• Source was deleted externally";
+							"Folder not found. This may indicate:\n• Invalid project configuration\n• Missing permissions\n• Folder or file was deleted externally";
 					} else if (
 						path === "/v1/agents" &&
 						options.method === "POST"
@@ -625,9 +1061,9 @@ export default class LettaPlugin extends Plugin {
 		const isCloudInstance =
 			this.settings.lettaBaseUrl.includes("api.letta.com");
 
-		// Set connecting flag on first attempt
+		// Set connecting state on first attempt
 		if (attempt === 1) {
-			this.isConnecting = true;
+			this.connectionState = "connecting";
 		}
 
 		console.log(`[Letta Plugin] connectToLetta called - attempt ${attempt}/${maxAttempts}`);
@@ -649,8 +1085,7 @@ export default class LettaPlugin extends Plugin {
 				new Notice(
 					`Invalid Base URL format: ${this.settings.lettaBaseUrl}. Please check your settings.`,
 				);
-				this.updateStatusBar("Invalid URL");
-				this.isConnecting = false;
+				this.setConnectionState("disconnected", "Invalid URL");
 				return false;
 			}
 
@@ -659,8 +1094,7 @@ export default class LettaPlugin extends Plugin {
 				new Notice(
 					`Potential typo in Base URL: Did you mean "localhost"? Current: ${this.settings.lettaBaseUrl}`,
 				);
-				this.updateStatusBar("URL typo detected");
-				this.isConnecting = false;
+				this.setConnectionState("disconnected", "URL typo detected");
 				return false;
 			}
 		}
@@ -669,7 +1103,7 @@ export default class LettaPlugin extends Plugin {
 			new Notice(
 				"API key required for Letta Cloud. Please configure it in settings.",
 			);
-			this.isConnecting = false;
+			this.setConnectionState("disconnected");
 			return false;
 		}
 
@@ -730,13 +1164,25 @@ export default class LettaPlugin extends Plugin {
 			});
 
 			// Ensure chat view UI is updated after connection, regardless of agent state
-			this.updateStatusBar("Connected");
-			this.isConnecting = false;
-			const chatLeaf = this.app.workspace.getLeavesOfType(LETTA_CHAT_VIEW_TYPE)[0];
-			if (chatLeaf && chatLeaf.view instanceof LettaChatView) {
-				console.log("[Letta Plugin] Forcing chat status update after connection");
-				(chatLeaf.view as LettaChatView).updateChatStatus();
-			}
+			this.setConnectionState("connected");
+			this.connectionMonitor.start();
+			this.clearResolvedAgents();
+			await this.updateAgentRoute(this.app.workspace.getActiveFile());
+			if (this.settings.mirrorMemoryBlocks) {
+				this.pullMemoryBlockNotes();
+			}
+			this.app.workspace.getLeavesOfType(LETTA_CHAT_VIEW_TYPE).forEach((chatLeaf) => {
+				if (chatLeaf.view instanceof LettaChatView) {
+					console.log("[Letta Plugin] Forcing chat status update after connection");
+					chatLeaf.view.updateChatStatus();
+				}
+			});
+
+			// Send what was written while the server was unreachable
+			this.outbox.reset();
+			this.outbox
+				.flush()
+				.catch((error) => console.error("[Letta Plugin] Failed to send the outbox:", error));
 
 			return true;
 		} catch (error: any) {
@@ -751,11 +1197,8 @@ export default class LettaPlugin extends Plugin {
 			});
 
 			// Clear client on authentication failures to ensure proper UI state
-			if (error.message.includes("401") || error.message.includes("Unauthorized")) {
-				console.log("[Letta Plugin] Authentication failed - clearing client");
-				this.client = null;
-				this.agent = null;
-				this.lastAuthError = "Authentication failed. Please check your API key and base URL in the plugin settings.";
+			if (isAuthError(error)) {
+				this.markAuthFailed();
 
 				// Show immediate notice for auth failures on first attempt
 				if (attempt === 1) {
@@ -763,10 +1206,7 @@ export default class LettaPlugin extends Plugin {
 				}
 
 				// Don't retry authentication errors - return failure immediately
-				const failureMessage = "Authentication failed";
-				this.updateStatusBar(failureMessage);
-				progressCallback?.(failureMessage);
-				this.isConnecting = false;
+				progressCallback?.(CONNECTION_STATE_LABELS["auth-failed"]);
 				return false;
 			} else {
 				// Clear auth error for other types of errors
@@ -817,9 +1257,10 @@ export default class LettaPlugin extends Plugin {
 			} else {
 				// All attempts failed
 				const failureMessage = "Connection failed";
-				this.updateStatusBar(failureMessage);
+				this.setConnectionState("disconnected", failureMessage);
 				progressCallback?.(failureMessage);
-				this.isConnecting = false;
+				// Keep checking in the background and connect once the server answers
+				this.connectionMonitor.start();
 				new Notice(
 					`Failed to connect to Letta after ${maxAttempts} attempts: ${error.message}`,
 				);
@@ -875,11 +1316,111 @@ export default class LettaPlugin extends Plugin {
 		}
 	}
 
+	// Agent Routing Methods
+
+	// Look up a routing target by ID or name, remembering agents that were found.
+	// Missing ones are looked up again, so an agent created later is picked up.
+	async resolveAgentReference(reference: string): Promise<LettaAgent | null> {
+		const resolved = this.resolvedAgents.get(reference);
+		if (resolved) return resolved;
+		if (!this.client) return null;
+
+		try {
+			let agent: LettaAgent | null = null;
+			if (/^agent-[0-9a-f-]+$/i.test(reference)) {
+				const found = await this.makeRequest(`/v1/agents/${reference}`);
+				if (found?.id) agent = { id: found.id, name: found.name };
+			} else {
+				const found = await this.client.agents.list({ name: reference });
+				if (found && found.length > 0) {
+					agent = { id: found[0].id, name: found[0].name };
+				}
+			}
+
+			if (!agent) {
+				if (!this.missingAgents.has(reference)) {
+					this.missingAgents.add(reference);
+					new Notice(`Agent routing: no agent called "${reference}"`);
+				}
+				return null;
+			}
+			this.missingAgents.delete(reference);
+			this.resolvedAgents.set(reference, agent);
+			return agent;
+		} catch (error) {
+			// Not cached, so the lookup is retried on the next note
+			console.error(`[Letta Plugin] Failed to resolve routed agent "${reference}":`, error);
+			return null;
+		}
+	}
+
+	// Forget looked-up agents, e.g. after the rules change or the server reconnects
+	clearResolvedAgents() {
+		this.resolvedAgents.clear();
+		this.missingAgents.clear();
+	}
+
+	// Re-route the open note after the routing rules were edited
+	async applyRoutingRules(): Promise<void> {
+		this.clearResolvedAgents();
+		await this.updateAgentRoute(this.app.workspace.getActiveFile());
+	}
+
+	// The routing rule or frontmatter match for a note, or null if it uses the default agent
+	async routeForFile(file: TFile | null): Promise<RoutedAgent | null> {
+		if (!file) return null;
+
+		const match = this.agentRouter.match(file);
+		if (!match) return null;
+
+		const agent = await this.resolveAgentReference(match.agent);
+		if (!agent || agent.id === this.agent?.id) return null;
+		return { agent, reason: match.reason };
+	}
+
+	// The agent that commands acting on a note should talk to
+	async agentForFile(file: TFile | null): Promise<LettaAgent | null> {
+		const route = await this.routeForFile(file);
+		return route ? route.agent : this.agent;
+	}
+
+	// Re-route chat views and focus mode when the user opens another note
+	async updateAgentRoute(file: TFile | null): Promise<void> {
+		const request = ++this.routeRequest;
+		const route = await this.routeForFile(file);
+		// A newer note was opened while this one was resolving
+		if (request !== this.routeRequest) return;
+
+		if (
+			route?.agent.id === this.routedAgent?.agent.id &&
+			route?.reason === this.routedAgent?.reason
+		) {
+			return;
+		}
+		this.routedAgent = route;
+
+		this.app.workspace.getLeavesOfType(LETTA_CHAT_VIEW_TYPE).forEach((leaf) => {
+			if (leaf.view instanceof LettaChatView) {
+				leaf.view.onAgentRouteChanged();
+			}
+		});
+		if (this.settings.focusMode && this.agent) {
+			this.scheduleFocusUpdate();
+		}
+	}
+
 	// Focus Mode Methods
+
+	// The focus block follows routing so the agent you are talking to sees the note
+	get focusAgent(): LettaAgent | null {
+		return this.routedAgent?.agent || this.agent;
+	}
+
 	async ensureFocusBlock(): Promise<void> {
-		if (!this.agent || !this.client) return;
+		const agent = this.focusAgent;
+		if (!agent || !this.client) return;
 
-		const focusBlockLabel = `obsidian-${this.agent.id}-focused-note`;
+		const focusBlockLabel = `obsidian-${agent.id}-focused-note`;
 
 		try {
 			// Check if block exists
@@ -888,6 +1429,7 @@ export default class LettaPlugin extends Plugin {
 			if (blocks && blocks.length > 0) {
 				// Block exists, store its ID
 				this.focusBlockId = blocks[0].id || null;
+				this.focusBlockAgentId = agent.id;
 
 				// Attach if focus mode is enabled
 				if (this.settings.focusMode) {
@@ -902,6 +1444,7 @@ export default class LettaPlugin extends Plugin {
 					limit: this.settings.focusBlockCharLimit,
 				});
 				this.focusBlockId = block.id || null;
+				this.focusBlockAgentId = agent.id;
 
 				// Attach if focus mode is enabled
 				if (this.settings.focusMode) {
@@ -922,10 +1465,10 @@ export default class LettaPlugin extends Plugin {
 	}
 
 	async attachFocusBlock(): Promise<void> {
-		if (!this.agent || !this.client || !this.focusBlockId) return;
+		if (!this.focusBlockAgentId || !this.client || !this.focusBlockId) return;
 
 		try {
-			await this.client.agents.blocks.attach(this.agent.id, this.focusBlockId);
+			await this.client.agents.blocks.attach(this.focusBlockAgentId, this.focusBlockId);
 			console.log("[Letta Plugin] Focus block attached successfully");
 		} catch (error) {
 			// Block might already be attached, that's okay
@@ -934,10 +1477,10 @@ export default class LettaPlugin extends Plugin {
 	}
 
 	async detachFocusBlock(): Promise<void> {
-		if (!this.agent || !this.client || !this.focusBlockId) return;
+		if (!this.focusBlockAgentId || !this.client || !this.focusBlockId) return;
 
 		try {
-			await this.client.agents.blocks.detach(this.agent.id, this.focusBlockId);
+			await this.client.agents.blocks.detach(this.focusBlockAgentId, this.focusBlockId);
 			console.log("[Letta Plugin] Focus block detached successfully");
 		} catch (error) {
 			console.error("[Letta Plugin] Failed to detach focus block:", error);
@@ -945,13 +1488,24 @@ export default class LettaPlugin extends Plugin {
 	}
 
 	async updateFocusBlock(file: TFile | null): Promise<void> {
-		if (!this.agent || !this.client || !this.focusBlockId) return;
+		if (!this.focusAgent || !this.client || !this.focusBlockId) return;
+
+		// Routing moved to another agent: hand the focus block over, which also fills it in
+		if (this.focusAgent.id !== this.focusBlockAgentId) {
+			await this.detachFocusBlock();
+			await this.ensureFocusBlock();
+			return;
+		}
 
 		try {
 			let value: string;
+			this.focusedFileExcluded = !!file && this.visibility.isExcluded(file);
 
 			if (!file) {
 				value = "The user is not currently viewing a note.";
+			} else if (this.focusedFileExcluded) {
+				// Don't reveal the content, title or path of excluded notes
+				value = "The user is viewing a note that is hidden from the agent.";
 			} else {
 				const content = await this.app.vault.read(file);
 				const title = file.basename;
@@ -1021,8 +1575,8 @@ export default class LettaPlugin extends Plugin {
 				}
 			}
 
-			const focusBlockLabel = `obsidian-${this.agent.id}-focused-note`;
-			await this.client.agents.blocks.modify(this.agent.id, focusBlockLabel, {
+			const focusBlockLabel = `obsidian-${this.focusBlockAgentId}-focused-note`;
+			await this.client.agents.blocks.modify(this.focusBlockAgentId, focusBlockLabel, {
 				value: value,
 				limit: this.settings.focusBlockCharLimit,
 			});
@@ -1161,52 +1715,421 @@ export default class LettaPlugin extends Plugin {
 
 	}
 
-	async openMemoryView(): Promise<void> {
-		// Auto-connect if not connected to server
-		if (!this.agent) {
-			new Notice("Connecting to Letta...");
-			const connected = await this.connectToLetta();
-			if (!connected) {
-				return;
-			}
-		}
+	isAgentFile(file: TFile): boolean {
+		return (
+			file.extension === "md" &&
+			this.app.metadataCache.getFileCache(file)?.frontmatter?.[AGENT_FILE_KEY] !== undefined
+		);
+	}
 
-		const { workspace } = this.app;
+	// Write the agent's configuration, memory and tools (and optionally its messages) to a note
+	async exportAgentToFile(
+		includeMessages: boolean,
+		agent: LettaAgent | null = this.agent,
+	): Promise<TFile | null> {
+		if (!agent) {
+			new Notice("Connect to an agent before exporting it");
+			return null;
+		}
 
-		let leaf: WorkspaceLeaf | null = null;
-		const leaves = workspace.getLeavesOfType(LETTA_MEMORY_VIEW_TYPE);
+		try {
+			new Notice(`Exporting ${agent.name}...`);
+			const data = await exportAgent(this, agent.id, includeMessages);
+			const baseName = data.agent.name.replace(/[\\/:*?"<>|]/g, "_");
+			const path = normalizePath(`${AGENT_FILE_FOLDER}/${baseName}.md`);
 
-		if (leaves.length > 0) {
-			// A leaf with our view already exists, use that
-			leaf = leaves[0];
-		} else {
-			// Our view could not be found in the workspace, create a new leaf
-			// in the right sidebar for it
-			leaf = workspace.getRightLeaf(false);
-			if (leaf) {
-				await leaf.setViewState({
-					type: LETTA_MEMORY_VIEW_TYPE,
-					active: true,
-				});
+			if (!this.app.vault.getAbstractFileByPath(AGENT_FILE_FOLDER)) {
+				await this.app.vault.createFolder(AGENT_FILE_FOLDER);
 			}
-		}
 
-		// "Reveal" the leaf in case it is in a collapsed sidebar
+			// Exporting again overwrites the previous file, so its history lives in one place
+			const existing = this.app.vault.getAbstractFileByPath(path);
+			let file: TFile;
+			if (existing instanceof TFile) {
+				if (!this.isAgentFile(existing)) {
+					throw new Error(`${path} already exists and isn't an agent file`);
+				}
+				await this.app.vault.modify(existing, serializeAgentFile(data));
+				file = existing;
+			} else {
+				file = await this.app.vault.create(path, serializeAgentFile(data));
+			}
+
+			await this.app.workspace.getLeaf("tab").openFile(file);
+			new Notice(`Exported ${data.agent.name} to ${file.path}`);
+			return file;
+		} catch (error) {
+			console.error("[Letta Plugin] Failed to export agent:", error);
+			new Notice(`Failed to export agent: ${error.message}`);
+			return null;
+		}
+	}
+
+	// Create a new agent from an agent file, through the same path as the agent creation modal
+	async importAgentFile(file: TFile): Promise<void> {
+		let data: AgentFileData;
+		try {
+			data = parseAgentFile(await this.app.vault.read(file));
+		} catch (error) {
+			new Notice(error.message);
+			return;
+		}
+
+		await this.openChatView();
+		const leaf = this.app.workspace.getLeavesOfType(LETTA_CHAT_VIEW_TYPE)[0];
+		if (!this.client || !leaf || !(leaf.view instanceof LettaChatView)) {
+			new Notice("Connect to Letta before creating an agent");
+			return;
+		}
+		const view = leaf.view;
+
+		try {
+			new Notice(`Creating ${data.agent.name}...`);
+
+			// Tools are attached by name, so leave out any this server doesn't have.
+			// Vault tools are re-registered through the usual consent flow instead.
+			const vaultToolNames = new Set(this.vaultTools.list().map((tool) => tool.name));
+			const tools: string[] = [];
+			const missingTools: string[] = [];
+			for (const tool of data.tools) {
+				if (vaultToolNames.has(tool.name)) continue;
+				const found = await this.client.tools.list({ name: tool.name });
+				if (found && found.length > 0) {
+					tools.push(tool.name);
+				} else {
+					missingTools.push(tool.name);
+				}
+			}
+
+			await view.createAgentFromConfig({
+				name: data.agent.name,
+				agent_type: data.agent.agent_type as AgentConfig["agent_type"],
+				description: data.agent.description,
+				system: data.agent.system,
+				model: data.agent.model,
+				tags: data.agent.tags,
+				memory_blocks: data.memory_blocks,
+				tools,
+				initial_message_sequence: data.messages?.map((message) => ({
+					role: message.role,
+					content: message.content,
+				})),
+			});
+
+			if (data.tools.some((tool) => vaultToolNames.has(tool.name))) {
+				await this.registerObsidianTools(view.agent);
+			}
+
+			view.chatContainer.empty();
+			await view.updateChatStatus();
+
+			new Notice(
+				missingTools.length > 0
+					? `Created ${data.agent.name}. These tools aren't available on this server: ${missingTools.join(", ")}`
+					: `Created ${data.agent.name} from ${file.basename}`,
+			);
+		} catch (error) {
+			console.error("[Letta Plugin] Failed to create agent from file:", error);
+			new Notice(`Failed to create agent: ${error.message}`);
+		}
+	}
+
+	// Open an extra chat tab and let the user pick the agent it stays pinned to
+	async openPinnedChatView(): Promise<void> {
+		if (!this.client) {
+			new Notice("Connecting to Letta...");
+			const connected = await this.connectToLetta();
+			if (!connected) return;
+		}
+
+		const leaf = this.app.workspace.getLeaf("tab");
+		await leaf.setViewState({ type: LETTA_CHAT_VIEW_TYPE, active: true });
+		this.app.workspace.revealLeaf(leaf);
+
+		if (leaf.view instanceof LettaChatView) {
+			leaf.view.pinOnNextSwitch = true;
+			await leaf.view.openAgentSwitcher();
+		}
+	}
+
+	async openMemoryView(): Promise<void> {
+		// Auto-connect if not connected to server
+		if (!this.agent) {
+			new Notice("Connecting to Letta...");
+			const connected = await this.connectToLetta();
+			if (!connected) {
+				return;
+			}
+		}
+
+		const { workspace } = this.app;
+
+		let leaf: WorkspaceLeaf | null = null;
+		const leaves = workspace.getLeavesOfType(LETTA_MEMORY_VIEW_TYPE);
+
+		if (leaves.length > 0) {
+			// A leaf with our view already exists, use that
+			leaf = leaves[0];
+		} else {
+			// Our view could not be found in the workspace, create a new leaf
+			// in the right sidebar for it
+			leaf = workspace.getRightLeaf(false);
+			if (leaf) {
+				await leaf.setViewState({
+					type: LETTA_MEMORY_VIEW_TYPE,
+					active: true,
+				});
+			}
+		}
+
+		// "Reveal" the leaf in case it is in a collapsed sidebar
+		if (leaf) {
+			workspace.revealLeaf(leaf);
+		}
+	}
+
+	// Fetch the agent's blocks and record any whose value changed since it was last seen
+	async snapshotMemoryBlocks(agentId: string, source: string): Promise<any[]> {
+		const blocks = await this.makeRequest(`/v1/agents/${agentId}/core-memory/blocks`);
+		if (Array.isArray(blocks)) {
+			await this.blockHistory.recordBlocks(agentId, blocks, source);
+		}
+		return Array.isArray(blocks) ? blocks : [];
+	}
+
+	// After a memory tool runs, record the new block values and show them in open memory views
+	async refreshMemoryAfterTool(agentId: string, toolName: string): Promise<void> {
+		const blocks = await this.snapshotMemoryBlocks(agentId, toolName);
+		this.app.workspace.getLeavesOfType(LETTA_MEMORY_VIEW_TYPE).forEach((leaf) => {
+			if (leaf.view instanceof LettaMemoryView) {
+				leaf.view.applyBlockUpdates(agentId, blocks, toolName);
+			}
+		});
+	}
+
+	async pullMemoryBlockNotes(showResult = false): Promise<string | null> {
+		try {
+			const folder = await this.blockMirror.pull();
+			if (showResult && folder) {
+				new Notice("Memory block notes are up to date");
+			}
+			return folder;
+		} catch (error) {
+			console.error("[Letta Plugin] Failed to sync memory block notes:", error);
+			if (showResult) {
+				new Notice(`Failed to sync memory block notes: ${error.message}`);
+			}
+			return null;
+		}
+	}
+
+	// Mirror the agent's blocks to notes, turning mirroring on if needed, and show their folder
+	async openBlockFolder(): Promise<void> {
+		if (!this.agent) {
+			new Notice("Connecting to Letta...");
+			const connected = await this.connectToLetta();
+			if (!connected || !this.agent) return;
+		}
+
+		if (!this.settings.mirrorMemoryBlocks) {
+			this.settings.mirrorMemoryBlocks = true;
+			await this.saveSettings();
+			new Notice("Memory block notes turned on; edits to them update the agent's memory");
+		}
+
+		const path = await this.pullMemoryBlockNotes(true);
+		const folder = path ? this.app.vault.getAbstractFileByPath(path) : null;
+		if (!(folder instanceof TFolder)) return;
+
+		// Focus the file explorer and reveal the folder
+		this.app.workspace.leftSplit.expand();
+		const explorer = this.app.workspace.getLeavesOfType("file-explorer")[0];
+		if (explorer) {
+			this.app.workspace.revealLeaf(explorer);
+			(explorer.view as any).revealInFolder?.(folder);
+		}
+	}
+
+	async openArchivalView(): Promise<void> {
+		const { workspace } = this.app;
+
+		let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(LETTA_ARCHIVAL_VIEW_TYPE)[0] || null;
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false);
+			if (leaf) {
+				await leaf.setViewState({
+					type: LETTA_ARCHIVAL_VIEW_TYPE,
+					active: true,
+				});
+			}
+		}
+		if (leaf) {
+			workspace.revealLeaf(leaf);
+		}
+	}
+
+	// Store the selection as a passage for the agent the note routes to, noting where it came from
+	async saveSelectionToArchivalMemory(selection: string, file: TFile | null): Promise<void> {
+		if (!this.client) {
+			new Notice("Connecting to Letta...");
+			const connected = await this.connectToLetta();
+			if (!connected) return;
+		}
+
+		const agent = await this.agentForFile(file);
+		if (!agent) {
+			new Notice("Connect to an agent before saving to archival memory");
+			return;
+		}
+
+		try {
+			const text = file ? `${selection.trim()}\n\nSource: [[${file.path}]]` : selection.trim();
+			await insertPassage(this, agent.id, text);
+			new Notice(`Saved to ${agent.name}'s archival memory`);
+			this.app.workspace.getLeavesOfType(LETTA_ARCHIVAL_VIEW_TYPE).forEach((leaf) => {
+				if (leaf.view instanceof ArchivalMemoryView) {
+					leaf.view.refresh();
+				}
+			});
+		} catch (error) {
+			console.error("[Letta Plugin] Failed to save selection to archival memory:", error);
+			new Notice(`Failed to save to archival memory: ${error.message}`);
+		}
+	}
+
+	canRunSelectionAction(action: SelectionActionInfo, editor: Editor): boolean {
+		if (editor.getSelection().trim()) return true;
+		// Continue writing without a selection picks up from the cursor
+		const cursor = editor.getCursor();
+		return !action.needsSelection && (cursor.line > 0 || cursor.ch > 0);
+	}
+
+	// Send the selection, with the note text around it, to the agent the note routes to
+	async runSelectionAction(
+		action: SelectionAction,
+		editor: Editor,
+		file: TFile | null,
+	): Promise<void> {
+		const hidden = !!file && this.visibility.isExcluded(file);
+		const context = readSelectionContext(editor, file?.path ?? null, !hidden);
+		if (!context.selection.trim()) return;
+
+		let question: string | null = null;
+		if (action === "ask") {
+			question = await promptForQuestion(this.app, context.selection);
+			if (!question) return;
+		}
+
+		if (!this.client || !this.agent) {
+			new Notice("Connecting to Letta...");
+			const connected = await this.connectToLetta();
+			if (!connected) return;
+		}
+
+		const agent = await this.agentForFile(file);
+		if (!agent) {
+			new Notice("Connect to an agent before asking about a selection");
+			return;
+		}
+
+		const view = await this.chatViewForAgent(agent);
+		if (!view) return;
+		if (hidden && file) {
+			new Notice(`${file.basename} is hidden from the agent, so only the selection was sent`);
+		}
+		await view.sendPrompt(buildSelectionPrompt(action, context, question));
+	}
+
+	// Ask for an instruction and stream the reply into the note, in place of the selection
+	async runInlineWrite(editor: Editor, file: TFile | null): Promise<void> {
+		const hidden = !!file && this.visibility.isExcluded(file);
+		const context = readEditorContext(editor, file?.path ?? null, !hidden);
+
+		const instruction = await promptForQuestion(this.app, context.selection, {
+			title: context.selection ? "Rewrite selection with Letta" : "Write with Letta at cursor",
+			placeholder: context.selection ? "How should it be rewritten?" : "What should Letta write?",
+			submitText: "Write",
+		});
+		if (!instruction) return;
+
+		if (!this.client || !this.agent) {
+			new Notice("Connecting to Letta...");
+			const connected = await this.connectToLetta();
+			if (!connected) return;
+		}
+
+		const agent = await this.agentForFile(file);
+		if (!agent) {
+			new Notice("Connect to an agent before writing with Letta");
+			return;
+		}
+
+		if (hidden && file) {
+			const sent = context.selection ? "only the selection was sent" : "none of it was sent";
+			new Notice(`${file.basename} is hidden from the agent, so ${sent}`);
+		}
+		await this.inlineWriter.write(editor, buildInlinePrompt(instruction, context), agent);
+	}
+
+	// A chat view talking to the agent, opening one pinned to it if there is none
+	async chatViewForAgent(agent: LettaAgent): Promise<LettaChatView | null> {
+		const { workspace } = this.app;
+		const findView = () =>
+			workspace
+				.getLeavesOfType(LETTA_CHAT_VIEW_TYPE)
+				.find((leaf) => leaf.view instanceof LettaChatView && leaf.view.agent?.id === agent.id);
+
+		let leaf = findView();
+		if (!leaf && workspace.getLeavesOfType(LETTA_CHAT_VIEW_TYPE).length === 0) {
+			await this.openChatView();
+			leaf = findView();
+		}
+		if (!leaf) {
+			leaf = workspace.getLeaf("tab");
+			await leaf.setViewState({
+				type: LETTA_CHAT_VIEW_TYPE,
+				active: true,
+				state: { agentId: agent.id },
+			});
+		}
+
+		workspace.revealLeaf(leaf);
+		return leaf.view instanceof LettaChatView ? leaf.view : null;
+	}
+
+	async openChangesView(): Promise<void> {
+		const { workspace } = this.app;
+
+		let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(LETTA_CHANGES_VIEW_TYPE)[0] || null;
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false);
+			if (leaf) {
+				await leaf.setViewState({
+					type: LETTA_CHANGES_VIEW_TYPE,
+					active: true,
+				});
+			}
+		}
+
 		if (leaf) {
 			workspace.revealLeaf(leaf);
 		}
 	}
 
-	async sendMessageToAgent(message: string): Promise<LettaMessage[]> {
-		if (!this.agent) throw new Error("Agent not connected");
+	async sendMessageToAgent(
+		message: string,
+		agent: LettaAgent | null = this.agent,
+		signal?: AbortSignal,
+	): Promise<LettaMessage[]> {
+		if (!agent) throw new Error("Agent not connected");
 		if (!this.client) throw new Error("Client not initialized");
 
 		console.log(
 			"[Letta NonStream] Sending message to agent:",
-			this.agent.id,
+			agent.id,
 		);
 		const response = await this.client.agents.messages.create(
-			this.agent.id,
+			agent.id,
 			{
 				messages: [
 					{
@@ -1215,6 +2138,7 @@ export default class LettaPlugin extends Plugin {
 					},
 				],
 			},
+			{ abortSignal: signal },
 		);
 
 		console.log("[Letta NonStream] Response received:", response);
@@ -1227,18 +2151,20 @@ export default class LettaPlugin extends Plugin {
 		onMessage: (message: any) => void,
 		onError: (error: Error) => void,
 		onComplete: () => void,
+		agent: LettaAgent | null = this.agent,
+		signal?: AbortSignal, // Aborting ends the stream quietly, without onError or onComplete
 	): Promise<void> {
-		if (!this.agent) throw new Error("Agent not connected");
+		if (!agent) throw new Error("Agent not connected");
 		if (!this.client) throw new Error("Client not initialized");
 
 		try {
 			// Use the SDK's streaming API
 			console.log(
 				"[Letta Stream] Starting stream for agent:",
-				this.agent.id,
+				agent.id,
 			);
 			const stream = await this.client.agents.messages.createStream(
-				this.agent.id,
+				agent.id,
 				{
 					messages: [
 						{
@@ -1248,11 +2174,13 @@ export default class LettaPlugin extends Plugin {
 					],
 					streamTokens: true,
 				},
+				{ abortSignal: signal },
 			);
 			console.log("[Letta Stream] Stream created successfully:", stream);
 
 			// Process the stream
 			for await (const chunk of stream) {
+				if (signal?.aborted) break;
 				console.log("[Letta Stream] Chunk received:", chunk);
 				console.log("[Letta Stream] Chunk type:", typeof chunk);
 
@@ -1270,10 +2198,19 @@ export default class LettaPlugin extends Plugin {
 				onMessage(chunk);
 			}
 
+			if (signal?.aborted) {
+				console.log("[Letta Stream] Stream aborted");
+				return;
+			}
+
 			// Stream completed successfully (if we exit loop normally)
 			console.log("[Letta Stream] Stream ended normally");
 			onComplete();
 		} catch (error: any) {
+			if (signal?.aborted) {
+				console.log("[Letta Stream] Stream aborted");
+				return;
+			}
 			console.error("[Letta Stream] Stream error:", error);
 			console.error("[Letta Stream] Error details:", {
 				message: error.message,
@@ -1318,196 +2255,172 @@ export default class LettaPlugin extends Plugin {
 		}
 	}
 
-	async registerObsidianTools(): Promise<boolean> {
-		// DISABLED: Approval-based tool registration is currently disabled due to upstream Letta API issues
-		// with streaming approval flow. Re-enable once the API properly supports approval_request_message
-		// during streaming (currently only sends stop_reason).
-		return true;
+	// The default agent from settings, known even before connecting
+	configuredAgent(): LettaAgent | null {
+		return this.settings.agentId
+			? { id: this.settings.agentId, name: this.settings.agentName }
+			: null;
+	}
 
-		/* COMMENTED OUT - DO NOT USE UNTIL UPSTREAM ISSUES RESOLVED
-		if (!this.client) {
-			console.error("Cannot register tools: Letta client not initialized");
-			return false;
+	// Send a queued message through the open chat for its agent, so the reply shows
+	// there, or straight to the API when no chat for the agent is open
+	async deliverOutboxMessage(message: OutboxMessage): Promise<Delivery> {
+		const view = this.app.workspace
+			.getLeavesOfType(LETTA_CHAT_VIEW_TYPE)
+			.map((leaf) => leaf.view)
+			.find(
+				(view): view is LettaChatView =>
+					view instanceof LettaChatView &&
+					!!view.messageInput &&
+					view.agent?.id === message.agentId,
+			);
+		if (view) {
+			if (view.activeResponse || view.messageInput.disabled) return { status: "busy" };
+			return view.deliverMessage(message.text, message.context, message);
 		}
 
-		const toolName = "write_obsidian_note";
-
-		// First check if the tool already exists
-		console.log(`[Letta Plugin] Checking if tool '${toolName}' already exists...`);
-		let existingTool: any = null;
+		if (!this.client) return { status: "offline" };
 		try {
-			const tools = await this.client.tools.list({ name: toolName });
-			existingTool = tools.find((tool: any) => tool.name === toolName);
-			if (existingTool) {
-				console.log(`[Letta Plugin] Tool '${toolName}' already exists with ID: ${existingTool.id}`);
-			}
-		} catch (error) {
-			console.error("Failed to check existing tools:", error);
+			await this.sendMessageToAgent(outboxPayload(message), {
+				id: message.agentId,
+				name: message.agentName,
+			});
+			return { status: "sent" };
+		} catch (error: any) {
+			return isOfflineError(error)
+				? { status: "offline" }
+				: { status: "failed", error: error.message };
 		}
+	}
 
-		// If tool exists and we have an agent, check if it's already attached
-		if (existingTool && this.agent) {
-			console.log(`[Letta Plugin] Checking if tool is already attached to agent ${this.agent.id}...`);
-			try {
-				const agentDetails = await this.client.agents.retrieve(this.agent.id);
-				const currentTools = agentDetails.tools || [];
-
-				const isToolAttached = currentTools.some((t: any) =>
-					t.name === toolName || t === toolName ||
-					(typeof t === 'object' && t.id === existingTool.id)
-				);
+	// Try the outbox again right away, clearing the error on a held message first
+	async sendOutboxNow(messageId?: string): Promise<void> {
+		if (messageId) await this.outbox.retry(messageId);
+		this.outbox.reset();
+		if (this.client) {
+			await this.outbox.flush();
+		} else {
+			await this.connectToLetta();
+		}
+	}
 
-				if (isToolAttached) {
-					console.log(`[Letta Plugin] Tool '${toolName}' already exists and is attached to agent. Ensuring approval requirement is set...`);
+	refreshOutboxViews() {
+		this.app.workspace.getLeavesOfType(LETTA_CHAT_VIEW_TYPE).forEach((leaf) => {
+			if (leaf.view instanceof LettaChatView) {
+				leaf.view.renderOutbox();
+			}
+		});
+	}
 
-					// Even if tool is attached, ensure approval requirement is set (Method 3)
-					try {
-						console.log(`[Letta Plugin] Calling modifyApproval with agentId: ${this.agent.id}, toolName: ${toolName}, requiresApproval: true`);
-						const approvalResult = await this.client.agents.tools.modifyApproval(
-							this.agent.id,
-							toolName,
-							{ requiresApproval: true }
-						);
-						console.log(`[Letta Plugin] modifyApproval response:`, approvalResult);
+	// Ask the server to stop the agent's run, or all of its active runs when the run
+	// ID isn't known yet. Servers without run cancellation refuse, which is fine:
+	// the response has already been dropped here.
+	async cancelAgentRun(agent: LettaAgent, runId: string | null): Promise<boolean> {
+		if (!this.client) return false;
+		try {
+			await this.client.agents.messages.cancel(agent.id, runId ? { runIds: [runId] } : {});
+			return true;
+		} catch (error) {
+			console.warn("[Letta Plugin] Server did not cancel the run:", error);
+			return false;
+		}
+	}
 
-						// Check tool rules in the agent state
-						const toolRules = (approvalResult as any).toolRules || (approvalResult as any).tool_rules;
-						console.log(`[Letta Plugin] Agent toolRules after modifyApproval:`, toolRules);
-						const approvalRule = toolRules?.find((rule: any) =>
-							rule.toolName === toolName || rule.tool_name === toolName
-						);
-						console.log(`[Letta Plugin] Approval rule for '${toolName}':`, approvalRule);
-
-						// Verify the tool's approval status after setting it
-						const agentTools = await this.client.agents.tools.list(this.agent.id);
-						const toolInfo = agentTools.find((t: any) => t.name === toolName);
-						console.log(`[Letta Plugin] Tool '${toolName}' info from tools list:`, toolInfo);
-					} catch (approvalError: any) {
-						console.error("Failed to set approval requirement:", approvalError);
-						console.error("Error details:", approvalError.message, approvalError.stack);
-					}
+	// Attach the client-side vault tools to the agent. Every tool requires approval
+	// so that calls pause the agent and are executed by the chat view in Obsidian.
+	async registerObsidianTools(agent: LettaAgent | null = this.agent): Promise<boolean> {
+		if (!this.client || !agent) {
+			console.error("Cannot register tools: agent or client not initialized");
+			return false;
+		}
 
-					return true; // Success - tool is already fully configured
-				} else {
-					console.log(`[Letta Plugin] Tool exists but not attached to agent. Will attach it.`);
-				}
-			} catch (error) {
-				console.error("Failed to check agent tools:", error);
-			}
-		}
-
-		const writeNoteToolCode = `
-def write_obsidian_note(
-    block_label: str,
-    file_path: str
-) -> str:
-    """
-    Request approval to write a memory block's content to an Obsidian note file.
-    This tool requires human approval before execution.
-
-    Args:
-        block_label: The label of the memory block containing the content to write
-        file_path: The path where the note should be created (e.g., 'journal/2024-10-01.md' or 'projects/my-project.md')
-                  If a default note folder is configured, it will be automatically prepended to this path.
-
-    Returns:
-        str: Success message if approved and executed
-
-    Note:
-        This tool will pause and request approval from the user.
-        The user can approve to create the note or deny with guidance.
-    """
-    return f"Requesting approval to write block '{block_label}' to {file_path}"
-`;
-
-		// Now check if user consent is required (only if we need to create or attach the tool)
-		if (this.settings.askBeforeToolRegistration) {
-			console.log("[Letta Plugin] User consent required - showing modal...");
-			const consentModal = new ToolRegistrationConsentModal(this.app, this);
-			const userConsent = await consentModal.show();
-			if (!userConsent) {
-				console.log("[Letta Plugin] User declined tool registration");
-				return false;
-			}
+		if (!this.settings.enableCustomTools) {
+			return false;
 		}
 
-		let tool = existingTool;
-		
 		try {
-			if (!existingTool) {
-				// Tool doesn't exist, create it with approval requirement
-				console.log(`[Letta Plugin] Creating new tool '${toolName}' with approval requirement...`);
-				tool = await this.client.tools.upsert({
-					name: toolName,
-					sourceCode: writeNoteToolCode,
-					description: "Write a memory block's content to an Obsidian note file (requires approval)",
-					tags: ["obsidian", "note-creation", "requires-approval"],
-					default_requires_approval: true
-				} as any);
-				console.log("Successfully created Obsidian note creation tool with approval requirement:", tool);
-			} else {
-				console.log(`[Letta Plugin] Using existing tool '${toolName}' with ID: ${existingTool.id}`);
+			const missingTools = await this.vaultTools.getMissingTools(agent.id);
+			if (missingTools.length === 0) {
+				return true;
 			}
 
-			// Attach tool to current agent if available and not already attached
-			if (this.agent && tool && tool.id) {
-				try {
-					// If we had an existing tool that was already attached, we would have returned early
-					// So if we reach here, we need to attach the tool
-					console.log(`[Letta Plugin] Attaching tool '${toolName}' to agent ${this.agent.id}...`);
-					await this.client.agents.tools.attach(this.agent.id, tool.id);
-					console.log(`[Letta Plugin] Successfully attached '${toolName}' tool to agent`);
-
-					// Set approval requirement for this agent-tool relationship (Method 3)
-					console.log(`[Letta Plugin] Setting approval requirement for '${toolName}' on agent ${this.agent.id}...`);
-					try {
-						console.log(`[Letta Plugin] Calling modifyApproval with agentId: ${this.agent.id}, toolName: ${toolName}, requiresApproval: true`);
-						const approvalResult = await this.client.agents.tools.modifyApproval(
-							this.agent.id,
-							toolName,
-							{ requiresApproval: true }
-						);
-						console.log(`[Letta Plugin] modifyApproval response:`, approvalResult);
-
-						// Check tool rules in the agent state
-						const toolRules = (approvalResult as any).toolRules || (approvalResult as any).tool_rules;
-						console.log(`[Letta Plugin] Agent toolRules after modifyApproval:`, toolRules);
-						const approvalRule = toolRules?.find((rule: any) =>
-							rule.toolName === toolName || rule.tool_name === toolName
-						);
-						console.log(`[Letta Plugin] Approval rule for '${toolName}':`, approvalRule);
-
-						// Verify the tool's approval status after setting it
-						const agentTools = await this.client.agents.tools.list(this.agent.id);
-						const toolInfo = agentTools.find((t: any) => t.name === toolName);
-						console.log(`[Letta Plugin] Tool '${toolName}' info from tools list:`, toolInfo);
-					} catch (approvalError: any) {
-						console.error("Failed to set approval requirement:", approvalError);
-						console.error("Error details:", approvalError.message, approvalError.stack);
-						// Don't fail the whole operation if this fails
-					}
-				} catch (error) {
-					console.error("Failed to attach tool to agent:", error);
-					// Log more details for debugging
-					console.error("Error details:", {
-						agentId: this.agent.id,
-						toolId: tool.id,
-						errorMessage: error.message
-					});
+			// Only ask when there is something new to install
+			if (this.settings.askBeforeToolRegistration) {
+				const consentModal = new ToolRegistrationConsentModal(
+					this.app,
+					this,
+					missingTools,
+				);
+				const userConsent = await consentModal.show();
+				if (!userConsent) {
+					console.log("[Letta Plugin] User declined tool registration");
+					return false;
 				}
 			}
 
-			const actionMessage = existingTool 
-				? "Obsidian note creation tool attached successfully"
-				: "Obsidian note creation tool registered successfully";
-			new Notice(actionMessage);
+			await this.vaultTools.attachToAgent(agent.id, missingTools);
+			new Notice(
+				`Attached ${missingTools.length} Obsidian vault tool${missingTools.length === 1 ? "" : "s"} to ${agent.name}`,
+			);
 			return true;
-		} catch (error) {
+		} catch (error: any) {
 			console.error("Failed to register Obsidian tools:", error);
-			new Notice("Failed to register note creation tool");
+			new Notice(`Failed to register Obsidian tools: ${error.message}`);
 			return false;
 		}
-		END COMMENTED OUT SECTION */
+	}
+
+	// Write the current agent's conversation, optionally limited to a date range, to a new note
+	async exportConversation(
+		from: Date | null,
+		to: Date | null,
+		agent: LettaAgent | null = this.agent,
+	): Promise<TFile | null> {
+		if (!agent) {
+			new Notice("Connect to an agent before exporting a conversation");
+			return null;
+		}
+
+		try {
+			new Notice("Exporting conversation...");
+			const messages = await fetchConversation(this, agent.id, from, to);
+			if (messages.length === 0) {
+				new Notice("No messages found in that range");
+				return null;
+			}
+
+			const agentName =
+				(agent.id === this.agent?.id && this.settings.agentName) || agent.name;
+			const stamp = new Date().toISOString().slice(0, 16).replace("T", " ").replace(":", "");
+			const folder = this.settings.defaultNoteFolder?.trim();
+			const baseName = `Conversation with ${agentName} ${stamp}`.replace(/[\\/:*?"<>|]/g, "_");
+			const fullPath = normalizePath(folder ? `${folder}/${baseName}.md` : `${baseName}.md`);
+
+			const content = buildTranscript(messages, {
+				agentName,
+				agentId: agent.id,
+				linkFor: (path) => {
+					const file =
+						this.app.vault.getAbstractFileByPath(path) ||
+						this.app.metadataCache.getFirstLinkpathDest(path, "");
+					return file instanceof TFile
+						? `[[${this.app.metadataCache.fileToLinktext(file, fullPath)}]]`
+						: `\`${path}\``;
+				},
+			});
+
+			if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+				await this.app.vault.createFolder(folder);
+			}
+			const file = await this.app.vault.create(fullPath, content);
+			await this.app.workspace.getLeaf("tab").openFile(file);
+			new Notice(`Exported ${messages.length} messages to ${file.basename}`);
+			return file;
+		} catch (error) {
+			console.error("[Letta Plugin] Failed to export conversation:", error);
+			new Notice(`Failed to export conversation: ${error.message}`);
+			return null;
+		}
 	}
 
 	async createNoteFromProposal(proposal: ObsidianNoteProposal): Promise<string> {
@@ -1539,6 +2452,12 @@ def write_obsidian_note(
 					: `${sanitizedTitle}_${timestamp}.md`;
 				
 				const file = await this.app.vault.create(duplicatePath, proposal.content);
+				await this.changeJournal.record({
+					path: file.path,
+					before: null,
+					after: proposal.content,
+					source: "propose_obsidian_note",
+				});
 				
 				// Open the note in a new tab
 				const leaf = this.app.workspace.getLeaf('tab');
@@ -1549,6 +2468,12 @@ def write_obsidian_note(
 			} else {
 				// Create the note
 				const file = await this.app.vault.create(fullPath, proposal.content);
+				await this.changeJournal.record({
+					path: file.path,
+					before: null,
+					after: proposal.content,
+					source: "propose_obsidian_note",
+				});
 				
 				// Open the note in a new tab
 				const leaf = this.app.workspace.getLeaf('tab');
@@ -1565,7 +2490,7 @@ def write_obsidian_note(
 	}
 }
 
-class LettaChatView extends ItemView {
+export class LettaChatView extends ItemView {
 	plugin: LettaPlugin;
 	chatContainer: HTMLElement;
 	typingIndicator: HTMLElement;
@@ -1573,8 +2498,10 @@ class LettaChatView extends ItemView {
 	heartbeatTimeout: NodeJS.Timeout | null = null;
 	header: HTMLElement;
 	inputContainer: HTMLElement;
+	outboxContainer: HTMLElement | null = null; // Pending bubbles for messages in the outbox
 	messageInput: HTMLTextAreaElement;
 	sendButton: HTMLButtonElement;
+	stopButton: HTMLButtonElement;
 	agentNameElement: HTMLElement;
 	statusDot: HTMLElement;
 	statusText: HTMLElement;
@@ -1582,10 +2509,26 @@ class LettaChatView extends ItemView {
 	autocompleteDropdown: HTMLElement | null = null;
 	mentionedFiles: Set<string> = new Set();
 	selectedSuggestionIndex: number = -1;
+	historyTopEl: HTMLElement | null = null; // Loading / "beginning of conversation" marker
+	historyCursor: string | null = null; // ID of the oldest message fetched so far
+	hasMoreHistory = false;
+	isLoadingHistory = false;
+	pendingHistory: any[] = []; // Start of a group whose first message is on an older page
+	seenHistoryKeys: Set<string> = new Set();
+	historySearchEl: HTMLElement;
+	historySearchInput: HTMLInputElement;
+	historySearchResults: HTMLElement;
+	boundAgent: LettaAgent | null = null; // Agent this leaf is pinned to; null follows the plugin default
+	pinOnNextSwitch = false; // Set when the leaf was opened to chat with another agent
+	routedAgent: RoutedAgent | null = null; // Agent the active note routes to, unless pinned
+	routeChangePending = false; // Routing changed mid-response; applied once it finishes
+	routeIndicator: HTMLElement | null = null;
+	activeResponse: ActiveResponse | null = null; // Set while sendMessage waits on the agent
 
 	constructor(leaf: WorkspaceLeaf, plugin: LettaPlugin) {
 		super(leaf);
 		this.plugin = plugin;
+		this.routedAgent = plugin.routedAgent;
 	}
 
 	getViewType() {
@@ -1593,7 +2536,106 @@ class LettaChatView extends ItemView {
 	}
 
 	getDisplayText() {
-		return "Letta Chat";
+		return this.boundAgent ? `Letta Chat: ${this.boundAgent.name}` : "Letta Chat";
+	}
+
+	// The agent this view talks to: pinned, then routed by the active note, then the default
+	get agent(): LettaAgent | null {
+		return this.boundAgent || this.routedAgent?.agent || this.plugin.agent;
+	}
+
+	get agentName(): string {
+		if (this.boundAgent) return this.boundAgent.name;
+		if (this.routedAgent) return this.routedAgent.agent.name;
+		return this.plugin.settings.agentName;
+	}
+
+	getState(): Record<string, unknown> {
+		return { ...super.getState(), agentId: this.boundAgent?.id ?? null };
+	}
+
+	async setState(state: any, result: ViewStateResult): Promise<void> {
+		await super.setState(state, result);
+
+		const agentId = state?.agentId;
+		if (!agentId || agentId === this.boundAgent?.id) return;
+
+		// Keep the binding even before its name is known; it is filled in once connected
+		this.boundAgent = { id: agentId, name: agentId };
+		this.renderOutbox();
+		await this.refreshBoundAgent();
+
+		if (this.chatContainer && this.plugin.client) {
+			this.chatContainer.empty();
+			await this.loadHistoricalMessages();
+		}
+	}
+
+	async refreshBoundAgent() {
+		if (!this.boundAgent || !this.plugin.client) return;
+
+		try {
+			const agent = await this.plugin.makeRequest(`/v1/agents/${this.boundAgent.id}`);
+			if (agent?.name) this.boundAgent.name = agent.name;
+		} catch (error) {
+			console.error("[Letta Plugin] Failed to load pinned agent:", error);
+		}
+		this.updateAgentNameDisplay();
+	}
+
+	// Follow the plugin's routing, but never switch agents in the middle of a response
+	async onAgentRouteChanged() {
+		if (this.messageInput?.disabled || this.currentApprovalRequestId) {
+			this.routeChangePending = true;
+			return;
+		}
+		this.routeChangePending = false;
+
+		const previousAgentId = this.agent?.id;
+		this.routedAgent = this.plugin.routedAgent;
+		this.updateAgentNameDisplay();
+		this.updateRouteIndicator();
+		this.renderOutbox();
+
+		if (this.agent?.id !== previousAgentId && this.chatContainer && this.plugin.client) {
+			this.chatContainer.empty();
+			await this.loadHistoricalMessages();
+		}
+	}
+
+	updateRouteIndicator() {
+		if (!this.routeIndicator) return;
+
+		if (this.boundAgent || !this.routedAgent) {
+			this.routeIndicator.hide();
+			return;
+		}
+		this.routeIndicator.setText(`Routed by ${this.routedAgent.reason}`);
+		this.routeIndicator.title = `The active note uses ${this.routedAgent.agent.name} instead of your default agent`;
+		this.routeIndicator.show();
+	}
+
+	// Pin this leaf to an agent; the workspace layout remembers it across restarts
+	bindAgent(agent: LettaAgent | null) {
+		this.boundAgent = agent ? { id: agent.id, name: agent.name } : null;
+		this.updateAgentNameDisplay();
+		this.updateRouteIndicator();
+		this.app.workspace.requestSaveLayout();
+	}
+
+	// Keep cached agent names in sync after a rename
+	async applyAgentRename(newName: string) {
+		const agentId = this.agent?.id;
+		if (this.boundAgent) {
+			this.boundAgent.name = newName;
+			this.app.workspace.requestSaveLayout();
+		}
+		if (this.plugin.agent && this.plugin.agent.id === agentId) {
+			this.plugin.agent.name = newName;
+			this.plugin.settings.agentName = newName;
+			await this.plugin.saveSettings();
+		}
+		this.updateAgentNameDisplay();
 	}
 
 	getIcon() {
@@ -1613,10 +2655,10 @@ class LettaChatView extends ItemView {
 		});
 
 		this.agentNameElement = titleSection.createEl("h3", {
-			text: this.plugin.agent
-				? this.plugin.settings.agentName
+			text: this.agent
+				? this.agentName
 				: "No Agent",
-			cls: this.plugin.agent
+			cls: this.agent
 				? "letta-chat-title"
 				: "letta-chat-title no-agent",
 		});
@@ -1655,6 +2697,22 @@ class LettaChatView extends ItemView {
 			this.openAgentSwitcher(),
 		);
 
+		const searchButton = headerButtonContainer.createEl("span", {
+			text: "Search",
+		});
+		searchButton.title = "Search this conversation";
+		searchButton.addClass("letta-config-button");
+		searchButton.addEventListener("click", () => this.toggleHistorySearch());
+
+		const exportButton = headerButtonContainer.createEl("span", {
+			text: "Export",
+		});
+		exportButton.title = "Export this conversation to a note";
+		exportButton.addClass("letta-config-button");
+		exportButton.addEventListener("click", () =>
+			new ExportConversationModal(this.app, this.plugin, this.agent).open(),
+		);
+
 		const adeButton = headerButtonContainer.createEl("span", { text: "ADE" });
 		adeButton.title = "Open in Letta Agent Development Environment";
 		adeButton.addClass("letta-config-button");
@@ -1670,6 +2728,12 @@ class LettaChatView extends ItemView {
 			cls: "letta-status-text",
 		});
 
+		// Shown while the active note routes chat to another agent
+		this.routeIndicator = this.header.createEl("div", {
+			cls: "letta-route-indicator",
+		});
+		this.updateRouteIndicator();
+
 		// Focus mode indicator
 		if (this.plugin.settings.focusMode) {
 			this.focusIndicator = this.header.createEl("div", {
@@ -1678,11 +2742,40 @@ class LettaChatView extends ItemView {
 			this.updateFocusIndicator();
 		}
 
+		// Conversation search (hidden until opened from the header)
+		this.historySearchEl = container.createEl("div", {
+			cls: "letta-history-search",
+		});
+		this.historySearchEl.hide();
+		this.historySearchInput = this.historySearchEl.createEl("input", {
+			type: "text",
+			cls: "letta-history-search-input",
+			attr: { placeholder: "Search conversation..." },
+		});
+		this.historySearchResults = this.historySearchEl.createEl("div", {
+			cls: "letta-history-search-results",
+		});
+		this.historySearchInput.addEventListener("keydown", (event) => {
+			if (event.key === "Enter") {
+				event.preventDefault();
+				this.runHistorySearch(this.historySearchInput.value);
+			} else if (event.key === "Escape") {
+				this.toggleHistorySearch(false);
+			}
+		});
+
 		// Chat container
 		this.chatContainer = container.createEl("div", {
 			cls: "letta-chat-container",
 		});
 
+		// Fetch older messages when scrolled near the top
+		this.chatContainer.addEventListener("scroll", () => {
+			if (this.chatContainer.scrollTop < 80 && this.hasMoreHistory) {
+				this.loadOlderMessages();
+			}
+		});
+
 		// Size limit warning (hidden by default)
 		this.sizeLimitWarning = this.chatContainer.createEl("div", {
 			cls: "letta-size-limit-warning",
@@ -1697,7 +2790,7 @@ class LettaChatView extends ItemView {
 
 		const typingText = this.typingIndicator.createEl("span", {
 			cls: "letta-typing-text",
-			text: `${this.plugin.settings.agentName} is thinking`,
+			text: `${this.agentName} is thinking`,
 		});
 
 		const typingDots = this.typingIndicator.createEl("span", {
@@ -1710,6 +2803,12 @@ class LettaChatView extends ItemView {
 		// Now that chat container exists, update status to show disconnected message if needed
 		this.updateChatStatus();
 
+		// Messages waiting to be sent sit between the conversation and the input
+		this.outboxContainer = container.createEl("div", {
+			cls: "letta-outbox",
+		});
+		this.renderOutbox();
+
 		// Input container
 		this.inputContainer = container.createEl("div", {
 			cls: "letta-input-container",
@@ -1733,8 +2832,16 @@ class LettaChatView extends ItemView {
 		});
 		this.sendButton.createEl("span", { text: "Send" });
 
+		this.stopButton = buttonContainer.createEl("button", {
+			cls: "letta-stop-button",
+			attr: { "aria-label": "Stop response" },
+		});
+		this.stopButton.createEl("span", { text: "Stop" });
+		this.stopButton.hide();
+
 		// Event listeners
 		this.sendButton.addEventListener("click", () => this.sendMessage());
+		this.stopButton.addEventListener("click", () => this.stopResponse());
 
 		// Update status now that all UI elements are created
 		this.updateChatStatus();
@@ -1785,6 +2892,8 @@ class LettaChatView extends ItemView {
 			clearTimeout(this.heartbeatTimeout);
 			this.heartbeatTimeout = null;
 		}
+		// Stop reading a response nobody will see; the agent still finishes it on the server
+		this.activeResponse?.controller.abort();
 	}
 
 	/**
@@ -1818,6 +2927,7 @@ class LettaChatView extends ItemView {
 		content: any,
 		title?: string,
 		reasoningContent?: string,
+		container: HTMLElement = this.chatContainer, // An off-screen page while older history renders
 	) {
 		// Adding message to chat interface
 
@@ -1879,7 +2989,7 @@ class LettaChatView extends ItemView {
 
 		// Clean up previous tool calls when starting a new assistant message
 		if (type === "assistant") {
-			this.cleanupPreviousToolCalls();
+			this.cleanupPreviousToolCalls(container);
 		}
 		// Check if this is actually a system_alert that wasn't properly filtered
 		if (textContent && textContent.includes('"type": "system_alert"')) {
@@ -1887,7 +2997,7 @@ class LettaChatView extends ItemView {
 			try {
 				const parsed = JSON.parse(textContent);
 				if (parsed.type === "system_alert") {
-					this.addSystemMessage(parsed);
+					this.addSystemMessage(parsed, container);
 					return null;
 				}
 			} catch (e) {
@@ -1914,7 +3024,7 @@ class LettaChatView extends ItemView {
 			// Don't add this message - it should have been filtered and handled by typing indicator
 			return null;
 		}
-		const messageEl = this.chatContainer.createEl("div", {
+		const messageEl = container.createEl("div", {
 			cls: `letta-message letta-message-${type}`,
 		});
 
@@ -2128,12 +3238,16 @@ class LettaChatView extends ItemView {
 		}, 50);
 
 		// Scroll to bottom with smooth animation
-		setTimeout(() => {
-			this.chatContainer.scrollTo({
-				top: this.chatContainer.scrollHeight,
-				behavior: "smooth",
-			});
-		}, 100);
+		if (container === this.chatContainer) {
+			setTimeout(() => {
+				this.chatContainer.scrollTo({
+					top: this.chatContainer.scrollHeight,
+					behavior: "smooth",
+				});
+			}, 100);
+		}
+
+		return messageEl;
 	}
 
 	async clearChat() {
@@ -2142,61 +3256,137 @@ class LettaChatView extends ItemView {
 		await this.updateChatStatus();
 	}
 
-	async loadHistoricalMessages() {
-		// Only load if we're connected and chat container is empty (excluding disconnected message)
-		if (!this.plugin.agent || !this.chatContainer) {
+	async loadHistoricalMessages() {
+		// Only load if we're connected and chat container is empty (excluding disconnected message)
+		if (!this.agent || !this.chatContainer) {
+			return;
+		}
+
+		// Check if we already have messages (don't reload on every status update)
+		const existingMessages =
+			this.chatContainer.querySelectorAll(".letta-message");
+		if (existingMessages.length > 0) {
+			return;
+		}
+
+		// Start paging from the newest message
+		this.historyTopEl?.remove();
+		this.historyTopEl = createDiv({ cls: "letta-history-top" });
+		this.chatContainer.prepend(this.historyTopEl);
+		this.historyCursor = null;
+		this.hasMoreHistory = true;
+		this.pendingHistory = [];
+		this.seenHistoryKeys.clear();
+
+		await this.loadOlderMessages();
+
+		// Keep paging until the view can scroll, otherwise the scroll trigger never fires
+		while (
+			this.hasMoreHistory &&
+			this.chatContainer.scrollHeight <= this.chatContainer.clientHeight
+		) {
+			const cursor: string | null = this.historyCursor;
+			await this.loadOlderMessages();
+			if (this.historyCursor === cursor) break;
+		}
+		this.chatContainer.scrollTop = this.chatContainer.scrollHeight;
+	}
+
+	// Fetch the page of messages before the cursor, oldest first
+	async fetchHistoryPage(): Promise<any[]> {
+		const params = new URLSearchParams({ limit: String(HISTORY_PAGE_SIZE) });
+		if (this.historyCursor) params.set("before", this.historyCursor);
+
+		const messages = await this.plugin.makeRequest(
+			`/v1/agents/${this.agent?.id}/messages?${params.toString()}`,
+		);
+		if (!Array.isArray(messages) || messages.length === 0) {
+			this.hasMoreHistory = false;
+			return [];
+		}
+		this.hasMoreHistory = messages.length >= HISTORY_PAGE_SIZE;
+
+		// Filter out any obviously malformed messages before processing
+		const validMessages = messages.filter((msg: any) => {
+			if (!msg) return false;
+			const messageType = msg.message_type || msg.type;
+			if (!messageType) {
+				console.warn(
+					"[Letta Plugin] Message missing type field:",
+					msg,
+				);
+				return false;
+			}
+			return true;
+		});
+
+		// Sort messages by timestamp (oldest first)
+		const sortedMessages = validMessages.sort(
+			(a: any, b: any) =>
+				new Date(a.date).getTime() - new Date(b.date).getTime(),
+		);
+
+		// A cursor that doesn't move would fetch the same page forever
+		const oldest = sortedMessages.find((msg: any) => msg.id);
+		if (!oldest || oldest.id === this.historyCursor) {
+			this.hasMoreHistory = false;
+		} else {
+			this.historyCursor = oldest.id;
+		}
+
+		// Reasoning, tool call and tool return parts of one message share an ID
+		return sortedMessages.filter((msg: any) => {
+			const key = `${msg.id}:${msg.message_type || msg.type}`;
+			if (this.seenHistoryKeys.has(key)) return false;
+			this.seenHistoryKeys.add(key);
+			return true;
+		});
+	}
+
+	/**
+	 * Load the next older page and render it above what is already shown.
+	 * Messages before the page's first user message belong to a group that
+	 * started on an older page, so they are held back and rendered with that
+	 * page to keep reasoning and tool results attached to the right message.
+	 */
+	async loadOlderMessages() {
+		if (!this.agent || this.isLoadingHistory || !this.hasMoreHistory) {
 			return;
 		}
 
-		// Check if we already have messages (don't reload on every status update)
-		const existingMessages =
-			this.chatContainer.querySelectorAll(".letta-message");
-		if (existingMessages.length > 0) {
-			return;
-		}
+		this.isLoadingHistory = true;
+		this.historyTopEl?.setText("Loading earlier messages...");
 
 		try {
-			// Load last 50 messages by default
-			const messages = await this.plugin.makeRequest(
-				`/v1/agents/${this.plugin.agent?.id}/messages?limit=50`,
-			);
-
-			if (!messages || messages.length === 0) {
-				return;
-			}
-
-			// Filter out any obviously malformed messages before processing
-			const validMessages = messages.filter((msg: any) => {
-				if (!msg) return false;
-				const messageType = msg.message_type || msg.type;
-				if (!messageType) {
-					console.warn(
-						"[Letta Plugin] Message missing type field:",
-						msg,
-					);
-					return false;
+			let toRender: any[] = [];
+			while (toRender.length === 0 && this.hasMoreHistory) {
+				const page = await this.fetchHistoryPage();
+				const combined = [...page, ...this.pendingHistory];
+
+				// Once the oldest page is in, everything left can be shown
+				const groupStart = this.hasMoreHistory
+					? combined.findIndex(
+							(msg: any) =>
+								(msg.message_type || msg.type) === "user_message",
+						)
+					: 0;
+				if (groupStart === -1) {
+					this.pendingHistory = combined;
+				} else {
+					this.pendingHistory = combined.slice(0, groupStart);
+					toRender = combined.slice(groupStart);
 				}
-				return true;
-			});
-
-			if (validMessages.length === 0) {
-				// No valid messages found in response
-				return;
 			}
 
-			// Sort messages by timestamp (oldest first)
-			const sortedMessages = validMessages.sort(
-				(a: any, b: any) =>
-					new Date(a.date).getTime() - new Date(b.date).getTime(),
-			);
-
-			// Process messages in groups (reasoning -> tool_call -> tool_return -> assistant)
-			await this.processMessagesInGroups(sortedMessages);
+			if (toRender.length > 0) {
+				await this.prependHistory(toRender);
+			}
 		} catch (error) {
 			console.error(
 				"[Letta Plugin] Failed to load historical messages:",
 				error,
 			);
+			this.hasMoreHistory = false;
 			// Show a minimal error message for malformed data issues
 			if (
 				error.message &&
@@ -2208,7 +3398,141 @@ class LettaChatView extends ItemView {
 					"System",
 				);
 			}
+		} finally {
+			this.isLoadingHistory = false;
+			this.updateHistoryTop();
+		}
+	}
+
+	// Render messages off-screen, then insert them at the top without moving the viewport
+	async prependHistory(messages: any[]) {
+		const chatContainer = this.chatContainer;
+		const pageContainer = createDiv();
+
+		// Process messages in groups (reasoning -> tool_call -> tool_return -> assistant)
+		await this.processMessagesInGroups(messages, pageContainer);
+
+		const previousHeight = chatContainer.scrollHeight;
+		const previousTop = chatContainer.scrollTop;
+
+		const fragment = document.createDocumentFragment();
+		while (pageContainer.firstChild) {
+			fragment.appendChild(pageContainer.firstChild);
+		}
+		chatContainer.insertBefore(
+			fragment,
+			this.historyTopEl ? this.historyTopEl.nextSibling : chatContainer.firstChild,
+		);
+
+		chatContainer.scrollTop =
+			chatContainer.scrollHeight - previousHeight + previousTop;
+	}
+
+	toggleHistorySearch(show = !this.historySearchEl.isShown()) {
+		if (show) {
+			this.historySearchEl.show();
+			this.historySearchInput.focus();
+			this.historySearchInput.select();
+		} else {
+			this.historySearchEl.hide();
+			this.historySearchResults.empty();
+		}
+	}
+
+	async runHistorySearch(query: string) {
+		this.historySearchResults.empty();
+		if (!query.trim()) return;
+		if (!this.agent) {
+			this.historySearchResults.createEl("div", {
+				cls: "letta-history-search-status",
+				text: "Connect to an agent to search its conversation",
+			});
+			return;
+		}
+
+		const statusEl = this.historySearchResults.createEl("div", {
+			cls: "letta-history-search-status",
+			text: "Searching...",
+		});
+
+		try {
+			const result = await searchHistory(this.plugin, this.agent.id, query);
+			if (result.hits.length === 0) {
+				statusEl.setText(
+					result.complete
+						? "No messages found"
+						: "No messages found in recent history",
+				);
+				return;
+			}
+
+			statusEl.setText(
+				`${result.hits.length}${result.complete ? "" : "+"} ${result.hits.length === 1 ? "message" : "messages"}`,
+			);
+			result.hits.forEach((hit) => this.renderHistorySearchHit(hit));
+		} catch (error) {
+			console.error("[Letta Plugin] Conversation search failed:", error);
+			statusEl.setText(`Search failed: ${error.message}`);
+		}
+	}
+
+	renderHistorySearchHit(hit: HistorySearchHit) {
+		const hitEl = this.historySearchResults.createEl("div", {
+			cls: "letta-history-search-hit",
+		});
+		const metaEl = hitEl.createEl("div", { cls: "letta-history-search-meta" });
+		metaEl.createEl("span", {
+			text: hit.role === "user" ? "You" : this.agentName,
+		});
+		if (hit.date) {
+			metaEl.createEl("span", { text: new Date(hit.date).toLocaleString() });
+		}
+		hitEl.createEl("div", {
+			cls: "letta-history-search-snippet",
+			text: hit.snippet || "(no preview)",
+		});
+		hitEl.addEventListener("click", () => this.jumpToMessage(hit.id));
+	}
+
+	// Page older history into the chat until the message is rendered, then scroll to it
+	async jumpToMessage(messageId: string) {
+		const findMessage = () =>
+			this.chatContainer.querySelector(
+				`[data-message-id="${CSS.escape(messageId)}"]`,
+			) as HTMLElement | null;
+
+		let messageEl = findMessage();
+		while (!messageEl && this.hasMoreHistory) {
+			// A page triggered by scrolling may still be loading
+			if (this.isLoadingHistory) {
+				await new Promise((resolve) => setTimeout(resolve, 100));
+				messageEl = findMessage();
+				continue;
+			}
+			const cursor: string | null = this.historyCursor;
+			await this.loadOlderMessages();
+			messageEl = findMessage();
+			if (this.historyCursor === cursor) break;
+		}
+
+		if (!messageEl) {
+			new Notice("That message isn't shown in the chat (it may be a system or tool message)");
+			return;
 		}
+
+		messageEl.scrollIntoView({ behavior: "smooth", block: "center" });
+		messageEl.addClass("letta-message-highlight");
+		setTimeout(() => messageEl?.removeClass("letta-message-highlight"), 2000);
+	}
+
+	updateHistoryTop() {
+		if (!this.historyTopEl) return;
+
+		const reachedStart =
+			!this.hasMoreHistory &&
+			this.chatContainer.querySelectorAll(".letta-message").length > 0;
+		this.historyTopEl.toggleClass("letta-history-start", reachedStart);
+		this.historyTopEl.setText(reachedStart ? "Beginning of conversation" : "");
 	}
 
 	// Filter out system prompt content that shouldn't be shown to users
@@ -2332,53 +3656,32 @@ class LettaChatView extends ItemView {
 	formatToolResult(toolResult: string): string {
 		if (!toolResult) return toolResult;
 
-		try {
-			// Try to parse as JSON first
-			const parsed = JSON.parse(toolResult);
-			// If successful, return pretty-printed JSON
+		// JSON and Python reprs (even wrapped in a JSON string) become structured values
+		const parsed = parseToolReturn(toolResult);
+		if (typeof parsed !== "string") {
 			return JSON.stringify(parsed, null, 2);
-		} catch (e) {
-			// If not valid JSON, check if it's a repr-style string (quoted with escapes)
-			let formatted = toolResult;
-
-			// Check if it's wrapped in quotes like a Python repr string
-			if (formatted.startsWith('"') && formatted.endsWith('"')) {
-				try {
-					// Try to parse it as a JSON string to handle escapes properly
-					formatted = JSON.parse(formatted);
-				} catch (parseError) {
-					// If JSON parsing fails, manually remove outer quotes and process escapes
-					formatted = formatted.slice(1, -1);
-
-					// Handle escaped newlines
-					formatted = formatted.replace(/\\n/g, "\n");
-
-					// Handle escaped quotes
-					formatted = formatted.replace(/\\"/g, '"');
+		}
 
-					// Handle escaped backslashes
-					formatted = formatted.replace(/\\\\/g, "\\");
-				}
-			} else {
-				// Handle escaped sequences even without quotes
-				formatted = formatted.replace(/\\n/g, "\n");
-				formatted = formatted.replace(/\\"/g, '"');
-				formatted = formatted.replace(/\\\\/g, "\\");
-			}
+		let formatted = parsed;
+		if (parsed === toolResult) {
+			// Plain text that may still carry literal escape sequences
+			formatted = formatted.replace(/\\n/g, "\n");
+			formatted = formatted.replace(/\\"/g, '"');
+			formatted = formatted.replace(/\\\\/g, "\\");
+		}
 
-			// Clean up extensive === separators - replace long chains with simple dividers
-			formatted = formatted.replace(/={10,}/g, "---\n");
+		// Clean up extensive === separators - replace long chains with simple dividers
+		formatted = formatted.replace(/={10,}/g, "---\n");
 
-			// Clean up any remaining === separators at start/end
-			formatted = formatted
-				.replace(/^===+\s*/, "")
-				.replace(/\s*===+$/, "");
+		// Clean up any remaining === separators at start/end
+		formatted = formatted
+			.replace(/^===+\s*/, "")
+			.replace(/\s*===+$/, "");
 
-			// Clean up multiple consecutive newlines
-			formatted = formatted.replace(/\n{3,}/g, "\n\n");
+		// Clean up multiple consecutive newlines
+		formatted = formatted.replace(/\n{3,}/g, "\n\n");
 
-			return formatted.trim();
-		}
+		return formatted.trim();
 	}
 
 	// Add a clean, centered rate limiting notification
@@ -2478,7 +3781,7 @@ class LettaChatView extends ItemView {
 		this.chatContainer.scrollTop = this.chatContainer.scrollHeight;
 	}
 
-	async processMessagesInGroups(messages: any[]) {
+	async processMessagesInGroups(messages: any[], container: HTMLElement = this.chatContainer) {
 		let currentReasoning = "";
 		let currentToolCallMessage: HTMLElement | null = null;
 		let currentToolName = "";
@@ -2504,7 +3807,7 @@ class LettaChatView extends ItemView {
 						))
 				) {
 					// Capturing historical system_alert message
-					this.addSystemMessage(message);
+					this.addSystemMessage(message, container);
 					continue;
 				}
 
@@ -2554,6 +3857,7 @@ class LettaChatView extends ItemView {
 					await this.addErrorMessage(
 						`Malformed ${messageType || "unknown"} message`,
 						message,
+						container,
 					);
 					continue;
 				}
@@ -2561,10 +3865,14 @@ class LettaChatView extends ItemView {
 				switch (messageType) {
 					case "user_message":
 						if (message.content || message.text) {
-							await this.addMessage(
+							const userEl = await this.addMessage(
 								"user",
 								message.text || message.content || "",
+								undefined,
+								undefined,
+								container,
 							);
+							if (userEl && message.id) userEl.dataset.messageId = message.id;
 						}
 						break;
 
@@ -2590,6 +3898,7 @@ class LettaChatView extends ItemView {
 								this.addToolInteractionMessage(
 									currentReasoning,
 									JSON.stringify(message.tool_call, null, 2),
+									container,
 								);
 							// Clear reasoning after using it
 							currentReasoning = "";
@@ -2619,12 +3928,16 @@ class LettaChatView extends ItemView {
 								message.content || message.text || "";
 							const filteredContent =
 								this.filterSystemPromptContent(rawContent);
-							await this.addMessage(
+							const assistantEl = await this.addMessage(
 								"assistant",
 								filteredContent,
-								this.plugin.settings.agentName,
+								this.agentName,
 								currentReasoning || undefined,
+								container,
 							);
+							if (assistantEl && message.id) {
+								assistantEl.dataset.messageId = message.id;
+							}
 							// Clear reasoning after using it
 							currentReasoning = "";
 						}
@@ -2648,6 +3961,7 @@ class LettaChatView extends ItemView {
 				await this.addErrorMessage(
 					`Error processing ${message?.message_type || message?.type || "unknown"} message`,
 					{ error: error.message, message },
+					container,
 				);
 			}
 		}
@@ -2675,9 +3989,9 @@ class LettaChatView extends ItemView {
 	}
 
 	// Add error message for malformed messages
-	async addErrorMessage(title: string, data: any) {
+	async addErrorMessage(title: string, data: any, container: HTMLElement = this.chatContainer) {
 		const errorContent = `${title} - This message had invalid data and was skipped.`;
-		await this.addMessage("assistant", errorContent, "System");
+		await this.addMessage("assistant", errorContent, "System", undefined, container);
 	}
 
 	async displayHistoricalMessage(message: any) {
@@ -2788,7 +4102,7 @@ class LettaChatView extends ItemView {
 					await this.addMessage(
 						"assistant",
 						filteredContent,
-						this.plugin.settings.agentName,
+						this.agentName,
 					);
 				}
 				break;
@@ -2816,9 +4130,9 @@ class LettaChatView extends ItemView {
 		separatorEl.createEl("span", { text, cls: "letta-separator-text" });
 	}
 
-	addSystemMessage(message: any) {
+	addSystemMessage(message: any, container: HTMLElement = this.chatContainer) {
 		// Create system message using the same separator style as "Previous conversation history"
-		const separatorEl = this.chatContainer.createEl("div", {
+		const separatorEl = container.createEl("div", {
 			cls: "letta-message-separator letta-system-message-separator",
 		});
 		// Hidden by default - can be toggled via settings or UI control
@@ -2832,7 +4146,7 @@ class LettaChatView extends ItemView {
 		separatorText.style.userSelect = "none";
 
 		// Create expandable content container (hidden initially)
-		const expandedContent = this.chatContainer.createEl("div", {
+		const expandedContent = container.createEl("div", {
 			cls: "letta-system-expanded-content",
 		});
 		expandedContent.style.cssText =
@@ -2872,7 +4186,9 @@ class LettaChatView extends ItemView {
 		});
 
 		// Auto-scroll to show the new system message separator
-		this.chatContainer.scrollTop = this.chatContainer.scrollHeight;
+		if (container === this.chatContainer) {
+			this.chatContainer.scrollTop = this.chatContainer.scrollHeight;
+		}
 	}
 
 	showTypingIndicator() {
@@ -2910,6 +4226,7 @@ class LettaChatView extends ItemView {
 
 	async updateChatStatus(loadHistoricalMessages = true, connectingMessage?: string) {
 		console.log("[Letta Plugin] updateChatStatus called with loadHistoricalMessages:", loadHistoricalMessages, "connectingMessage:", connectingMessage);
+		this.renderOutbox();
 
 		// If we have a connecting message, show connecting state
 		if (connectingMessage) {
@@ -2933,17 +4250,18 @@ class LettaChatView extends ItemView {
 		}
 
 		// Determine connection status based on plugin state
-		const isAgentAttached = !!this.plugin.agent;
-		const isServerConnected = !!this.plugin.client;
-		const isConnecting = this.plugin.isConnecting;
+		const state = this.plugin.connectionState;
+		const isServerConnected = !!this.plugin.client && (state === "connected" || state === "degraded");
+		const isAgentAttached = !!this.agent && isServerConnected;
+		const isConnecting = state === "connecting";
 
 		console.log("[Letta Plugin] updateChatStatus state check:", {
-			hasAgent: !!this.plugin.agent,
-			agentId: this.plugin.agent?.id,
-			agentName: this.plugin.agent?.name,
+			hasAgent: !!this.agent,
+			agentId: this.agent?.id,
+			agentName: this.agent?.name,
 			isAgentAttached,
 			isServerConnected,
-			isConnecting
+			state
 		});
 
 		// If we're in the middle of connecting, show connecting state
@@ -2966,14 +4284,21 @@ class LettaChatView extends ItemView {
 
 		if (isAgentAttached) {
 			console.log("[Letta Plugin] updateChatStatus: Taking AGENT_ATTACHED branch - full connection");
+			// A degraded connection keeps the input, so messages go to the outbox until it recovers
 			this.statusDot.className =
-				"letta-status-dot letta-status-connected";
+				state === "degraded"
+					? "letta-status-dot letta-status-warning"
+					: "letta-status-dot letta-status-connected";
 
 			// Use the plugin's helper method for consistent status text
 			this.statusText.textContent = this.plugin.getConnectionStatusText();
 
-			// Update agent name display
-			this.updateAgentNameDisplay();
+			// Update agent name display, fetching a pinned agent's name if the view was restored offline
+			if (this.boundAgent && this.boundAgent.name === this.boundAgent.id) {
+				await this.refreshBoundAgent();
+			} else {
+				this.updateAgentNameDisplay();
+			}
 
 			// Show header and input when connected
 			if (this.header) {
@@ -3039,6 +4364,8 @@ class LettaChatView extends ItemView {
 	}
 
 	updateAgentNameDisplay(connectingMessage?: string) {
+		if (!this.agentNameElement) return;
+
 		if (connectingMessage) {
 			this.agentNameElement.textContent = "Connecting...";
 			this.agentNameElement.className = "letta-chat-title connecting";
@@ -3047,9 +4374,14 @@ class LettaChatView extends ItemView {
 
 		const isServerConnected = !!this.plugin.client;
 
-		if (this.plugin.agent) {
-			this.agentNameElement.textContent = this.plugin.settings.agentName;
-			this.agentNameElement.className = "letta-chat-title";
+		if (this.agent) {
+			this.agentNameElement.textContent = this.agentName;
+			this.agentNameElement.className = this.boundAgent
+				? "letta-chat-title pinned"
+				: "letta-chat-title";
+			this.agentNameElement.title = this.boundAgent
+				? "This chat is pinned to its own agent"
+				: "";
 		} else if (isServerConnected) {
 			this.agentNameElement.textContent = "No Agent Selected";
 			this.agentNameElement.className = "letta-chat-title no-agent-selected";
@@ -3084,6 +4416,16 @@ class LettaChatView extends ItemView {
 			});
 			
 			fileInfo.title = `Currently focused on: ${activeFile.path}`;
+
+			const exclusionReason =
+				this.plugin.visibility.getExclusionReason(activeFile);
+			if (exclusionReason) {
+				const badge = this.focusIndicator.createEl("span", {
+					cls: "letta-focus-excluded-badge",
+					text: "excluded",
+				});
+				badge.title = `Hidden from the agent: ${exclusionReason}`;
+			}
 		} else {
 			this.focusIndicator.style.display = "none";
 		}
@@ -3163,8 +4505,8 @@ class LettaChatView extends ItemView {
 				if (connected) {
 					console.log("[Letta Plugin] Connection successful - calling updateChatStatus to refresh UI");
 					console.log("[Letta Plugin] Current plugin state before updateChatStatus:", {
-						hasAgent: !!this.plugin.agent,
-						agentId: this.plugin.agent?.id
+						hasAgent: !!this.agent,
+						agentId: this.agent?.id
 					});
 					// Connection successful - explicitly update chat status to refresh UI
 					await this.updateChatStatus();
@@ -3438,20 +4780,29 @@ class LettaChatView extends ItemView {
 			}
 		}
 
-		// Create new agent with user configuration and corrected defaults
+		// Create new agent with user configuration and corrected defaults.
+		// The SDK drops keys it doesn't know, so these use its camelCase names.
 		const agentBody: any = {
 			name: agentConfig.name,
-			agent_type: agentConfig.agent_type || "memgpt_v2_agent", // Use user selection or default to MemGPT v2
+			agentType: agentConfig.agent_type || "memgpt_v2_agent", // Use user selection or default to MemGPT v2
 			description: agentConfig.description,
+			system: agentConfig.system || undefined,
 			model: agentConfig.model,
-			include_base_tools: false, // Don't include base tools, use custom memory tools
-			include_multi_agent_tools: agentConfig.include_multi_agent_tools,
-			include_default_source: agentConfig.include_default_source,
+			includeBaseTools: false, // Don't include base tools, use custom memory tools
+			includeMultiAgentTools: agentConfig.include_multi_agent_tools,
+			includeDefaultSource: agentConfig.include_default_source,
 			tags: agentConfig.tags,
-			memory_blocks: agentConfig.memory_blocks,
+			memoryBlocks: agentConfig.memory_blocks?.map((block) => ({
+				label: block.label,
+				value: block.value,
+				limit: block.limit,
+				description: block.description,
+				readOnly: block.read_only,
+			})),
 			// source_ids removed - no longer using deprecated folder approach
 			// Specify the correct memory tools
-			tools: ["memory_replace", "memory_insert", "memory_rethink"],
+			tools: agentConfig.tools || ["memory_replace", "memory_insert", "memory_rethink"],
+			initialMessageSequence: agentConfig.initial_message_sequence,
 		};
 
 		// Only include project for cloud instances
@@ -3498,6 +4849,13 @@ class LettaChatView extends ItemView {
 			throw error;
 		}
 
+		// A pinned chat keeps the new agent to itself
+		if (this.boundAgent || this.pinOnNextSwitch) {
+			this.pinOnNextSwitch = false;
+			this.bindAgent({ id: newAgent.id, name: newAgent.name });
+			return;
+		}
+
 		// Update plugin state with the new agent
 		this.plugin.agent = { id: newAgent.id, name: newAgent.name };
 
@@ -3531,13 +4889,13 @@ class LettaChatView extends ItemView {
 	}
 
 	openInADE() {
-		if (!this.plugin.agent) {
+		if (!this.agent) {
 			new Notice("Please connect to Letta first");
 			return;
 		}
 
 		// Construct the ADE URL for the current agent
-		const adeUrl = `https://app.letta.com/agents/${this.plugin.agent?.id}`;
+		const adeUrl = `https://app.letta.com/agents/${this.agent?.id}`;
 
 		// Open in external browser
 		window.open(adeUrl, "_blank");
@@ -3547,32 +4905,27 @@ class LettaChatView extends ItemView {
 
 
 	async editAgentName() {
-		if (!this.plugin.agent) {
+		if (!this.agent) {
 			new Notice("Please connect to Letta first");
 			return;
 		}
 
-		const currentName = this.plugin.settings.agentName;
+		const currentName = this.agentName;
 		const newName = await this.promptForAgentName(currentName);
 
 		if (newName && newName !== currentName) {
 			try {
 				// Update agent name via API
 				await this.plugin.makeRequest(
-					`/v1/agents/${this.plugin.agent?.id}`,
+					`/v1/agents/${this.agent?.id}`,
 					{
 						method: "PATCH",
 						body: { name: newName },
 					},
 				);
 
-				// Update settings
-				this.plugin.settings.agentName = newName;
-				await this.plugin.saveSettings();
-
-				// Update UI
-				this.updateAgentNameDisplay();
-				this.plugin.agent.name = newName;
+				// Update settings and UI
+				await this.applyAgentRename(newName);
 
 				new Notice(`Agent name updated to: ${newName}`);
 			} catch (error) {
@@ -3648,11 +5001,11 @@ class LettaChatView extends ItemView {
 	}
 
 	async openAgentConfig() {
-		if (!this.plugin.agent) {
+		if (!this.agent) {
 			// Try to connect first
 			try {
 				await this.plugin.connectToLetta();
-				if (!this.plugin.agent) {
+				if (!this.agent) {
 					new Notice("Please configure your Letta connection first");
 					return;
 				}
@@ -3668,9 +5021,9 @@ class LettaChatView extends ItemView {
 
 		// Get current agent details and blocks
 		const [agentDetails, blocks] = await Promise.all([
-			this.plugin.makeRequest(`/v1/agents/${this.plugin.agent!.id}`),
+			this.plugin.makeRequest(`/v1/agents/${this.agent!.id}`),
 			this.plugin.makeRequest(
-				`/v1/agents/${this.plugin.agent!.id}/core-memory/blocks`,
+				`/v1/agents/${this.agent!.id}/core-memory/blocks`,
 			),
 		]);
 
@@ -3686,7 +5039,7 @@ class LettaChatView extends ItemView {
 					// Update agent properties if any changed
 					if (Object.keys(agentConfig).length > 0) {
 						await this.plugin.makeRequest(
-							`/v1/agents/${this.plugin.agent?.id}`,
+							`/v1/agents/${this.agent?.id}`,
 							{
 								method: "PATCH",
 								body: agentConfig,
@@ -3699,7 +5052,7 @@ class LettaChatView extends ItemView {
 						await Promise.all(
 							blockUpdates.map(async (blockUpdate: any) => {
 								await this.plugin.makeRequest(
-									`/v1/agents/${this.plugin.agent?.id}/core-memory/blocks/${blockUpdate.label}`,
+									`/v1/agents/${this.agent?.id}/core-memory/blocks/${blockUpdate.label}`,
 									{
 										method: "PATCH",
 										body: { value: blockUpdate.value },
@@ -3712,14 +5065,9 @@ class LettaChatView extends ItemView {
 					// Update local agent reference and settings
 					if (
 						agentConfig.name &&
-						agentConfig.name !== this.plugin.settings.agentName
+						agentConfig.name !== this.agentName
 					) {
-						this.plugin.settings.agentName = agentConfig.name;
-						await this.plugin.saveSettings();
-						this.updateAgentNameDisplay();
-						if (this.plugin.agent) {
-							this.plugin.agent.name = agentConfig.name;
-						}
+						await this.applyAgentRename(agentConfig.name);
 					}
 
 					const hasAgentChanges = Object.keys(agentConfig).length > 0;
@@ -3745,6 +5093,19 @@ class LettaChatView extends ItemView {
 					);
 				}
 			},
+			async (template) => {
+				try {
+					const file = await saveAgentTemplate(
+						this.app,
+						this.plugin.settings.agentTemplateFolder,
+						template,
+					);
+					new Notice(`Saved template to ${file.path}`);
+				} catch (error) {
+					console.error("[Letta Plugin] Failed to save agent template:", error);
+					new Notice(`Failed to save template: ${error.message}`);
+				}
+			},
 		);
 
 		modal.open();
@@ -3774,9 +5135,22 @@ class LettaChatView extends ItemView {
 		}, 10000);
 	}
 
+	// Send a message composed elsewhere, e.g. by the editor selection commands
+	async sendPrompt(message: string): Promise<void> {
+		if (this.messageInput.disabled) {
+			new Notice("Wait for the current response to finish");
+			return;
+		}
+		this.messageInput.value = message;
+		await this.sendMessage();
+	}
+
 	async sendMessage() {
-		let message = this.messageInput.value.trim();
-		if (!message) return;
+		const typedMessage = this.messageInput.value.trim();
+		if (!typedMessage) return;
+		let text = typedMessage;
+		let context = "";
+		const notes: string[] = [];
 
 		// Extract mentioned files and include their content
 		const mentionedFiles = this.extractMentionedFiles();
@@ -3786,9 +5160,14 @@ class LettaChatView extends ItemView {
 			for (const filePath of mentionedFiles) {
 				const file = this.plugin.app.vault.getAbstractFileByPath(filePath);
 				if (file && file instanceof TFile) {
+					if (this.plugin.visibility.isExcluded(file)) {
+						new Notice(`${file.basename} is hidden from the agent and was not included`);
+						continue;
+					}
 					try {
 						const content = await this.plugin.app.vault.read(file);
 						contextParts.push(`\n\n---\n**Context from ${file.path}:**\n\`\`\`\n${content}\n\`\`\``);
+						notes.push(file.path);
 					} catch (error) {
 						console.error(`Failed to read mentioned file ${filePath}:`, error);
 					}
@@ -3797,14 +5176,14 @@ class LettaChatView extends ItemView {
 
 			if (contextParts.length > 0) {
 				// Remove the @[[...]] mentions from the display message
-				const cleanMessage = message.replace(/@\[\[([^\]]+)\]\]/g, '');
+				text = typedMessage.replace(/@\[\[([^\]]+)\]\]/g, '');
 				// Append context to the actual message sent to the agent
-				message = cleanMessage + contextParts.join('');
+				context = contextParts.join('');
 			}
 		}
 
 		// Check connection and auto-connect if needed
-		if (!this.plugin.agent) {
+		if (!this.agent) {
 			// Show connecting status in the chat view
 			await this.updateChatStatus(false, "Connecting to Letta...");
 
@@ -3816,6 +5195,13 @@ class LettaChatView extends ItemView {
 			if (!connected) {
 				// Connection failed, show no agent/disconnected state
 				await this.updateChatStatus(false);
+
+				// Keep the message for when the server is back, unless the settings are the problem
+				const queueAgent = this.boundAgent || this.plugin.configuredAgent();
+				if (queueAgent && !this.plugin.lastAuthError) {
+					await this.queueMessage(queueAgent, text, context, notes);
+					return;
+				}
 				await this.addMessage(
 					"assistant",
 					"**Connection failed**. Please check your settings and try again.",
@@ -3829,7 +5215,7 @@ class LettaChatView extends ItemView {
 		}
 
 		// Check if agent is attached after connection
-		if (!this.plugin.agent) {
+		if (!this.agent) {
 			await this.addMessage(
 				"assistant",
 				"**No agent selected**. Please select an agent to start chatting.",
@@ -3838,18 +5224,44 @@ class LettaChatView extends ItemView {
 			return;
 		}
 
-		// Disable input while processing
-		this.messageInput.disabled = true;
-		this.sendButton.disabled = true;
-		this.sendButton.textContent = "Sending...";
-		this.sendButton.addClass("letta-button-loading");
-
-		// Add user message to chat
-		await this.addMessage("user", message);
+		const agent = this.agent;
+		const delivery = await this.deliverMessage(text, context);
+		if (delivery.status === "offline") {
+			await this.queueMessage(agent, text, context, notes);
+			this.plugin.outbox.scheduleRetry();
+		}
+	}
 
-		// Clear and reset input
+	// Put a message in the outbox and clear the input it was typed in
+	async queueMessage(agent: LettaAgent, text: string, context: string, notes: string[]) {
+		await this.plugin.outbox.add(agent, text, context, notes);
 		this.messageInput.value = "";
 		this.messageInput.style.height = "auto";
+		new Notice("Letta is unreachable. Your message will be sent once the connection is back.");
+	}
+
+	// Send a message to the agent and show the exchange. `queued` is set when the
+	// message comes from the outbox, which keeps it if the server is unreachable.
+	async deliverMessage(
+		text: string,
+		context: string,
+		queued: OutboxMessage | null = null,
+	): Promise<Delivery> {
+		if (!this.agent) return { status: "offline" };
+		const message = text + context;
+		let delivery: Delivery = { status: "sent" };
+
+		const response = this.beginResponse(this.agent);
+
+		// Add user message to chat
+		const userMessageEl = await this.addMessage("user", message);
+		this.plugin.changeJournal.beginTurn(text, this.agent.id);
+
+		// Clear and reset input, unless the message came from the outbox
+		if (!queued) {
+			this.messageInput.value = "";
+			this.messageInput.style.height = "auto";
+		}
 
 		try {
 			if (this.plugin.settings.enableStreaming) {
@@ -3861,30 +5273,29 @@ class LettaChatView extends ItemView {
 					// Completing existing streaming message before new message
 					this.markStreamingComplete();
 					// Clear state but preserve DOM elements
-					this.currentReasoningContent = "";
-					this.assistantReasoningContent = "";
-					this.currentAssistantContent = "";
-					this.currentAssistantMessageEl = null;
-					this.currentReasoningMessageEl = null;
-					this.currentToolMessageEl = null;
-					this.currentToolCallId = null;
-					this.currentToolCallArgs = "";
-					this.currentToolCallName = "";
-					this.currentToolCallData = null;
-					this.currentApprovalRequestId = null;
-					this.currentApprovalArgs = "";
-					this.currentApprovalToolName = "";
-					this.hasCreatedApprovalUI = false;
+					this.clearStreamingState();
 				}
 
 				// Reset streaming state (now safe since we completed above)
 				this.resetStreamingState();
 
+				let unreachable: Error | null = null;
 				await this.plugin.sendMessageToAgentStream(
 					message,
 					async (message) => {
-						// Handle each streaming message
-						await this.processStreamingMessage(message);
+						if (response.controller.signal.aborted) return;
+						// Remember the run so Stop can cancel it on the server
+						if (!response.runId) {
+							response.runId = message?.runId || message?.run_id || null;
+						}
+						// Chunks aren't awaited by the stream, and an approval they start
+						// keeps the response going, so each one holds the response open
+						response.pending++;
+						try {
+							await this.processStreamingMessage(message);
+						} finally {
+							await this.settleResponse(response);
+						}
 					},
 					async (error) => {
 						// Handle streaming error
@@ -3918,12 +5329,17 @@ class LettaChatView extends ItemView {
 							);
 							// Create the proper rate limit message format that includes billing link
 							this.addRateLimitMessage(rateLimitContent);
+							delivery = { status: "failed", error: error.message };
+						} else if (isOfflineError(error)) {
+							// Rethrown below so the fallback gets a try before the message is queued
+							unreachable = error;
 						} else {
 							await this.addMessage(
 								"assistant",
 								`**Streaming Error**: ${error.message}`,
 								"Error",
 							);
+							delivery = { status: "failed", error: error.message };
 						}
 					},
 					() => {
@@ -3931,14 +5347,23 @@ class LettaChatView extends ItemView {
 						// Streaming completed
 						this.markStreamingComplete();
 					},
+					this.agent,
+					response.controller.signal,
 				);
+				if (unreachable) throw unreachable;
 			} else {
 				// Use non-streaming API for more stable responses
 				// Sending message via non-streaming API
-				const messages = await this.plugin.sendMessageToAgent(message);
+				const messages = await this.plugin.sendMessageToAgent(
+					message,
+					this.agent,
+					response.controller.signal,
+				);
 				await this.processNonStreamingMessages(messages);
 			}
 		} catch (error: any) {
+			// Stopped by the user; stopResponse has already marked the chat
+			if (response.controller.signal.aborted) return delivery;
 			console.error("Failed to send message:", error);
 
 			// Try fallback to non-streaming API if streaming was enabled and fails with CORS or network issues
@@ -3960,16 +5385,29 @@ class LettaChatView extends ItemView {
 				}
 
 				try {
-					const messages =
-						await this.plugin.sendMessageToAgent(message);
+					const messages = await this.plugin.sendMessageToAgent(
+						message,
+						this.agent,
+						response.controller.signal,
+					);
 					await this.processNonStreamingMessages(messages);
-					return; // Success with fallback
+					return delivery; // Success with fallback
 				} catch (fallbackError: any) {
+					if (response.controller.signal.aborted) return delivery;
 					console.error("Fallback also failed:", fallbackError);
 					error = fallbackError; // Use the fallback error for error handling
 				}
 			}
 
+			if (isOfflineError(error)) {
+				// Nothing reached the server, so the message leaves the conversation for the outbox
+				userMessageEl?.remove();
+				this.plugin.connectionMonitor.reportOffline();
+				delivery = { status: "offline" };
+				return delivery;
+			}
+			delivery = { status: "failed", error: error.message };
+
 			// Provide specific error messages for common issues
 			let errorMessage = `**Error**: ${error.message}`;
 
@@ -3987,7 +5425,7 @@ class LettaChatView extends ItemView {
 					rateLimitContent,
 				);
 				this.addRateLimitMessage(rateLimitContent);
-				return; // Return early to avoid showing regular error message
+				return delivery; // Return early to avoid showing regular error message
 			} else if (
 				error.message.includes("401") ||
 				error.message.includes("Unauthorized")
@@ -4010,13 +5448,138 @@ class LettaChatView extends ItemView {
 
 			await this.addMessage("assistant", errorMessage, "Error");
 		} finally {
-			// Re-enable input
-			this.messageInput.disabled = false;
-			this.sendButton.disabled = false;
-			this.sendButton.textContent = "Send";
-			this.sendButton.removeClass("letta-button-loading");
-			this.messageInput.focus();
+			await this.settleResponse(response);
+		}
+		return delivery;
+	}
+
+	// Take the chat over for a response to `agent`: disable input and show Stop
+	beginResponse(agent: LettaAgent | null): ActiveResponse {
+		const response: ActiveResponse = {
+			agent,
+			controller: new AbortController(),
+			runId: null,
+			pending: 1,
+		};
+		this.activeResponse = response;
+		this.stopButton.show();
+
+		// Disable input while processing
+		this.messageInput.disabled = true;
+		this.sendButton.disabled = true;
+		this.sendButton.textContent = "Sending...";
+		this.sendButton.addClass("letta-button-loading");
+		return response;
+	}
+
+	// One part of the response is done; once none are left the chat is handed back
+	async settleResponse(response: ActiveResponse) {
+		response.pending--;
+		if (response.pending > 0) return;
+		await this.endResponse(response);
+	}
+
+	// Hand the chat back to the user, unless another response has taken it over
+	async endResponse(response: ActiveResponse) {
+		if (this.activeResponse !== response) return;
+		this.activeResponse = null;
+		this.stopButton.hide();
+
+		// Re-enable input
+		this.messageInput.disabled = false;
+		this.sendButton.disabled = false;
+		this.sendButton.textContent = "Send";
+		this.sendButton.removeClass("letta-button-loading");
+		this.messageInput.focus();
+
+		if (this.routeChangePending) {
+			await this.onAgentRouteChanged();
+		}
+	}
+
+	// Outbox messages for this view's agent, shown as pending bubbles above the input
+	renderOutbox() {
+		if (!this.outboxContainer) return;
+		this.outboxContainer.empty();
+
+		const queued = this.agent ? this.plugin.outbox.forAgent(this.agent.id) : [];
+		if (queued.length === 0) {
+			this.outboxContainer.hide();
+			return;
+		}
+		this.outboxContainer.show();
+		queued.forEach((message) => this.renderPendingMessage(message));
+	}
+
+	renderPendingMessage(message: OutboxMessage) {
+		if (!this.outboxContainer) return;
+		const messageEl = this.outboxContainer.createEl("div", {
+			cls: "letta-pending-message",
+		});
+		if (message.error) messageEl.addClass("letta-pending-failed");
+
+		const headerEl = messageEl.createEl("div", { cls: "letta-pending-header" });
+		headerEl.createEl("span", {
+			cls: "letta-pending-status",
+			text: message.error ? "Not sent" : "Waiting to send",
+		});
+		headerEl.createEl("span", {
+			cls: "letta-message-timestamp",
+			text: new Date(message.createdAt).toLocaleTimeString([], {
+				hour: "2-digit",
+				minute: "2-digit",
+			}),
+		});
+
+		const contentEl = messageEl.createEl("div", {
+			cls: "letta-pending-content",
+			text: message.text,
+		});
+		if (message.notes.length > 0) {
+			messageEl.createEl("div", {
+				cls: "letta-pending-notes",
+				text: `With ${message.notes.join(", ")}`,
+			});
 		}
+		if (message.error) {
+			messageEl.createEl("div", { cls: "letta-pending-error", text: message.error });
+		}
+
+		const actionsEl = messageEl.createEl("div", { cls: "letta-pending-actions" });
+		actionsEl
+			.createEl("button", { text: message.error ? "Retry" : "Send now" })
+			.addEventListener("click", () => this.plugin.sendOutboxNow(message.id));
+		actionsEl
+			.createEl("button", { text: "Edit" })
+			.addEventListener("click", () => this.editPendingMessage(message, contentEl, actionsEl));
+		actionsEl
+			.createEl("button", { text: "Discard", cls: "mod-warning" })
+			.addEventListener("click", () => this.plugin.outbox.discard(message.id));
+	}
+
+	// Swap a pending bubble's text for an editor; saving keeps the mentioned notes as they were read
+	editPendingMessage(message: OutboxMessage, contentEl: HTMLElement, actionsEl: HTMLElement) {
+		contentEl.empty();
+		actionsEl.hide();
+
+		const editor = contentEl.createEl("textarea", {
+			cls: "letta-pending-editor",
+			attr: { rows: "3" },
+		});
+		editor.value = message.text;
+
+		const buttonsEl = contentEl.createEl("div", { cls: "letta-pending-actions" });
+		buttonsEl
+			.createEl("button", { text: "Save", cls: "mod-cta" })
+			.addEventListener("click", async () => {
+				const text = editor.value.trim();
+				if (!text) return;
+				await this.plugin.outbox.edit(message.id, text);
+			});
+		buttonsEl
+			.createEl("button", { text: "Cancel" })
+			.addEventListener("click", () => this.renderOutbox());
+		editor.focus();
 	}
 
 	handleMentionInput() {
@@ -4041,8 +5604,10 @@ class LettaChatView extends ItemView {
 		// Get the search query
 		const searchQuery = textAfterAt.toLowerCase();
 
-		// Search for matching files
-		const files = this.plugin.app.vault.getMarkdownFiles();
+		// Search for matching files the agent is allowed to see
+		const files = this.plugin.visibility.filterVisible(
+			this.plugin.app.vault.getMarkdownFiles(),
+		);
 		const matches = files
 			.filter(file => {
 				const fileName = file.basename.toLowerCase();
@@ -4181,13 +5746,13 @@ class LettaChatView extends ItemView {
 	}
 
 	// Clean up wavy lines and prominent styling from previous tool calls
-	cleanupPreviousToolCalls() {
+	cleanupPreviousToolCalls(container: HTMLElement = this.chatContainer) {
 		// Remove wavy lines and prominent styling from all previous tool calls
 		const allWavyLines =
-			this.chatContainer.querySelectorAll(".letta-tool-curve");
+			container.querySelectorAll(".letta-tool-curve");
 		allWavyLines.forEach((line) => line.remove());
 
-		const allProminentHeaders = this.chatContainer.querySelectorAll(
+		const allProminentHeaders = container.querySelectorAll(
 			".letta-tool-prominent",
 		);
 		allProminentHeaders.forEach((header) =>
@@ -4198,9 +5763,10 @@ class LettaChatView extends ItemView {
 	addToolInteractionMessage(
 		reasoning: string,
 		toolCall: string,
+		container: HTMLElement = this.chatContainer,
 	): HTMLElement {
 		// Clean up previous tool calls when a new one starts
-		this.cleanupPreviousToolCalls();
+		this.cleanupPreviousToolCalls(container);
 
 		// Parse tool call to extract tool name
 		let toolName = "Tool Call";
@@ -4214,7 +5780,7 @@ class LettaChatView extends ItemView {
 		} catch (e) {
 			// Keep default if parsing fails
 		}
-		const messageEl = this.chatContainer.createEl("div", {
+		const messageEl = container.createEl("div", {
 			cls: "letta-message letta-message-tool-interaction",
 		});
 
@@ -4422,12 +5988,14 @@ class LettaChatView extends ItemView {
 		toolResultContent.addClass("letta-tool-content-hidden");
 
 		// Auto-scroll to bottom
-		setTimeout(() => {
-			this.chatContainer.scrollTo({
-				top: this.chatContainer.scrollHeight,
-				behavior: "smooth",
-			});
-		}, 10);
+		if (container === this.chatContainer) {
+			setTimeout(() => {
+				this.chatContainer.scrollTo({
+					top: this.chatContainer.scrollHeight,
+					behavior: "smooth",
+				});
+			}, 10);
+		}
 
 		return messageEl;
 	}
@@ -4459,6 +6027,7 @@ class LettaChatView extends ItemView {
 		let isArchivalMemorySearch = false;
 		let isArchivalMemoryInsert = false;
 		let isObsidianNoteProposal = false;
+		let isVaultSearch = false;
 		let effectiveToolCallData = toolCallData;
 
 		if (toolName) {
@@ -4466,6 +6035,7 @@ class LettaChatView extends ItemView {
 			isArchivalMemorySearch = toolName === "archival_memory_search";
 			isArchivalMemoryInsert = toolName === "archival_memory_insert";
 			isObsidianNoteProposal = toolName === "propose_obsidian_note";
+			isVaultSearch = toolName === "search_vault";
 		} else {
 			// Parse from DOM (for streaming messages)
 			try {
@@ -4480,6 +6050,7 @@ class LettaChatView extends ItemView {
 						isArchivalMemorySearch = detectedToolName === "archival_memory_search";
 						isArchivalMemoryInsert = detectedToolName === "archival_memory_insert";
 						isObsidianNoteProposal = detectedToolName === "propose_obsidian_note";
+						isVaultSearch = detectedToolName === "search_vault";
 					} else {
 						// Fallback to parsing from content (legacy)
 						effectiveToolCallData = JSON.parse(
@@ -4495,6 +6066,7 @@ class LettaChatView extends ItemView {
 							fallbackToolName === "archival_memory_insert";
 						isObsidianNoteProposal =
 							fallbackToolName === "propose_obsidian_note";
+						isVaultSearch = fallbackToolName === "search_vault";
 					}
 				}
 			} catch (e) {
@@ -4505,8 +6077,8 @@ class LettaChatView extends ItemView {
 		// Fallback detection: check tool result content for note proposals
 		if (!isObsidianNoteProposal) {
 			try {
-				const parsedResult = JSON.parse(toolResult);
-				if (parsedResult.action === "create_note" && parsedResult.title && parsedResult.content) {
+				const parsedResult: any = parseToolReturn(toolResult);
+				if (parsedResult?.action === "create_note" && parsedResult.title && parsedResult.content) {
 					console.log("[Letta Plugin] 🔍 Fallback detection: Found note proposal in tool result!");
 					isObsidianNoteProposal = true;
 				}
@@ -4522,6 +6094,7 @@ class LettaChatView extends ItemView {
 			isArchivalMemorySearch,
 			isArchivalMemoryInsert,
 			isObsidianNoteProposal,
+			isVaultSearch,
 			toolResultPreview: toolResult.substring(0, 100) + "..."
 		});
 
@@ -4556,6 +6129,8 @@ class LettaChatView extends ItemView {
 			// Handle special tool types
 			if (isArchivalMemorySearch) {
 				this.createArchivalMemoryDisplay(toolResultContent, toolResult);
+			} else if (isVaultSearch) {
+				this.createVaultSearchDisplay(toolResultContent, toolResult);
 			} else if (isArchivalMemoryInsert) {
 				this.createArchivalMemoryInsertDisplay(
 					toolResultContent,
@@ -4603,76 +6178,33 @@ class LettaChatView extends ItemView {
 			}
 		}
 
-		// Auto-scroll to bottom
-		setTimeout(() => {
-			this.chatContainer.scrollTo({
-				top: this.chatContainer.scrollHeight,
-				behavior: "smooth",
-			});
-		}, 10);
+		// Auto-scroll to bottom, unless the tool call is in older history still rendering off-screen
+		if (this.chatContainer.contains(messageEl)) {
+			setTimeout(() => {
+				this.chatContainer.scrollTo({
+					top: this.chatContainer.scrollHeight,
+					behavior: "smooth",
+				});
+			}, 10);
+		}
 	}
 
 	createArchivalMemoryDisplay(container: HTMLElement, toolResult: string) {
 		try {
-			let result;
-			let rawContent = toolResult.trim();
-
-			// Handle JSON-encoded string containing Python tuple format
-			if (rawContent.startsWith('"') && rawContent.endsWith('"')) {
-				const parsedString = JSON.parse(rawContent);
-
-				if (
-					parsedString.startsWith("(") &&
-					parsedString.endsWith(")")
-				) {
-					// Extract array from Python tuple: ([...], count) -> [...]
-					const innerContent = parsedString.slice(1, -1);
-					const match = innerContent.match(/^(.+),\s*(\d+)$/);
-
-					if (match) {
-						const arrayString = match[1];
-						// Extract memory items manually from Python dict format
-						const dictPattern =
-							/\{'timestamp':\s*'([^']+)',\s*'content':\s*'((?:[^'\\]|\\.)*)'\}/g;
-						const memoryItems = [];
-						let dictMatch;
-
-						while (
-							(dictMatch = dictPattern.exec(arrayString)) !== null
-						) {
-							const timestamp = dictMatch[1];
-							const content = dictMatch[2]
-								.replace(/\\'/g, "'")
-								.replace(/\\n/g, "\n")
-								.replace(/\\t/g, "\t")
-								.replace(/\\"/g, '"');
-							memoryItems.push({ timestamp, content });
-						}
-
-						result = memoryItems;
-					} else {
-						result = JSON.parse(parsedString);
-					}
-				} else {
-					result = JSON.parse(parsedString);
-				}
-			} else if (rawContent.startsWith("(") && rawContent.endsWith(")")) {
-				// Handle direct Python tuple format
-				const innerContent = rawContent.slice(1, -1);
-				const match = innerContent.match(/^(.+),\s*(\d+)$/);
-				if (match) {
-					let arrayString = match[1];
-					arrayString = arrayString
-						.replace(/None/g, "null")
-						.replace(/True/g, "true")
-						.replace(/False/g, "false")
-						.replace(/'/g, '"');
-					result = JSON.parse(arrayString);
-				} else {
-					result = JSON.parse(rawContent);
-				}
-			} else {
-				result = JSON.parse(rawContent);
+			let result: any = parseToolReturn(toolResult);
+
+			// archival_memory_search returns a (results, count) tuple
+			if (
+				Array.isArray(result) &&
+				result.length === 2 &&
+				Array.isArray(result[0]) &&
+				typeof result[1] === "number"
+			) {
+				result = result[0];
+			}
+			if (!result || typeof result !== "object") {
+				// Plain text is shown by the fallback below
+				throw new Error("Not an archival memory search result");
 			}
 
 			// Check if it's an array (archival memory search results)
@@ -4827,6 +6359,111 @@ class LettaChatView extends ItemView {
 		}
 	}
 
+	createVaultSearchDisplay(container: HTMLElement, toolResult: string) {
+		try {
+			// Tool returns arrive as a JSON string that itself contains the JSON result
+			const result: any = parseToolReturn(toolResult);
+
+			if (!result || !Array.isArray(result.results)) {
+				throw new Error("Not a vault search result");
+			}
+
+			container.createEl("div", {
+				cls: "letta-vault-search-summary",
+				text:
+					result.total > result.results.length
+						? `Showing ${result.results.length} of ${result.total} matching notes`
+						: `${result.total} matching ${result.total === 1 ? "note" : "notes"}`,
+			});
+
+			const resultList = container.createEl("div", {
+				cls: "letta-memory-list",
+			});
+
+			result.results.forEach((item: any) => {
+				const resultItem = resultList.createEl("div", {
+					cls: "letta-memory-item letta-vault-search-item",
+				});
+
+				const itemHeader = resultItem.createEl("div", {
+					cls: "letta-memory-item-header letta-expandable-header",
+				});
+
+				const chevron = itemHeader.createEl("span", {
+					cls: "letta-expandable-chevron",
+					text: "○",
+				});
+
+				// Note title opens the note; the rest of the header toggles the snippets
+				const titleEl = itemHeader.createEl("a", {
+					cls: "letta-memory-title letta-vault-search-link",
+					text: item.title || item.path,
+					attr: { title: item.path },
+				});
+				titleEl.addEventListener("click", async (event) => {
+					event.stopPropagation();
+					const file = this.app.vault.getAbstractFileByPath(item.path);
+					if (file instanceof TFile) {
+						await this.app.workspace.getLeaf("tab").openFile(file);
+					} else {
+						new Notice(`Note not found: ${item.path}`);
+					}
+				});
+
+				const snippets: string[] = Array.isArray(item.snippets)
+					? item.snippets
+					: [];
+				itemHeader.createEl("span", {
+					cls: "letta-memory-preview",
+					text: snippets[0] || item.path,
+				});
+
+				const itemContent = resultItem.createEl("div", {
+					cls: "letta-memory-content letta-expandable-content letta-expandable-collapsed",
+				});
+
+				const metaEl = itemContent.createEl("div", {
+					cls: "letta-vault-search-meta",
+				});
+				metaEl.createEl("span", { text: item.path });
+				if (item.modified) {
+					metaEl.createEl("span", {
+						text: new Date(item.modified).toLocaleDateString(),
+					});
+				}
+				if (Array.isArray(item.tags) && item.tags.length > 0) {
+					metaEl.createEl("span", { text: item.tags.join(" ") });
+				}
+
+				snippets.forEach((snippet) => {
+					itemContent.createEl("div", {
+						cls: "letta-vault-search-snippet",
+						text: snippet,
+					});
+				});
+
+				itemHeader.addEventListener("click", () => {
+					const isCollapsed = itemContent.classList.contains(
+						"letta-expandable-collapsed",
+					);
+					if (isCollapsed) {
+						itemContent.removeClass("letta-expandable-collapsed");
+						chevron.textContent = "●";
+					} else {
+						itemContent.addClass("letta-expandable-collapsed");
+						chevron.textContent = "○";
+					}
+				});
+			});
+		} catch (e) {
+			// Errors and unexpected formats are shown as plain text
+			container.createEl("div", {
+				cls: "letta-tool-result-text",
+				text: this.formatToolResult(toolResult),
+			});
+		}
+	}
+
 	createArchivalMemoryInsertDisplay(
 		container: HTMLElement,
 		toolCallData: any,
@@ -4977,7 +6614,7 @@ class LettaChatView extends ItemView {
 		
 		// Add timestamp and agent info at the bottom
 		const timestamp = new Date().toISOString();
-		const agentId = this.plugin.agent?.id || "unknown";
+		const agentId = this.agent?.id || "unknown";
 		content += `\n\n<small>Created: ${timestamp} | Agent: \`${agentId}\`</small>`;
 		
 		console.log("[Letta Plugin] Generated content length:", content.length);
@@ -5008,7 +6645,7 @@ class LettaChatView extends ItemView {
 	async createNotePreviewDisplay(container: HTMLElement, toolResult: string) {
 		try {
 			console.log("[Letta Plugin] Creating note preview, raw toolResult:", toolResult);
-			const firstParse = JSON.parse(toolResult);
+			const firstParse: any = parseToolReturn(toolResult);
 			console.log("[Letta Plugin] First parse result:", firstParse);
 			let proposal = firstParse;
 			
@@ -5101,7 +6738,7 @@ class LettaChatView extends ItemView {
 		console.log("[Letta Plugin] Tool result to enhance:", toolResult);
 		
 		try {
-			const firstParse = JSON.parse(toolResult);
+			const firstParse: any = parseToolReturn(toolResult);
 			console.log("[Letta Plugin] First parse result:", firstParse);
 			console.log("[Letta Plugin] First parse keys:", Object.keys(firstParse));
 			console.log("[Letta Plugin] First parse type:", typeof firstParse);
@@ -5251,7 +6888,10 @@ class LettaChatView extends ItemView {
 
 	createNoteProposalDisplay(container: HTMLElement, toolResult: string, tempPath?: string | null) {
 		try {
-			const proposal = JSON.parse(toolResult) as ObsidianNoteProposal;
+			const proposal = parseToolReturn(toolResult) as ObsidianNoteProposal;
+			if (!proposal || typeof proposal !== "object") {
+				throw new Error("Tool result is not a note proposal");
+			}
 			
 			// Create note proposal header
 			const header = container.createEl("div", { cls: "letta-note-proposal-header" });
@@ -5394,6 +7034,12 @@ class LettaChatView extends ItemView {
 				const content = await this.app.vault.read(tempFile as any);
 				console.log("[Letta Plugin] Read content from temp file, length:", content.length);
 				const newFile = await this.app.vault.create(targetPath, content);
+				await this.plugin.changeJournal.record({
+					path: newFile.path,
+					before: null,
+					after: content,
+					source: "propose_obsidian_note",
+				});
 
 				// Delete temp file
 				await this.app.vault.delete(tempFile as any);
@@ -5423,10 +7069,16 @@ class LettaChatView extends ItemView {
 				
 				// Add timestamp and agent info at the bottom
 				const timestamp = new Date().toISOString();
-				const agentId = this.plugin.agent?.id || "unknown";
+				const agentId = this.agent?.id || "unknown";
 				content += `\n\n<small>Created: ${timestamp} | Agent: \`${agentId}\`</small>`;
 				
 				const newFile = await this.app.vault.create(targetPath, content);
+				await this.plugin.changeJournal.record({
+					path: newFile.path,
+					before: null,
+					after: content,
+					source: "propose_obsidian_note",
+				});
 				
 				// Open the new file
 				const leaf = this.app.workspace.getLeaf('tab');
@@ -5483,7 +7135,7 @@ class LettaChatView extends ItemView {
 			
 			// Add timestamp and agent info at the bottom
 			const timestamp = new Date().toISOString();
-			const agentId = this.plugin.agent?.id || "unknown";
+			const agentId = this.agent?.id || "unknown";
 			content += `\n\n<small>Created: ${timestamp} | Agent: \`${agentId}\`</small>`;
 
 			// Delete the original temp file if it exists
@@ -5719,7 +7371,7 @@ class LettaChatView extends ItemView {
 						await this.addMessage(
 							"assistant",
 							filteredContent,
-							this.plugin.settings.agentName,
+							this.agentName,
 							tempReasoning || undefined,
 						);
 						// Clear temp reasoning after using it
@@ -5786,7 +7438,7 @@ class LettaChatView extends ItemView {
 						await this.addMessage(
 							"assistant",
 							filteredContent,
-							this.plugin.settings.agentName,
+							this.agentName,
 						);
 					} else {
 						// Last resort: show the JSON structure for debugging
@@ -5901,6 +7553,14 @@ class LettaChatView extends ItemView {
 					console.log("[Letta Plugin] Current tool call name:", this.currentToolCallName);
 					// Update the current tool interaction with the result
 					await this.updateStreamingToolResult(streamingToolReturnData);
+					const returnedToolName = this.currentToolCallName || message.name || "";
+					if (MEMORY_TOOL_PATTERN.test(returnedToolName) && message.status !== "error" && this.agent) {
+						this.plugin
+							.refreshMemoryAfterTool(this.agent.id, returnedToolName)
+							.catch((error) =>
+								console.error("[Letta Plugin] Failed to refresh memory blocks:", error),
+							);
+					}
 					// Clear the current tool call state since it's complete
 					this.currentToolCallId = null;
 					this.currentToolCallArgs = "";
@@ -5909,9 +7569,7 @@ class LettaChatView extends ItemView {
 				}
 				break;
 			case "approval_request_message":
-				// DISABLED: Approval handling commented out due to upstream API issues
-				// console.log("[Letta Plugin] Received approval_request_message:", message);
-				// await this.handleApprovalRequest(message);
+				await this.handleApprovalRequest(message);
 				break;
 			case "assistant_message":
 				// Processing streaming assistant message
@@ -6016,7 +7674,7 @@ class LettaChatView extends ItemView {
 			});
 			leftSide.createEl("span", {
 				cls: "letta-message-title",
-				text: this.plugin.settings.agentName,
+				text: this.agentName,
 			});
 			leftSide.createEl("span", {
 				cls: "letta-message-timestamp",
@@ -6345,6 +8003,30 @@ class LettaChatView extends ItemView {
 		// Mark that we're creating the UI
 		this.hasCreatedApprovalUI = true;
 
+		const toolCallInfo = {
+			name: toolName,
+			id: toolCall.tool_call_id || toolCall.toolCallId,
+		};
+		const vaultTool = this.plugin.vaultTools.get(toolName);
+
+		// Read-only vault tools run straight away when auto-approval is enabled,
+		// unless the user has stopped the response
+		if (
+			vaultTool &&
+			!vaultTool.writes &&
+			this.plugin.settings.autoApproveReadTools
+		) {
+			if (this.activeResponse?.controller.signal.aborted) return;
+			await this.sendApprovalResponse(
+				approvalRequestId,
+				true,
+				toolArgs,
+				undefined,
+				toolCallInfo,
+			);
+			return;
+		}
+
 		console.log("[Letta Plugin] Creating approval UI for tool:", toolName);
 		console.log("[Letta Plugin] Final tool arguments:", toolArgs);
 
@@ -6383,6 +8065,33 @@ class LettaChatView extends ItemView {
 			argsEl.createEl("div", {
 				text: `File Path: ${toolArgs.file_path || 'N/A'}`,
 			});
+		} else if (vaultTool) {
+			argsEl.createEl("div", {
+				text: vaultTool.describeCall(toolArgs),
+			});
+			if (vaultTool.preview) {
+				// Show exactly what would change; nothing is written until approval
+				const diffEl = argsEl.createEl("div", {
+					cls: "letta-diff-view",
+					text: "Preparing preview...",
+				});
+				vaultTool
+					.preview(toolArgs)
+					.then((preview) => {
+						diffEl.empty();
+						renderSideBySideDiff(diffEl, preview);
+					})
+					.catch((error) => {
+						diffEl.empty();
+						diffEl.addClass("letta-diff-error");
+						diffEl.setText(`Can't apply this edit: ${error.message}`);
+					});
+			} else if (typeof toolArgs.content === "string") {
+				argsEl.createEl("pre", {
+					text: toolArgs.content,
+					cls: "letta-approval-content-preview",
+				});
+			}
 		} else {
 			argsEl.createEl("pre", {
 				text: JSON.stringify(toolArgs, null, 2),
@@ -6412,7 +8121,13 @@ class LettaChatView extends ItemView {
 			denyBtn.disabled = true;
 			approveBtn.textContent = "Approving...";
 
-			await this.sendApprovalResponse(approvalRequestId, true, toolArgs);
+			await this.sendApprovalResponse(
+				approvalRequestId,
+				true,
+				toolArgs,
+				undefined,
+				toolCallInfo,
+			);
 
 			// Remove the approval UI after a short delay
 			setTimeout(() => {
@@ -6444,7 +8159,13 @@ class LettaChatView extends ItemView {
 				denyBtn.disabled = true;
 				denyBtn.textContent = "Denying...";
 
-				await this.sendApprovalResponse(approvalRequestId, false, toolArgs, reason);
+				await this.sendApprovalResponse(
+					approvalRequestId,
+					false,
+					toolArgs,
+					reason,
+					toolCallInfo,
+				);
 
 				// Remove the approval UI after a short delay
 				setTimeout(() => {
@@ -6462,13 +8183,51 @@ class LettaChatView extends ItemView {
 		}, 10);
 	}
 
-	async sendApprovalResponse(approvalRequestId: string, approve: boolean, toolArgs: any, reason?: string) {
+	async sendApprovalResponse(
+		approvalRequestId: string,
+		approve: boolean,
+		toolArgs: any,
+		reason?: string,
+		toolCall?: { name: string; id?: string },
+	) {
 		console.log("[Letta Plugin] sendApprovalResponse:", { approvalRequestId, approve, reason });
 
 		let finalApprove = approve;
 		let finalReason = reason;
+		const vaultTool = toolCall
+			? this.plugin.vaultTools.get(toolCall.name)
+			: undefined;
+
+		// Continue the response in progress, or start one when the user answers
+		// an approval after it ended, so Stop can end the agent's next steps too
+		const current = this.activeResponse;
+		const response =
+			current && !current.controller.signal.aborted
+				? current
+				: this.beginResponse(this.agent);
+		if (response === current) response.pending++;
+		const { signal } = response.controller;
 
 		try {
+			// Vault tools run here in Obsidian and their result goes back to the agent
+			if (vaultTool && approve) {
+				const outcome = await this.plugin.vaultTools.execute(
+					vaultTool.name,
+					toolArgs,
+				);
+				if (signal.aborted) return;
+				if (outcome.status === "error" && vaultTool.writes) {
+					new Notice(`${vaultTool.name} failed: ${outcome.result}`);
+				} else if (vaultTool.writes) {
+					new Notice(
+						`${vaultTool.describeCall(toolArgs)} done. Use "Undo last agent note edit" to revert.`,
+					);
+				}
+				await this.sendToolReturn(approvalRequestId, toolCall?.id, outcome, signal);
+				this.finishApprovalResponse();
+				return;
+			}
+
 			// If approved and it's a write_obsidian_note call, execute the write
 			if (approve && toolArgs.block_label && toolArgs.file_path) {
 				console.log("[Letta Plugin] Executing note write...");
@@ -6496,47 +8255,117 @@ class LettaChatView extends ItemView {
 			console.log("[Letta Plugin] Sending approval response:", approvalMessage);
 
 			// Send the approval message using the streaming API
-			if (!this.plugin.agent || !this.plugin.client) {
+			if (!this.agent || !this.plugin.client) {
 				throw new Error("Agent or client not initialized");
 			}
 
 			const stream = await this.plugin.client.agents.messages.createStream(
-				this.plugin.agent.id,
+				this.agent.id,
 				{
 					messages: [approvalMessage as any],
 					streamTokens: true,
 				},
+				{ abortSignal: signal },
 			);
 
 			// Process the stream responses
 			for await (const chunk of stream) {
+				if (signal.aborted) break;
 				if (chunk && typeof chunk === "object") {
+					if (!response.runId) {
+						response.runId = (chunk as any).runId || (chunk as any).run_id || null;
+					}
 					await this.processStreamingMessage(chunk);
 				}
 			}
 
-			// Re-enable input after response is processed
-			this.messageInput.disabled = false;
-			this.sendButton.disabled = false;
-			this.sendButton.textContent = "Send";
-			this.sendButton.removeClass("letta-button-loading");
-
-			// Reset approval state after completion
-			this.currentApprovalRequestId = null;
-			this.currentApprovalArgs = "";
-			this.currentApprovalToolName = "";
-			this.hasCreatedApprovalUI = false;
-
+			this.finishApprovalResponse();
 		} catch (error: any) {
+			// Stopped by the user; stopResponse has already marked the chat
+			if (signal.aborted) return;
 			console.error("[Letta Plugin] Error sending approval response:", error);
 			new Notice(`Failed to send approval response: ${error.message}`);
+		} finally {
+			// Input comes back once the whole response, approvals included, is done
+			await this.settleResponse(response);
+		}
+	}
+
+	// Reset approval state once the agent has responded
+	finishApprovalResponse() {
+		this.currentApprovalRequestId = null;
+		this.currentApprovalArgs = "";
+		this.currentApprovalToolName = "";
+		this.hasCreatedApprovalUI = false;
+	}
+
+	// Send a client-side tool result back to the agent. Servers that accept client
+	// tool returns receive it as the tool's return value; older servers only
+	// understand approve/deny, so the result is delivered as the denial reason.
+	async sendToolReturn(
+		approvalRequestId: string,
+		toolCallId: string | undefined,
+		outcome: VaultToolOutcome,
+		signal?: AbortSignal,
+	) {
+		if (!this.agent) {
+			throw new Error("Agent not initialized");
+		}
+		// makeRequest can't be aborted, so Stop is checked between its requests
+		if (signal?.aborted) return;
+
+		const path = `/v1/agents/${this.agent.id}/messages`;
+		let response: any = null;
+
+		if (toolCallId) {
+			try {
+				response = await this.plugin.makeRequest(path, {
+					method: "POST",
+					body: {
+						messages: [
+							{
+								type: "approval",
+								approval_request_id: approvalRequestId,
+								approvals: [
+									{
+										type: "tool",
+										tool_call_id: toolCallId,
+										tool_return: outcome.result,
+										status: outcome.status,
+									},
+								],
+							},
+						],
+					},
+				});
+			} catch (error: any) {
+				if (!/^HTTP 4(00|22)/.test(error.message || "")) throw error;
+				console.warn(
+					"[Letta Plugin] Server rejected client tool return, falling back to denial reason:",
+					error.message,
+				);
+			}
+		}
 
-			// Re-enable input on error
-			this.messageInput.disabled = false;
-			this.sendButton.disabled = false;
-			this.sendButton.textContent = "Send";
-			this.sendButton.removeClass("letta-button-loading");
+		if (signal?.aborted) return;
+		if (!response) {
+			response = await this.plugin.makeRequest(path, {
+				method: "POST",
+				body: {
+					messages: [
+						{
+							type: "approval",
+							approve: false,
+							approval_request_id: approvalRequestId,
+							reason: `This tool was executed by the Obsidian plugin, not the server. Result (${outcome.status}):\n${outcome.result}`,
+						},
+					],
+				},
+			});
 		}
+
+		if (signal?.aborted) return;
+		await this.processNonStreamingMessages(response?.messages || []);
 	}
 
 	async executeNoteWrite(blockLabel: string, filePath: string) {
@@ -6578,13 +8407,35 @@ class LettaChatView extends ItemView {
 				}
 			}
 
-			// Create or overwrite the file
+			// Never let the agent write into notes it isn't allowed to see
 			const existingFile = this.app.vault.getAbstractFileByPath(fullPath);
+			if (
+				existingFile instanceof TFile
+					? this.plugin.visibility.isExcluded(existingFile)
+					: this.plugin.visibility.isPathExcluded(fullPath)
+			) {
+				throw new Error(`${fullPath} is hidden from the agent by your visibility rules`);
+			}
+
+			// Create or overwrite the file
 			if (existingFile instanceof TFile) {
+				const before = await this.app.vault.read(existingFile);
 				await this.app.vault.modify(existingFile, content);
+				await this.plugin.changeJournal.record({
+					path: fullPath,
+					before,
+					after: content,
+					source: "write_obsidian_note",
+				});
 				new Notice(`Updated note: ${fullPath}`);
 			} else {
 				await this.app.vault.create(fullPath, content);
+				await this.plugin.changeJournal.record({
+					path: fullPath,
+					before: null,
+					after: content,
+					source: "write_obsidian_note",
+				});
 				new Notice(`Created note: ${fullPath}`);
 			}
 
@@ -6634,6 +8485,11 @@ class LettaChatView extends ItemView {
 		//     this.currentToolMessageEl.remove();
 		// }
 
+		this.clearStreamingState();
+	}
+
+	// Forget the message being streamed without touching what it has shown
+	clearStreamingState() {
 		this.currentReasoningContent = "";
 		this.assistantReasoningContent = "";
 		this.currentAssistantContent = "";
@@ -6660,7 +8516,7 @@ class LettaChatView extends ItemView {
 			this.addMessage(
 				"assistant",
 				this.currentAssistantContent,
-				this.plugin.settings.agentName,
+				this.agentName,
 				this.assistantReasoningContent
 			);
 
@@ -6677,6 +8533,39 @@ class LettaChatView extends ItemView {
 		this.hideTypingIndicator();
 	}
 
+	// Stop the response sendMessage is waiting on: drop the stream, leave what has
+	// arrived marked as interrupted, and ask the server to cancel the run
+	async stopResponse() {
+		const response = this.activeResponse;
+		if (!response || response.controller.signal.aborted) return;
+
+		response.controller.abort();
+		this.markStreamingInterrupted();
+		// Approval steps still finishing a request see the abort and stop on their own
+		await this.endResponse(response);
+
+		if (response.agent) {
+			await this.plugin.cancelAgentRun(response.agent, response.runId);
+		}
+	}
+
+	markStreamingInterrupted() {
+		const partialEl = this.currentAssistantMessageEl || this.currentToolMessageEl;
+		if (partialEl) {
+			partialEl.addClass("streaming-complete", "letta-message-interrupted");
+			const bubbleEl = partialEl.querySelector(".letta-message-bubble") || partialEl;
+			bubbleEl.createEl("div", { cls: "letta-interrupted-note", text: "Stopped" });
+		} else {
+			this.chatContainer.createEl("div", {
+				cls: "letta-interrupted-note",
+				text: "Stopped before the agent replied",
+			});
+		}
+
+		this.hideTypingIndicator();
+		this.clearStreamingState();
+	}
+
 	addUsageStatistics(usageMessage: any) {
 		// Add usage statistics to the current streaming assistant message
 		if (!this.currentAssistantMessageEl) return;
@@ -7096,7 +8985,7 @@ class LettaChatView extends ItemView {
 						"1px solid var(--background-modifier-border)";
 					agentEl.style.cursor = "pointer";
 
-					const isCurrentAgent = agent.id === this.plugin.agent?.id;
+					const isCurrentAgent = agent.id === this.agent?.id;
 
 					const nameEl = agentEl.createEl("div", {
 						text: agent.name,
@@ -7167,22 +9056,28 @@ class LettaChatView extends ItemView {
 			// Clear current chat without triggering updateChatStatus
 			this.chatContainer.empty();
 
-			// CRITICAL: Update both agent name AND agent ID in settings
-			this.plugin.settings.agentName = agent.name;
-			this.plugin.settings.agentId = agent.id; // This was missing!
+			if (this.boundAgent || this.pinOnNextSwitch) {
+				// A pinned chat switches on its own, leaving the default agent alone
+				this.pinOnNextSwitch = false;
+				this.bindAgent(agent);
+			} else {
+				// CRITICAL: Update both agent name AND agent ID in settings
+				this.plugin.settings.agentName = agent.name;
+				this.plugin.settings.agentId = agent.id; // This was missing!
 
-			if (project) {
-				this.plugin.settings.lettaProjectSlug = project.slug;
-			}
-			await this.plugin.saveSettings();
+				if (project) {
+					this.plugin.settings.lettaProjectSlug = project.slug;
+				}
+				await this.plugin.saveSettings();
 
-			// Update plugin agent reference with consistent format (like setupAgent does)
-			this.plugin.agent = {
-				id: agent.id,
-				name: agent.name,
-				// Preserve other properties if they exist
-				...agent,
-			};
+				// Update plugin agent reference with consistent format (like setupAgent does)
+				this.plugin.agent = {
+					id: agent.id,
+					name: agent.name,
+					// Preserve other properties if they exist
+					...agent,
+				};
+			}
 
 			// Verify the agent switch by checking if we can access it
 			const verifyAgent = await this.plugin.makeRequest(
@@ -7199,7 +9094,7 @@ class LettaChatView extends ItemView {
 			);
 
 			// Ensure Obsidian tools are registered and configured for this agent
-			await this.plugin.registerObsidianTools();
+			await this.plugin.registerObsidianTools(this.agent);
 
 			// Update UI - agent name
 			this.updateAgentNameDisplay();
@@ -7227,7 +9122,7 @@ class LettaChatView extends ItemView {
 	}
 }
 
-class LettaMemoryView extends ItemView {
+export class LettaMemoryView extends ItemView {
 	plugin: LettaPlugin;
 	blocks: any[] = [];
 	blockEditors: Map<string, HTMLTextAreaElement> = new Map();
@@ -7307,6 +9202,22 @@ class LettaMemoryView extends ItemView {
 		});
 		this.refreshButton.addEventListener("click", () => this.loadBlocks());
 
+		const archivalButton = buttonContainer.createEl("span", {
+			text: "Archival",
+			attr: { title: "Browse the agent's archival memory" },
+		});
+		archivalButton.style.cssText =
+			"cursor: pointer; opacity: 0.7; padding: 2px 6px; margin: 0 4px;";
+		archivalButton.addEventListener("mouseenter", () => {
+			archivalButton.style.opacity = "1";
+		});
+		archivalButton.addEventListener("mouseleave", () => {
+			archivalButton.style.opacity = "0.7";
+		});
+		archivalButton.addEventListener("click", () =>
+			this.plugin.openArchivalView(),
+		);
+
 		// Content container
 		const contentContainer = container.createEl("div", {
 			cls: "letta-memory-content",
@@ -7337,6 +9248,9 @@ class LettaMemoryView extends ItemView {
 				`/v1/agents/${this.plugin.agent?.id}/core-memory/blocks`,
 			);
 			this.lastRefreshTime = new Date();
+			if (this.plugin.agent && Array.isArray(this.blocks)) {
+				await this.plugin.blockHistory.recordBlocks(this.plugin.agent.id, this.blocks, "refresh");
+			}
 
 			this.renderBlocks();
 		} catch (error) {
@@ -7392,6 +9306,13 @@ class LettaMemoryView extends ItemView {
 				cls: "letta-memory-char-counter",
 			});
 
+			// History button
+			const historyButton = headerActions.createEl("button", {
+				text: "History",
+				cls: "letta-memory-action-btn letta-memory-history-btn",
+				attr: { title: "Show earlier values of this block" },
+			});
+
 			// Detach button
 			const detachButton = headerActions.createEl("button", {
 				text: "Detach",
@@ -7409,6 +9330,16 @@ class LettaMemoryView extends ItemView {
 			});
 
 			// Event listeners for buttons
+			historyButton.addEventListener("click", () => {
+				if (!this.plugin.agent) return;
+				new BlockHistoryModal(
+					this.app,
+					this.plugin,
+					this.plugin.agent.id,
+					block.label || block.name,
+					() => this.loadBlocks(),
+				).open();
+			});
 			detachButton.addEventListener("click", () =>
 				this.detachBlock(block),
 			);
@@ -7475,6 +9406,112 @@ class LettaMemoryView extends ItemView {
 		});
 	}
 
+	// Show block changes made by the agent without a full reload; blocks with unsaved edits keep them
+	applyBlockUpdates(agentId: string, blocks: any[], source: string) {
+		if (agentId !== this.plugin.agent?.id || !Array.isArray(this.blocks)) return;
+
+		const labelOf = (block: any) => block.label || block.name;
+		const sameBlocks =
+			blocks.length === this.blocks.length &&
+			blocks.every((block) => this.blocks.some((local) => labelOf(local) === labelOf(block)));
+		const hasUnsavedEdits = Array.from(this.blockDirtyStates.values()).some(Boolean);
+		if (!sameBlocks && !hasUnsavedEdits) {
+			// A block was added or removed, so lay the view out again
+			this.blocks = blocks;
+			this.renderBlocks();
+			return;
+		}
+
+		blocks.forEach((block) => {
+			const label = labelOf(block);
+			const localBlock = this.blocks.find((b) => labelOf(b) === label);
+			const editor = this.blockEditors.get(label);
+			const newValue = block.value || "";
+			if (!localBlock || !editor || (localBlock.value || "") === newValue) return;
+
+			const blockContainer = editor.parentElement as HTMLElement;
+			if (this.blockDirtyStates.get(label)) {
+				// Leave the local copy alone so saving still detects the conflict
+				this.showBlockChange(
+					blockContainer,
+					editor,
+					`${source} changed this block while you were editing it. Saving will ask which version to keep.`,
+					null,
+					newValue,
+				);
+				return;
+			}
+
+			const span = findChangedSpan(localBlock.value || "", newValue);
+			Object.assign(localBlock, block);
+			editor.value = newValue;
+
+			const charCounter = blockContainer.querySelector(
+				".letta-memory-char-counter",
+			) as HTMLElement | null;
+			if (charCounter) {
+				const limit = localBlock.limit || 5000;
+				charCounter.textContent = `${newValue.length}/${limit}`;
+				charCounter.style.color =
+					newValue.length > limit ? "var(--text-error)" : "var(--text-muted)";
+			}
+
+			this.showBlockChange(blockContainer, editor, `Updated by ${source}`, span, newValue);
+		});
+	}
+
+	// Note above the editor showing what changed, with the new text highlighted in context
+	private showBlockChange(
+		blockContainer: HTMLElement,
+		editor: HTMLTextAreaElement,
+		message: string,
+		span: ChangedSpan | null,
+		value: string,
+	) {
+		blockContainer.querySelector(".letta-memory-block-change")?.remove();
+
+		const changeEl = blockContainer.createEl("div", {
+			cls: "letta-memory-block-change",
+		});
+		blockContainer.insertBefore(changeEl, editor);
+
+		const headerEl = changeEl.createEl("div", {
+			cls: "letta-memory-block-change-header",
+		});
+		headerEl.createEl("span", { text: message });
+		const dismissButton = headerEl.createEl("span", {
+			text: "×",
+			cls: "letta-memory-block-change-dismiss",
+			attr: { title: "Dismiss" },
+		});
+		dismissButton.addEventListener("click", () => changeEl.remove());
+
+		if (span) {
+			const excerpt = changeEl.createEl("div", {
+				cls: "letta-memory-block-change-excerpt",
+			});
+			const contextStart = Math.max(0, span.start - BLOCK_CHANGE_CONTEXT);
+			excerpt.appendText(
+				(contextStart > 0 ? "…" : "") + value.substring(contextStart, span.start),
+			);
+			if (span.removed) excerpt.createEl("del", { text: span.removed });
+			if (span.inserted) excerpt.createEl("mark", { text: span.inserted });
+			const contextEnd = span.start + span.inserted.length;
+			excerpt.appendText(
+				value.substring(contextEnd, contextEnd + BLOCK_CHANGE_CONTEXT) +
+					(contextEnd + BLOCK_CHANGE_CONTEXT < value.length ? "…" : ""),
+			);
+
+			// Select the new text so it is ready when the editor gets focus
+			if (span.inserted) {
+				editor.setSelectionRange(span.start, span.start + span.inserted.length);
+			}
+		}
+
+		blockContainer.addClass("letta-memory-block-updated");
+		window.setTimeout(() => blockContainer.removeClass("letta-memory-block-updated"), 2000);
+	}
+
 	updateSaveButton(blockLabel: string, isDirty: boolean) {
 		const saveButton = this.blockSaveButtons.get(blockLabel);
 		if (saveButton) {
@@ -7513,8 +9550,13 @@ class LettaMemoryView extends ItemView {
 			if (serverValue !== originalLocalValue) {
 				// Conflict detected - show resolution dialog
 				saveButton.textContent = "Conflict Detected";
+				if (this.plugin.agent) {
+					// Keep the server's version in history even if it gets overwritten
+					await this.plugin.blockHistory.record(this.plugin.agent.id, blockLabel, serverBlock.value || "", "server");
+				}
 
-				const resolution = await this.showConflictDialog(
+				const resolution = await showBlockConflictDialog(
+					this.app,
 					blockLabel,
 					originalLocalValue,
 					serverValue,
@@ -7555,141 +9597,40 @@ class LettaMemoryView extends ItemView {
 				// If resolution === 'overwrite', continue with save
 			}
 
-			// Step 3: Save our changes (no conflict or user chose to overwrite)
-			saveButton.textContent = "Saving...";
-
-			await this.plugin.makeRequest(
-				`/v1/agents/${this.plugin.agent?.id}/core-memory/blocks/${blockLabel}`,
-				{
-					method: "PATCH",
-					body: { value: newValue },
-				},
-			);
-
-			// Update local state
-			localBlock.value = newValue;
-			this.blockDirtyStates.set(blockLabel, false);
-			saveButton.textContent = "Saved ✓";
-
-			setTimeout(() => {
-				saveButton.textContent = "No Changes";
-			}, 2000);
-
-			new Notice(`Memory block "${blockLabel}" updated successfully`);
-		} catch (error) {
-			console.error(`Failed to save block ${blockLabel}:`, error);
-			new Notice(
-				`Failed to save block "${blockLabel}". Please try again.`,
-			);
-			saveButton.textContent = "Save Changes";
-		} finally {
-			saveButton.disabled =
-				this.blockDirtyStates.get(blockLabel) !== true;
-		}
-	}
-
-	private showConflictDialog(
-		blockLabel: string,
-		originalValue: string,
-		serverValue: string,
-		localValue: string,
-	): Promise<"keep-server" | "overwrite" | "cancel"> {
-		return new Promise((resolve) => {
-			const modal = new Modal(this.app);
-			modal.setTitle("Memory Block Conflict");
-
-			const { contentEl } = modal;
-
-			// Warning message
-			const warningEl = contentEl.createEl("div", {
-				cls: "conflict-warning",
-			});
-			warningEl.createEl("p", {
-				text: `The memory block "${blockLabel}" has been changed on the server since you started editing.`,
-				cls: "conflict-message",
-			});
-
-			// Create tabs/sections for different versions
-			const versionsContainer = contentEl.createEl("div", {
-				cls: "conflict-versions",
-			});
-
-			// Server version section
-			const serverSection = versionsContainer.createEl("div", {
-				cls: "conflict-section",
-			});
-			serverSection.createEl("h4", {
-				text: "🌐 Server Version (Current)",
-				cls: "conflict-section-title",
-			});
-			const serverTextarea = serverSection.createEl("textarea", {
-				cls: "conflict-textarea",
-				attr: { readonly: "true", rows: "6" },
-			});
-			serverTextarea.value = serverValue;
-
-			// Your version section
-			const localSection = versionsContainer.createEl("div", {
-				cls: "conflict-section",
-			});
-			localSection.createEl("h4", {
-				text: "✏️ Your Changes",
-				cls: "conflict-section-title",
-			});
-			const localTextarea = localSection.createEl("textarea", {
-				cls: "conflict-textarea",
-				attr: { readonly: "true", rows: "6" },
-			});
-			localTextarea.value = localValue;
-
-			// Character counts
-			const serverCount = contentEl.createEl("p", {
-				text: `Server version: ${serverValue.length} characters`,
-				cls: "conflict-char-count",
-			});
-			const localCount = contentEl.createEl("p", {
-				text: `Your version: ${localValue.length} characters`,
-				cls: "conflict-char-count",
-			});
-
-			// Action buttons
-			const buttonContainer = contentEl.createEl("div", {
-				cls: "conflict-buttons",
-			});
-
-			const keepServerButton = buttonContainer.createEl("button", {
-				text: "Keep Server Version",
-				cls: "conflict-btn conflict-btn-server",
-			});
-
-			const overwriteButton = buttonContainer.createEl("button", {
-				text: "Overwrite with My Changes",
-				cls: "conflict-btn conflict-btn-overwrite",
-			});
-
-			const cancelButton = buttonContainer.createEl("button", {
-				text: "Cancel",
-				cls: "conflict-btn conflict-btn-cancel",
-			});
+			// Step 3: Save our changes (no conflict or user chose to overwrite)
+			saveButton.textContent = "Saving...";
 
-			// Event handlers
-			keepServerButton.addEventListener("click", () => {
-				resolve("keep-server");
-				modal.close();
-			});
+			await this.plugin.makeRequest(
+				`/v1/agents/${this.plugin.agent?.id}/core-memory/blocks/${blockLabel}`,
+				{
+					method: "PATCH",
+					body: { value: newValue },
+				},
+			);
 
-			overwriteButton.addEventListener("click", () => {
-				resolve("overwrite");
-				modal.close();
-			});
+			// Update local state
+			localBlock.value = newValue;
+			this.blockDirtyStates.set(blockLabel, false);
+			saveButton.textContent = "Saved ✓";
+			if (this.plugin.agent) {
+				await this.plugin.blockHistory.record(this.plugin.agent.id, blockLabel, newValue, "memory view");
+			}
 
-			cancelButton.addEventListener("click", () => {
-				resolve("cancel");
-				modal.close();
-			});
+			setTimeout(() => {
+				saveButton.textContent = "No Changes";
+			}, 2000);
 
-			modal.open();
-		});
+			new Notice(`Memory block "${blockLabel}" updated successfully`);
+		} catch (error) {
+			console.error(`Failed to save block ${blockLabel}:`, error);
+			new Notice(
+				`Failed to save block "${blockLabel}". Please try again.`,
+			);
+			saveButton.textContent = "Save Changes";
+		} finally {
+			saveButton.disabled =
+				this.blockDirtyStates.get(blockLabel) !== true;
+		}
 	}
 
 	showError(message: string) {
@@ -8344,11 +10285,13 @@ class LettaMemoryView extends ItemView {
 
 class ToolRegistrationConsentModal extends Modal {
 	plugin: LettaPlugin;
+	tools: VaultTool[];
 	resolve: (consent: boolean) => void;
 	
-	constructor(app: App, plugin: LettaPlugin) {
+	constructor(app: App, plugin: LettaPlugin, tools: VaultTool[]) {
 		super(app);
 		this.plugin = plugin;
+		this.tools = tools;
 	}
 	
 	async show(): Promise<boolean> {
@@ -8366,14 +10309,23 @@ class ToolRegistrationConsentModal extends Modal {
 		const description = contentEl.createEl("div", {
 			cls: "modal-description",
 		});
-		description.innerHTML = `
-			<p>Letta wants to register the following custom Obsidian tool:</p>
-			<ul>
-				<li><code>write_obsidian_note</code> - Write a memory block's content to a specified file path in your vault</li>
-			</ul>
-			<p><strong>Note:</strong> Tools will be installed for your entire Letta organization but will only be attached to your current agent. Each tool use requires your explicit approval before execution.</p>
-			<p><em>You can change this preference in the plugin settings at any time.</em></p>
-		`;
+		description.createEl("p", {
+			text: "Letta wants to register the following custom Obsidian tools. They run inside Obsidian against your vault, and never see notes hidden by your visibility rules:",
+		});
+		const toolList = description.createEl("ul");
+		this.tools.forEach((tool) => {
+			const item = toolList.createEl("li");
+			item.createEl("code", { text: tool.name });
+			item.appendText(` - ${tool.description}`);
+		});
+		const note = description.createEl("p");
+		note.createEl("strong", { text: "Note: " });
+		note.appendText(
+			"Tools will be installed for your entire Letta organization but will only be attached to your current agent. Tools that change your vault always require your explicit approval; read-only tools run automatically unless you turn that off in settings.",
+		);
+		description.createEl("p").createEl("em", {
+			text: "You can change this preference in the plugin settings at any time.",
+		});
 		
 		const buttonContainer = contentEl.createEl("div", {
 			cls: "modal-button-container",
@@ -8406,17 +10358,155 @@ class ToolRegistrationConsentModal extends Modal {
 	}
 }
 
+class ExportConversationModal extends Modal {
+	plugin: LettaPlugin;
+	agent: LettaAgent | null; // Defaults to the plugin's agent
+
+	constructor(app: App, plugin: LettaPlugin, agent: LettaAgent | null = plugin.agent) {
+		super(app);
+		this.plugin = plugin;
+		this.agent = agent;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl("h2", { text: "Export Conversation" });
+		contentEl.createEl("p", {
+			text: "Save this agent's conversation as a note. Leave the dates empty to export everything.",
+			cls: "modal-description",
+		});
+
+		let fromValue = "";
+		let toValue = "";
+
+		new Setting(contentEl)
+			.setName("From")
+			.setDesc("First day to include")
+			.addText((text) => {
+				text.inputEl.type = "date";
+				text.onChange((value) => (fromValue = value));
+			});
+
+		new Setting(contentEl)
+			.setName("To")
+			.setDesc("Last day to include")
+			.addText((text) => {
+				text.inputEl.type = "date";
+				text.onChange((value) => (toValue = value));
+			});
+
+		const buttonContainer = contentEl.createEl("div", {
+			cls: "modal-button-container",
+		});
+
+		const exportButton = buttonContainer.createEl("button", {
+			text: "Export",
+			cls: "mod-cta",
+		});
+		exportButton.onclick = async () => {
+			// Date inputs give local calendar days; cover the whole of the last one
+			const from = fromValue ? new Date(`${fromValue}T00:00:00`) : null;
+			const to = toValue ? new Date(`${toValue}T23:59:59.999`) : null;
+			if (from && to && from > to) {
+				new Notice("The start date is after the end date");
+				return;
+			}
+
+			exportButton.disabled = true;
+			const file = await this.plugin.exportConversation(from, to, this.agent);
+			if (file) {
+				this.close();
+			} else {
+				exportButton.disabled = false;
+			}
+		};
+
+		const cancelButton = buttonContainer.createEl("button", {
+			text: "Cancel",
+		});
+		cancelButton.onclick = () => this.close();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+class ExportAgentModal extends Modal {
+	plugin: LettaPlugin;
+
+	constructor(app: App, plugin: LettaPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl("h2", { text: "Export Agent" });
+		contentEl.createEl("p", {
+			text: `Save the agent's configuration, system prompt, memory blocks and tools to a note in "${AGENT_FILE_FOLDER}". Run "Create agent from agent file" on the note to make a copy.`,
+			cls: "modal-description",
+		});
+
+		let includeMessages = false;
+
+		new Setting(contentEl)
+			.setName("Include message history")
+			.setDesc("Your messages and the agent's replies. A copy starts from this conversation.")
+			.addToggle((toggle) =>
+				toggle.setValue(includeMessages).onChange((value) => (includeMessages = value)),
+			);
+
+		const buttonContainer = contentEl.createEl("div", {
+			cls: "modal-button-container",
+		});
+
+		const exportButton = buttonContainer.createEl("button", {
+			text: "Export",
+			cls: "mod-cta",
+		});
+		exportButton.onclick = async () => {
+			exportButton.disabled = true;
+			const file = await this.plugin.exportAgentToFile(includeMessages);
+			if (file) {
+				this.close();
+			} else {
+				exportButton.disabled = false;
+			}
+		};
+
+		const cancelButton = buttonContainer.createEl("button", {
+			text: "Cancel",
+		});
+		cancelButton.onclick = () => this.close();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
 class AgentConfigModal extends Modal {
 	plugin: LettaPlugin;
 	config: AgentConfig;
+	templates: AgentTemplate[] = [];
+	templateName = ""; // Template the form was filled from, empty for the defaults
 	resolve: (config: AgentConfig | null) => void;
 	reject: (error: Error) => void;
 
 	constructor(app: App, plugin: LettaPlugin) {
 		super(app);
 		this.plugin = plugin;
-		this.config = {
-			name: plugin.settings.agentName,
+		this.config = this.defaultConfig();
+	}
+
+	defaultConfig(): AgentConfig {
+		return {
+			name: this.plugin.settings.agentName,
 			agent_type: "memgpt_v2_agent", // Default to MemGPT v2 architecture
 			description: "An AI assistant for your Obsidian vault",
 			include_base_tools: false, // Don't include core_memory* tools
@@ -8435,7 +10525,34 @@ class AgentConfigModal extends Modal {
 		};
 	}
 
+	// Refill the form from a template, or from the defaults when none is picked
+	applyTemplate(template: AgentTemplate | null) {
+		const defaults = this.defaultConfig();
+		this.templateName = template?.name || "";
+		if (!template) {
+			this.config = { ...defaults, name: this.config.name };
+			return;
+		}
+
+		this.config = {
+			...defaults,
+			name: template.agent_name || this.config.name,
+			agent_type: (template.agent_type as AgentType) || defaults.agent_type,
+			description: template.description ?? defaults.description,
+			model: template.model || defaults.model,
+			system: template.system ?? "",
+			tags: template.tags || defaults.tags,
+			// Vault tools are attached by the plugin once the agent is connected
+			tools: template.tools?.filter((name) => !this.plugin.vaultTools.has(name)),
+			memory_blocks: template.memory_blocks.map((block) => ({ ...block })),
+		};
+	}
+
 	async showModal(): Promise<AgentConfig | null> {
+		this.templates = await listAgentTemplates(
+			this.app,
+			this.plugin.settings.agentTemplateFolder,
+		);
 		return new Promise((resolve, reject) => {
 			this.resolve = resolve;
 			this.reject = reject;
@@ -8461,6 +10578,42 @@ class AgentConfigModal extends Modal {
 		// Form container
 		const formEl = contentEl.createEl("div", { cls: "agent-config-form" });
 
+		// Template picker
+		const templateSection = formEl.createEl("div", { cls: "config-section" });
+		templateSection.createEl("h3", { text: "Template" });
+		const templateGroup = templateSection.createEl("div", { cls: "config-group" });
+		templateGroup.createEl("div", {
+			text: this.templates.length > 0
+				? `Start from a template in "${this.plugin.settings.agentTemplateFolder}"`
+				: `No templates yet. Add notes to "${this.plugin.settings.agentTemplateFolder}", or save one from an agent's Config panel.`,
+			cls: "config-help",
+		});
+		const templateSelect = templateGroup.createEl("select", {
+			cls: "config-select",
+		});
+		templateSelect.createEl("option", { value: "", text: "Default agent" });
+		this.templates.forEach((template) => {
+			const option = templateSelect.createEl("option", {
+				value: template.name,
+				text: template.name,
+			});
+			option.selected = template.name === this.templateName;
+		});
+		templateSelect.disabled = this.templates.length === 0;
+		templateSelect.addEventListener("change", () => {
+			this.applyTemplate(
+				this.templates.find((template) => template.name === templateSelect.value) || null,
+			);
+			this.onOpen();
+		});
+
+		if (this.templateName && this.config.memory_blocks?.length) {
+			templateGroup.createEl("div", {
+				text: `Memory blocks: ${this.config.memory_blocks.map((block) => block.label).join(", ")}`,
+				cls: "config-help",
+			});
+		}
+
 		// Basic Configuration
 		const basicSection = formEl.createEl("div", { cls: "config-section" });
 		basicSection.createEl("h3", { text: "Basic Configuration" });
@@ -8615,12 +10768,20 @@ class AgentConfigModal extends Modal {
 			text: "These instructions define how the agent behaves and responds",
 			cls: "config-help",
 		});
+		// Templates carry a real system prompt; the defaults keep instructions in a "system" block
+		const editsSystemPrompt = this.config.system !== undefined;
 		const systemInput = systemGroup.createEl("textarea", {
-			value: this.config.memory_blocks?.[0]?.value || "",
+			value: editsSystemPrompt
+				? this.config.system
+				: this.config.memory_blocks?.[0]?.value || "",
 			cls: "config-textarea",
 			attr: { rows: "6" },
 		});
 		systemInput.addEventListener("input", () => {
+			if (editsSystemPrompt) {
+				this.config.system = systemInput.value;
+				return;
+			}
 			if (!this.config.memory_blocks) {
 				this.config.memory_blocks = [];
 			}
@@ -8701,17 +10862,20 @@ class AgentPropertyModal extends Modal {
 	agent: any;
 	blocks: any[];
 	onSave: (config: any) => Promise<void>;
+	onSaveTemplate?: (template: AgentTemplate) => Promise<void>;
 
 	constructor(
 		app: App,
 		agent: any,
 		blocks: any[],
 		onSave: (config: any) => Promise<void>,
+		onSaveTemplate?: (template: AgentTemplate) => Promise<void>,
 	) {
 		super(app);
 		this.agent = agent;
 		this.blocks = blocks;
 		this.onSave = onSave;
+		this.onSaveTemplate = onSaveTemplate;
 	}
 
 	onOpen() {
@@ -8886,6 +11050,49 @@ class AgentPropertyModal extends Modal {
 			cls: "agent-config-create-btn",
 		});
 
+		if (this.onSaveTemplate) {
+			const templateButton = buttonContainer.createEl("button", {
+				text: "Save as Template",
+				cls: "agent-config-cancel-btn",
+			});
+			templateButton.title = "Save the form as a template for new agents";
+			templateButton.addEventListener("click", async () => {
+				const name = nameInput.value.trim() || this.agent.name;
+				const blockValues = new Map<string, string>();
+				(form.querySelectorAll(".block-editor") as NodeListOf<HTMLTextAreaElement>).forEach(
+					(textarea) => {
+						blockValues.set(textarea.getAttribute("data-block-label") || "", textarea.value);
+					},
+				);
+
+				templateButton.disabled = true;
+				await this.onSaveTemplate!({
+					name,
+					agent_name: name,
+					description: descInput.value.trim() || undefined,
+					agent_type: this.agent.agent_type || undefined,
+					model: modelHandle(this.agent),
+					system: systemInput.value.trim() || undefined,
+					tags: tagsInput.value
+						.split(",")
+						.map((tag) => tag.trim())
+						.filter((tag) => tag),
+					tools: (this.agent.tools || [])
+						.map((tool: any) => tool.name)
+						.filter(Boolean),
+					memory_blocks: this.blocks
+						.filter((block) => !/^obsidian-.+-focused-note$/.test(block.label || ""))
+						.map((block) => ({
+							label: block.label || block.name,
+							value: blockValues.get(block.label || block.name) ?? block.value ?? "",
+							limit: block.limit || undefined,
+							description: block.description || undefined,
+						})),
+				});
+				templateButton.disabled = false;
+			});
+		}
+
 		const cancelButton = buttonContainer.createEl("button", {
 			text: "Cancel",
 			cls: "agent-config-cancel-btn",
@@ -9209,6 +11416,40 @@ class LettaSettingTab extends PluginSettingTab {
 			);
 
 
+		new Setting(containerEl)
+			.setName("Agent Templates Folder")
+			.setDesc(
+				"Notes in this folder appear as templates when creating an agent. Use 'Save as Template' in an agent's Config panel to add one.",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("Letta Templates")
+					.setValue(this.plugin.settings.agentTemplateFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.agentTemplateFolder = value.trim() || DEFAULT_SETTINGS.agentTemplateFolder;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Memory Block Notes")
+			.setDesc(
+				"Keep a note for each of the agent's memory blocks in 'Letta Memory Blocks'. Edits to the notes update the agent's memory, and changes the agent makes are pulled into the notes every minute.",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.mirrorMemoryBlocks)
+					.onChange(async (value) => {
+						this.plugin.settings.mirrorMemoryBlocks = value;
+						await this.plugin.saveSettings();
+						if (value) {
+							this.plugin.pullMemoryBlockNotes(true);
+						} else {
+							this.plugin.blockMirror.cancelPendingChanges();
+						}
+					}),
+			);
+
 		new Setting(containerEl)
 			.setName("Auto-Connect on Startup")
 			.setDesc("Automatically connect to Letta when Obsidian starts")
@@ -9305,11 +11546,12 @@ class LettaSettingTab extends PluginSettingTab {
 							await this.plugin.saveSettings();
 
 							// Update the block limit if it exists
-							if (this.plugin.agent && this.plugin.focusBlockId) {
-								const focusBlockLabel = `obsidian-${this.plugin.agent.id}-focused-note`;
+							const focusAgentId = this.plugin.focusBlockAgentId;
+							if (focusAgentId && this.plugin.focusBlockId) {
+								const focusBlockLabel = `obsidian-${focusAgentId}-focused-note`;
 								try {
 									await this.plugin.client?.agents.blocks.modify(
-										this.plugin.agent.id,
+										focusAgentId,
 										focusBlockLabel,
 										{
 											limit: numValue,
@@ -9370,6 +11612,20 @@ class LettaSettingTab extends PluginSettingTab {
 					}),
 			);
 
+		new Setting(containerEl)
+			.setName("Auto-Approve Read-Only Tools")
+			.setDesc(
+				"Let the agent search, read and list visible notes without asking each time. Tools that change your vault always ask for approval.",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.autoApproveReadTools)
+					.onChange(async (value) => {
+						this.plugin.settings.autoApproveReadTools = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
 		new Setting(containerEl)
 			.setName("Default Note Folder")
 			.setDesc(
@@ -9386,6 +11642,112 @@ class LettaSettingTab extends PluginSettingTab {
 			);
 
 
+		// Visibility Settings
+		containerEl.createEl("h3", { text: "Note Visibility" });
+
+		new Setting(containerEl)
+			.setName("Hidden Notes")
+			.setDesc(
+				"Notes the agent must never see - excluded from focus mode, @-mentions, sync and vault tools. One rule per line: folder or glob paths (Journal/, Templates/*.md), tags (#private), and ! to re-include (!Journal/shared/). Notes with 'letta: false' in their frontmatter are always hidden.",
+			)
+			.addTextArea((text) => {
+				text
+					.setPlaceholder("Letta Memory Blocks/\n#private")
+					.setValue(this.plugin.settings.visibilityRules)
+					.onChange(async (value) => {
+						this.plugin.settings.visibilityRules = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshFocusIndicator();
+						if (this.plugin.settings.focusMode && this.plugin.agent) {
+							this.plugin.scheduleFocusUpdate();
+						}
+					});
+				text.inputEl.rows = 6;
+			});
+
+		// Agent Routing Settings
+		containerEl.createEl("h3", { text: "Agent Routing" });
+
+		new Setting(containerEl)
+			.setName("Routing Rules")
+			.setDesc(
+				"Pick the agent for chat and focus mode from the note you are viewing. One rule per line, 'match -> agent', where match is a folder or glob path (Projects/Research/) or a tag (#writing) and agent is an agent ID or name. The first matching rule wins. A 'letta-agent' frontmatter value overrides the rules; other notes use the default agent.",
+			)
+			.addTextArea((text) => {
+				text
+					.setPlaceholder("Projects/Research/ -> Research Assistant\n#writing -> Writing Coach")
+					.setValue(this.plugin.settings.agentRoutingRules)
+					.onChange(async (value) => {
+						this.plugin.settings.agentRoutingRules = value;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 6;
+				// Apply the rules once editing is done, not for every partial agent name typed
+				text.inputEl.addEventListener("blur", () => {
+					this.plugin.applyRoutingRules();
+				});
+			});
+
+		// Vault Sync Settings
+		containerEl.createEl("h3", { text: "Vault Sync" });
+
+		new Setting(containerEl)
+			.setName("Letta Folder Name")
+			.setDesc(
+				"Name of the Letta folder that vault notes are uploaded to. The folder is created and attached to the agent on first sync.",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("obsidian-vault-files")
+					.setValue(this.plugin.settings.sourceName)
+					.onChange(async (value) => {
+						this.plugin.settings.sourceName = value.trim();
+						await this.plugin.saveSettings();
+						// Pick up the new folder on the next sync
+						this.plugin.syncEngine.reset();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Auto Sync")
+			.setDesc(
+				"Upload notes as they are created or changed, and propagate renames and deletes",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.autoSync)
+					.onChange(async (value) => {
+						this.plugin.settings.autoSync = value;
+						await this.plugin.saveSettings();
+						if (!value) {
+							this.plugin.syncEngine.cancelPendingChanges();
+						}
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Sync on Startup")
+			.setDesc(
+				"Sync the vault after auto-connecting when Obsidian starts (only changed notes are uploaded)",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.syncOnStartup)
+					.onChange(async (value) => {
+						this.plugin.settings.syncOnStartup = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Sync Now")
+			.setDesc("Upload new and changed notes and remove deleted ones from Letta")
+			.addButton((button) =>
+				button.setButtonText("Sync vault").onClick(async () => {
+					await this.plugin.syncEngine.syncVault();
+				}),
+			);
+
 		// Actions
 		containerEl.createEl("h3", { text: "Actions" });
 
@@ -0,0 +1,211 @@
+import type LettaPlugin from "../main";
+import { messagePages, messageText, messageType } from "./history-search";
+
+// Frontmatter property that marks a note as an agent file; its value is the format version
+export const AGENT_FILE_KEY = "letta-agent-file";
+export const AGENT_FILE_VERSION = 1;
+
+export interface AgentFileBlock {
+	label: string;
+	value: string;
+	limit?: number;
+	description?: string;
+	read_only?: boolean;
+}
+
+export interface AgentFileTool {
+	name: string;
+	tool_type?: string; // e.g. "letta_core" or "custom"
+}
+
+export interface AgentFileMessage {
+	role: "user" | "assistant";
+	content: string;
+	date?: string;
+}
+
+export interface AgentFileData {
+	version: number;
+	exported_at: string;
+	agent: {
+		id: string; // The agent the file was exported from, for reference only
+		name: string;
+		description?: string;
+		agent_type?: string;
+		system?: string;
+		model?: string; // provider/model handle
+		tags?: string[];
+	};
+	memory_blocks: AgentFileBlock[];
+	tools: AgentFileTool[];
+	messages?: AgentFileMessage[]; // Only when exported with history
+}
+
+// Thrown for notes that aren't agent files or can't be read as one
+export class AgentFileError extends Error {}
+
+// The focus mode block belongs to the vault, not the agent, and is recreated on connect
+export const FOCUS_BLOCK_PATTERN = /^obsidian-.+-focused-note$/;
+
+// Login and heartbeat payloads are JSON the user never typed
+const SYSTEM_PAYLOAD_PATTERN = /^\s*\{[\s\S]*"type"\s*:\s*"(login|heartbeat|system_alert)"/;
+
+const JSON_FENCE_PATTERN = /^```json\n([\s\S]*?)\n```$/m;
+
+// The provider/model handle an agent runs on, in the form agent creation accepts
+export function modelHandle(agent: any): string | undefined {
+	const llm = agent.llm_config;
+	if (!llm) return undefined;
+	if (llm.handle) return llm.handle;
+	const provider = llm.provider_name || llm.model_endpoint_type;
+	return provider ? `${provider}/${llm.model}` : llm.model;
+}
+
+// User and assistant messages, oldest first
+async function fetchMessages(plugin: LettaPlugin, agentId: string): Promise<AgentFileMessage[]> {
+	const pages: any[][] = [];
+	for await (const page of messagePages(plugin, agentId)) {
+		pages.push(page);
+	}
+
+	const seen = new Set<string>();
+	const messages: AgentFileMessage[] = [];
+	pages.reverse().forEach((page) => {
+		page.forEach((message: any) => {
+			const type = messageType(message);
+			if (type !== "user_message" && type !== "assistant_message") return;
+
+			const key = `${message.id}:${type}`;
+			if (seen.has(key)) return;
+			seen.add(key);
+
+			const content = messageText(message);
+			if (!content.trim() || SYSTEM_PAYLOAD_PATTERN.test(content)) return;
+
+			messages.push({
+				role: type === "user_message" ? "user" : "assistant",
+				content,
+				...(message.date ? { date: message.date } : {}),
+			});
+		});
+	});
+	return messages;
+}
+
+/**
+ * Snapshot an agent's configuration, memory blocks and attached tools, and
+ * optionally its conversation, in a form that can recreate it later.
+ */
+export async function exportAgent(
+	plugin: LettaPlugin,
+	agentId: string,
+	includeMessages: boolean,
+): Promise<AgentFileData> {
+	const agent = await plugin.makeRequest(`/v1/agents/${agentId}`);
+	if (!agent?.id) throw new AgentFileError(`Agent ${agentId} not found`);
+
+	let blocks: any[] = agent.memory?.blocks;
+	if (!Array.isArray(blocks)) {
+		blocks = await plugin.makeRequest(`/v1/agents/${agentId}/core-memory/blocks`);
+	}
+
+	const data: AgentFileData = {
+		version: AGENT_FILE_VERSION,
+		exported_at: new Date().toISOString(),
+		agent: {
+			id: agent.id,
+			name: agent.name,
+			description: agent.description || undefined,
+			agent_type: agent.agent_type || undefined,
+			system: agent.system || undefined,
+			model: modelHandle(agent),
+			tags: Array.isArray(agent.tags) && agent.tags.length > 0 ? agent.tags : undefined,
+		},
+		memory_blocks: (Array.isArray(blocks) ? blocks : [])
+			.filter((block: any) => block?.label && !FOCUS_BLOCK_PATTERN.test(block.label))
+			.map((block: any) => ({
+				label: block.label,
+				value: block.value || "",
+				limit: block.limit ?? undefined,
+				description: block.description || undefined,
+				read_only: block.read_only || undefined,
+			})),
+		tools: (Array.isArray(agent.tools) ? agent.tools : [])
+			.filter((tool: any) => tool?.name)
+			.map((tool: any) => ({
+				name: tool.name,
+				tool_type: tool.tool_type || undefined,
+			}))
+			.sort((a: AgentFileTool, b: AgentFileTool) => a.name.localeCompare(b.name)),
+	};
+
+	if (includeMessages) {
+		data.messages = await fetchMessages(plugin, agentId);
+	}
+	return data;
+}
+
+/**
+ * Render an agent file as a note: a short readable summary, with the full
+ * data in a JSON block so that diffs between exports stay meaningful.
+ */
+export function serializeAgentFile(data: AgentFileData): string {
+	const summary = [
+		`- Model: ${data.agent.model || "server default"}`,
+		`- Memory blocks: ${data.memory_blocks.map((block) => block.label).join(", ") || "none"}`,
+		`- Tools: ${data.tools.map((tool) => tool.name).join(", ") || "none"}`,
+		...(data.messages ? [`- Messages: ${data.messages.length}`] : []),
+	];
+
+	return [
+		"---",
+		`${AGENT_FILE_KEY}: ${data.version}`,
+		`agent: ${JSON.stringify(data.agent.name)}`,
+		`exported: ${data.exported_at}`,
+		"---",
+		"",
+		`# ${data.agent.name}`,
+		"",
+		"Letta agent exported from Obsidian. Open this note and run **Create agent from agent file** to create a copy.",
+		"",
+		...summary,
+		"",
+		"```json",
+		JSON.stringify(data, null, 2),
+		"```",
+		"",
+	].join("\n");
+}
+
+export function parseAgentFile(text: string): AgentFileData {
+	// Files checked out on Windows may have CRLF line endings
+	const content = text.replace(/\r\n/g, "\n");
+	const frontmatter = content.match(/^---\n([\s\S]*?)\n---/);
+	if (!frontmatter || !new RegExp(`^${AGENT_FILE_KEY}:`, "m").test(frontmatter[1])) {
+		throw new AgentFileError("This note isn't a Letta agent file");
+	}
+
+	const fence = content.match(JSON_FENCE_PATTERN);
+	if (!fence) throw new AgentFileError("The agent file has no JSON block");
+
+	let data: any;
+	try {
+		data = JSON.parse(fence[1]);
+	} catch (error: any) {
+		throw new AgentFileError(`The agent file's JSON is invalid: ${error.message}`);
+	}
+
+	if (typeof data?.version !== "number" || data.version > AGENT_FILE_VERSION) {
+		throw new AgentFileError(
+			`Unsupported agent file version ${data?.version}; update the plugin to import it`,
+		);
+	}
+	if (typeof data.agent?.name !== "string" || !data.agent.name.trim()) {
+		throw new AgentFileError("The agent file has no agent name");
+	}
+	if (!Array.isArray(data.memory_blocks) || !Array.isArray(data.tools)) {
+		throw new AgentFileError("The agent file is missing its memory blocks or tools");
+	}
+
+	return data as AgentFileData;
+}
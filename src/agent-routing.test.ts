@@ -0,0 +1,93 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { App, TFile } from "obsidian";
+import { AgentRouter, parseRoutingRules } from "./agent-routing";
+
+function note(path: string): TFile {
+	const file = new TFile();
+	file.path = path;
+	return file;
+}
+
+// A router for `rules`, with metadata caches keyed by path
+function router(rules: string, caches: Record<string, object> = {}): AgentRouter {
+	const app = {
+		metadataCache: { getFileCache: (file: TFile) => caches[file.path] ?? null },
+	} as unknown as App;
+	return new AgentRouter(app, () => rules);
+}
+
+describe("parseRoutingRules", () => {
+	it("reads path and tag rules with the agent after the last arrow", () => {
+		const rules = parseRoutingRules("Projects/Research/ -> Research Assistant\n#Writing -> agent-123\n");
+
+		assert.deepEqual(
+			rules.map(({ source, kind, agent }) => ({ source, kind, agent })),
+			[
+				{ source: "Projects/Research/ -> Research Assistant", kind: "path", agent: "Research Assistant" },
+				{ source: "#Writing -> agent-123", kind: "tag", agent: "agent-123" },
+			],
+		);
+		assert.equal(rules[1].pattern, "writing");
+		assert.equal(parseRoutingRules("a->b -> Agent")[0].agent, "Agent");
+	});
+
+	it("skips comments, blank lines and incomplete rules", () => {
+		const rules = parseRoutingRules("# Routing\n\nProjects/\n-> Agent\nProjects/ ->\n# -> Agent\n");
+
+		assert.deepEqual(rules, []);
+	});
+});
+
+describe("AgentRouter", () => {
+	it("routes notes by folder, at any depth unless anchored", () => {
+		const routes = router("Research/ -> Researcher\n/Drafts/ -> Editor");
+
+		assert.equal(routes.match(note("Research/paper.md"))?.agent, "Researcher");
+		assert.equal(routes.match(note("Work/Research/paper.md"))?.agent, "Researcher");
+		assert.equal(routes.match(note("Drafts/post.md"))?.agent, "Editor");
+		assert.equal(routes.match(note("Old/Drafts/post.md")), null);
+	});
+
+	it("routes notes by tag, including nested tags", () => {
+		const routes = router("#writing -> Editor", {
+			"a.md": { tags: [{ tag: "#Writing/blog" }] },
+			"b.md": { tags: [{ tag: "#writings" }] },
+		});
+
+		assert.deepEqual(routes.match(note("a.md")), { agent: "Editor", reason: 'rule "#writing -> Editor"' });
+		assert.equal(routes.match(note("b.md")), null);
+	});
+
+	it("uses the first matching rule", () => {
+		const routes = router("#urgent -> Triage\nProjects/ -> Planner\nProjects/Research/ -> Researcher", {
+			"Projects/Research/a.md": { tags: [{ tag: "#urgent" }] },
+		});
+
+		assert.equal(routes.match(note("Projects/Research/a.md"))?.agent, "Triage");
+		assert.equal(routes.match(note("Projects/Research/b.md"))?.agent, "Planner");
+	});
+
+	it("lets letta-agent in frontmatter override every rule", () => {
+		const routes = router("Projects/ -> Planner", {
+			"Projects/a.md": { frontmatter: { "letta-agent": " Researcher " } },
+			"Projects/b.md": { frontmatter: { "letta-agent": "  " } },
+		});
+
+		assert.deepEqual(routes.match(note("Projects/a.md")), {
+			agent: "Researcher",
+			reason: "letta-agent in frontmatter",
+		});
+		assert.equal(routes.match(note("Projects/b.md"))?.agent, "Planner");
+	});
+
+	it("picks up edited rules", () => {
+		let rules = "Projects/ -> Planner";
+		const app = { metadataCache: { getFileCache: () => null } } as unknown as App;
+		const routes = new AgentRouter(app, () => rules);
+
+		assert.equal(routes.match(note("Projects/a.md"))?.agent, "Planner");
+		rules = "Projects/ -> Researcher";
+		assert.equal(routes.match(note("Projects/a.md"))?.agent, "Researcher");
+	});
+});
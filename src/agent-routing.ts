@@ -0,0 +1,105 @@
+import { App, TFile, getAllTags } from "obsidian";
+import { globToRegExp } from "./visibility";
+
+// Frontmatter property that names the agent for a single note
+export const AGENT_FRONTMATTER_KEY = "letta-agent";
+
+export interface AgentRoutingRule {
+	source: string; // The rule as written in settings
+	kind: "path" | "tag";
+	pattern: RegExp | string; // Path regex, or lower-cased tag without "#"
+	agent: string; // Agent ID or name
+}
+
+export interface AgentRouteMatch {
+	agent: string; // Agent ID or name, as written in the rule or frontmatter
+	reason: string; // Shown in the chat header
+}
+
+/**
+ * Parse the routing rules from settings, one rule per line in the form
+ * `<match> -> <agent>`:
+ * - `Projects/Research/ -> Research Assistant` - gitignore-style path globs
+ * - `#writing -> agent-1234...` - notes carrying the tag (or a nested tag below it)
+ * - `# comment` - a hash followed by a space is a comment
+ *
+ * The agent can be given by ID or by name.
+ */
+export function parseRoutingRules(text: string): AgentRoutingRule[] {
+	const rules: AgentRoutingRule[] = [];
+
+	text.split("\n").forEach((line) => {
+		const source = line.trim();
+		if (!source || source.startsWith("# ")) return;
+
+		const arrow = source.lastIndexOf("->");
+		if (arrow === -1) return;
+		const match = source.substring(0, arrow).trim();
+		const agent = source.substring(arrow + 2).trim();
+		if (!match || !agent) return;
+
+		if (match.startsWith("#")) {
+			const tag = match.substring(1).toLowerCase();
+			if (tag) {
+				rules.push({ source, kind: "tag", pattern: tag, agent });
+			}
+		} else {
+			rules.push({ source, kind: "path", pattern: globToRegExp(match), agent });
+		}
+	});
+
+	return rules;
+}
+
+/**
+ * Picks the agent for a note. A `letta-agent:` frontmatter value wins, then
+ * the first matching rule; notes that match nothing use the default agent.
+ */
+export class AgentRouter {
+	private app: App;
+	private getRuleText: () => string;
+	private cachedText: string | null = null;
+	private cachedRules: AgentRoutingRule[] = [];
+
+	constructor(app: App, getRuleText: () => string) {
+		this.app = app;
+		this.getRuleText = getRuleText;
+	}
+
+	private get rules(): AgentRoutingRule[] {
+		const text = this.getRuleText() || "";
+		if (text !== this.cachedText) {
+			this.cachedText = text;
+			this.cachedRules = parseRoutingRules(text);
+		}
+		return this.cachedRules;
+	}
+
+	match(file: TFile): AgentRouteMatch | null {
+		const cache = this.app.metadataCache.getFileCache(file);
+
+		const fromFrontmatter = cache?.frontmatter?.[AGENT_FRONTMATTER_KEY];
+		if (typeof fromFrontmatter === "string" && fromFrontmatter.trim()) {
+			return {
+				agent: fromFrontmatter.trim(),
+				reason: `${AGENT_FRONTMATTER_KEY} in frontmatter`,
+			};
+		}
+
+		const tags = cache
+			? (getAllTags(cache) || []).map((tag) =>
+					tag.replace(/^#/, "").toLowerCase(),
+				)
+			: [];
+
+		const rule = this.rules.find((rule) => {
+			if (rule.kind === "tag") {
+				const tag = rule.pattern as string;
+				return tags.some((t) => t === tag || t.startsWith(`${tag}/`));
+			}
+			return (rule.pattern as RegExp).test(file.path);
+		});
+
+		return rule ? { agent: rule.agent, reason: `rule "${rule.source}"` } : null;
+	}
+}
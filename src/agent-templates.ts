@@ -0,0 +1,181 @@
+import { App, TFile, TFolder, normalizePath } from "obsidian";
+
+export interface AgentTemplateBlock {
+	label: string;
+	value: string;
+	limit?: number;
+	description?: string;
+}
+
+export interface AgentTemplate {
+	name: string; // Note basename, shown in the picker
+	agent_name?: string; // Name suggested for agents created from the template
+	description?: string;
+	agent_type?: string;
+	model?: string;
+	system?: string;
+	tags?: string[];
+	tools?: string[];
+	memory_blocks: AgentTemplateBlock[];
+}
+
+const SYSTEM_HEADING = "System";
+const BLOCK_HEADING_PATTERN = /^Block:\s*(.+)$/i;
+
+function stringList(value: unknown): string[] | undefined {
+	if (Array.isArray(value)) {
+		const items = value.map((item) => String(item).trim()).filter(Boolean);
+		return items.length > 0 ? items : undefined;
+	}
+	if (typeof value === "string" && value.trim()) {
+		return value.split(",").map((item) => item.trim()).filter(Boolean);
+	}
+	return undefined;
+}
+
+function optionalString(value: unknown): string | undefined {
+	return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Read a template note. Settings live in the frontmatter; the body holds a
+ * `## System` section with the system prompt and one `## Block: <label>`
+ * section per memory block. A block section may start with `> Description:`
+ * and `> Limit:` lines. Text before the first of these sections is ignored,
+ * so it can describe the template.
+ */
+export function parseAgentTemplate(
+	name: string,
+	content: string,
+	frontmatter: Record<string, any> = {},
+): AgentTemplate {
+	const body = content.replace(/\r\n/g, "\n").replace(/^---\n[\s\S]*?\n---\n?/, "");
+	const template: AgentTemplate = {
+		name,
+		agent_name: optionalString(frontmatter.agent_name),
+		description: optionalString(frontmatter.description),
+		agent_type: optionalString(frontmatter.agent_type),
+		model: optionalString(frontmatter.model),
+		tags: stringList(frontmatter.tags),
+		tools: stringList(frontmatter.tools),
+		memory_blocks: [],
+	};
+
+	// Only the System and Block headings start a section, so block values may contain headings
+	const sections: Array<{ heading: string; lines: string[] }> = [];
+	body.split("\n").forEach((line) => {
+		const heading = line.match(/^## (.+)$/)?.[1].trim();
+		if (
+			heading &&
+			(heading.toLowerCase() === SYSTEM_HEADING.toLowerCase() || BLOCK_HEADING_PATTERN.test(heading))
+		) {
+			sections.push({ heading, lines: [] });
+		} else if (sections.length > 0) {
+			sections[sections.length - 1].lines.push(line);
+		}
+	});
+
+	sections.forEach(({ heading, lines }) => {
+		const blockHeading = heading.match(BLOCK_HEADING_PATTERN);
+		if (!blockHeading) {
+			template.system = lines.join("\n").trim() || undefined;
+			return;
+		}
+
+		const block: AgentTemplateBlock = { label: blockHeading[1].trim(), value: "" };
+		while (lines.length > 0 && !lines[0].trim()) lines.shift();
+		let meta: RegExpMatchArray | null;
+		while (lines.length > 0 && (meta = lines[0].match(/^>\s*(Description|Limit):\s*(.*)$/i))) {
+			lines.shift();
+			if (meta[1].toLowerCase() === "limit") {
+				const limit = parseInt(meta[2], 10);
+				if (!isNaN(limit) && limit > 0) block.limit = limit;
+			} else if (meta[2].trim()) {
+				block.description = meta[2].trim();
+			}
+		}
+		block.value = lines.join("\n").trim();
+		template.memory_blocks.push(block);
+	});
+
+	return template;
+}
+
+function yamlString(value: string): string {
+	return JSON.stringify(value);
+}
+
+function yamlList(values: string[]): string {
+	return `[${values.map(yamlString).join(", ")}]`;
+}
+
+export function serializeAgentTemplate(template: AgentTemplate): string {
+	const frontmatter = [
+		...(template.agent_name ? [`agent_name: ${yamlString(template.agent_name)}`] : []),
+		...(template.description ? [`description: ${yamlString(template.description)}`] : []),
+		...(template.agent_type ? [`agent_type: ${template.agent_type}`] : []),
+		...(template.model ? [`model: ${yamlString(template.model)}`] : []),
+		...(template.tags?.length ? [`tags: ${yamlList(template.tags)}`] : []),
+		...(template.tools?.length ? [`tools: ${yamlList(template.tools)}`] : []),
+	];
+
+	const sections = [`## ${SYSTEM_HEADING}`, "", template.system || "", ""];
+	template.memory_blocks.forEach((block) => {
+		sections.push(`## Block: ${block.label}`, "");
+		if (block.description) sections.push(`> Description: ${block.description}`);
+		if (block.limit) sections.push(`> Limit: ${block.limit}`);
+		if (block.description || block.limit) sections.push("");
+		sections.push(block.value, "");
+	});
+
+	return [
+		...(frontmatter.length > 0 ? ["---", ...frontmatter, "---", ""] : []),
+		...sections,
+	].join("\n");
+}
+
+// Every Markdown note in the folder and its subfolders, sorted by name
+export async function listAgentTemplates(app: App, folder: string): Promise<AgentTemplate[]> {
+	const root = app.vault.getAbstractFileByPath(normalizePath(folder));
+	if (!(root instanceof TFolder)) return [];
+
+	const files: TFile[] = [];
+	const collect = (current: TFolder) => {
+		current.children.forEach((child) => {
+			if (child instanceof TFolder) collect(child);
+			else if (child instanceof TFile && child.extension === "md") files.push(child);
+		});
+	};
+	collect(root);
+
+	const templates = await Promise.all(
+		files.map(async (file) =>
+			parseAgentTemplate(
+				file.basename,
+				await app.vault.cachedRead(file),
+				app.metadataCache.getFileCache(file)?.frontmatter || {},
+			),
+		),
+	);
+	return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Write a template note, numbering the name instead of overwriting an existing template
+export async function saveAgentTemplate(
+	app: App,
+	folder: string,
+	template: AgentTemplate,
+): Promise<TFile> {
+	const folderPath = normalizePath(folder);
+	if (!app.vault.getAbstractFileByPath(folderPath)) {
+		await app.vault.createFolder(folderPath);
+	}
+
+	const baseName = template.name.replace(/[\\/:*?"<>|]/g, "_");
+	let path = normalizePath(`${folderPath}/${baseName}.md`);
+	for (let i = 2; app.vault.getAbstractFileByPath(path); i++) {
+		path = normalizePath(`${folderPath}/${baseName} ${i}.md`);
+	}
+
+	return app.vault.create(path, serializeAgentTemplate(template));
+}
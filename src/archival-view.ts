@@ -0,0 +1,346 @@
+import { ItemView, Notice, WorkspaceLeaf } from "obsidian";
+import type LettaPlugin from "../main";
+
+export const LETTA_ARCHIVAL_VIEW_TYPE = "letta-archival-view";
+
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 400;
+// Passages longer than this are collapsed until clicked
+const PREVIEW_LENGTH = 300;
+
+export interface ArchivalPassage {
+	id: string;
+	text: string;
+	created_at?: string;
+	tags?: string[];
+}
+
+export async function listPassages(
+	plugin: LettaPlugin,
+	agentId: string,
+	options: { search?: string; after?: string | null },
+): Promise<ArchivalPassage[]> {
+	const params = new URLSearchParams({
+		limit: String(PAGE_SIZE),
+		ascending: "false",
+	});
+	if (options.search) params.set("search", options.search);
+	if (options.after) params.set("after", options.after);
+
+	const passages = await plugin.makeRequest(
+		`/v1/agents/${agentId}/archival-memory?${params.toString()}`,
+	);
+	return Array.isArray(passages) ? passages.filter((passage: any) => passage?.id) : [];
+}
+
+export async function insertPassage(
+	plugin: LettaPlugin,
+	agentId: string,
+	text: string,
+	tags: string[] = [],
+): Promise<void> {
+	await plugin.makeRequest(`/v1/agents/${agentId}/archival-memory`, {
+		method: "POST",
+		body: { text, ...(tags.length > 0 ? { tags } : {}) },
+	});
+}
+
+// Lists the current agent's archival passages, newest first, with search, paging and editing
+export class ArchivalMemoryView extends ItemView {
+	plugin: LettaPlugin;
+	private agentId: string | null = null;
+	private passages: ArchivalPassage[] = [];
+	private search = "";
+	private pageCursors: Array<string | null> = [null]; // Cursor for each page visited so far
+	private hasNextPage = false;
+	private searchTimer: ReturnType<typeof setTimeout> | null = null;
+	private titleEl: HTMLElement;
+	private composerEl: HTMLElement;
+	private listEl: HTMLElement;
+	private pagerEl: HTMLElement;
+
+	constructor(leaf: WorkspaceLeaf, plugin: LettaPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType() {
+		return LETTA_ARCHIVAL_VIEW_TYPE;
+	}
+
+	getDisplayText() {
+		return "Archival Memory";
+	}
+
+	getIcon() {
+		return "archive";
+	}
+
+	async onOpen() {
+		const container = this.containerEl.children[1];
+		container.empty();
+		container.addClass("letta-archival-view");
+
+		const header = container.createEl("div", { cls: "letta-archival-header" });
+		this.titleEl = header.createEl("h3", { text: "Archival Memory" });
+
+		const actions = header.createEl("div", { cls: "letta-archival-actions" });
+		const newButton = actions.createEl("button", { text: "New" });
+		newButton.addEventListener("click", () => this.toggleComposer());
+		const refreshButton = actions.createEl("button", { text: "Refresh" });
+		refreshButton.addEventListener("click", () => this.refresh());
+
+		const searchInput = container.createEl("input", {
+			cls: "letta-archival-search",
+			attr: { type: "search", placeholder: "Search passages..." },
+		});
+		searchInput.addEventListener("input", () => {
+			if (this.searchTimer) clearTimeout(this.searchTimer);
+			this.searchTimer = setTimeout(() => {
+				this.searchTimer = null;
+				this.search = searchInput.value.trim();
+				this.refresh();
+			}, SEARCH_DEBOUNCE_MS);
+		});
+
+		this.composerEl = container.createEl("div", { cls: "letta-archival-composer" });
+		this.composerEl.hide();
+		this.listEl = container.createEl("div", { cls: "letta-archival-list" });
+		this.pagerEl = container.createEl("div", { cls: "letta-archival-pager" });
+
+		await this.refresh();
+	}
+
+	async onClose() {
+		if (this.searchTimer) {
+			clearTimeout(this.searchTimer);
+			this.searchTimer = null;
+		}
+	}
+
+	// Back to the first page, e.g. after a search or when the agent changed
+	async refresh(): Promise<void> {
+		this.pageCursors = [null];
+		await this.loadPage();
+	}
+
+	private async loadPage(): Promise<void> {
+		if (!this.plugin.agent) {
+			new Notice("Connecting to Letta...");
+			const connected = await this.plugin.connectToLetta();
+			if (!connected || !this.plugin.agent) {
+				this.showMessage("Connect to Letta to browse archival memory.");
+				return;
+			}
+		}
+
+		this.agentId = this.plugin.agent.id;
+		this.titleEl.setText(`Archival Memory: ${this.plugin.agent.name}`);
+		this.listEl.empty();
+		this.listEl.createEl("div", { cls: "letta-archival-empty", text: "Loading..." });
+
+		try {
+			const cursor = this.pageCursors[this.pageCursors.length - 1];
+			this.passages = await listPassages(this.plugin, this.agentId, {
+				search: this.search,
+				after: cursor,
+			});
+			// A full page means there may be older passages
+			this.hasNextPage = this.passages.length === PAGE_SIZE;
+			this.render();
+		} catch (error) {
+			console.error("[Letta Plugin] Failed to load archival memory:", error);
+			this.showMessage(`Failed to load archival memory: ${error.message}`);
+		}
+	}
+
+	private showMessage(message: string) {
+		this.listEl.empty();
+		this.pagerEl.empty();
+		this.listEl.createEl("div", { cls: "letta-archival-empty", text: message });
+	}
+
+	private render() {
+		this.listEl.empty();
+		if (this.passages.length === 0) {
+			this.listEl.createEl("div", {
+				cls: "letta-archival-empty",
+				text: this.search
+					? `No passages match "${this.search}".`
+					: "This agent has no archival memory yet.",
+			});
+		}
+		this.passages.forEach((passage) => this.renderPassage(passage));
+		this.renderPager();
+	}
+
+	private renderPager() {
+		this.pagerEl.empty();
+		if (this.pageCursors.length === 1 && !this.hasNextPage) return;
+
+		const newerButton = this.pagerEl.createEl("button", { text: "← Newer" });
+		newerButton.disabled = this.pageCursors.length === 1;
+		newerButton.addEventListener("click", async () => {
+			this.pageCursors.pop();
+			await this.loadPage();
+		});
+
+		this.pagerEl.createEl("span", {
+			cls: "letta-archival-page",
+			text: `Page ${this.pageCursors.length}`,
+		});
+
+		const olderButton = this.pagerEl.createEl("button", { text: "Older →" });
+		olderButton.disabled = !this.hasNextPage;
+		olderButton.addEventListener("click", async () => {
+			const last = this.passages[this.passages.length - 1];
+			if (!last) return;
+			this.pageCursors.push(last.id);
+			await this.loadPage();
+		});
+	}
+
+	private renderPassage(passage: ArchivalPassage) {
+		const itemEl = this.listEl.createEl("div", { cls: "letta-archival-item" });
+
+		const metaEl = itemEl.createEl("div", { cls: "letta-archival-meta" });
+		metaEl.createEl("span", {
+			text: passage.created_at ? new Date(passage.created_at).toLocaleString() : passage.id,
+		});
+		(passage.tags || []).forEach((tag) => {
+			metaEl.createEl("span", { cls: "letta-archival-tag", text: tag });
+		});
+
+		const textEl = itemEl.createEl("div", { cls: "letta-archival-text" });
+		const collapsible = passage.text.length > PREVIEW_LENGTH;
+		let expanded = !collapsible;
+		const renderText = () => {
+			textEl.setText(expanded ? passage.text : `${passage.text.substring(0, PREVIEW_LENGTH)}…`);
+		};
+		renderText();
+		if (collapsible) {
+			textEl.addClass("is-collapsible");
+			textEl.addEventListener("click", () => {
+				expanded = !expanded;
+				renderText();
+			});
+		}
+
+		const actionsEl = itemEl.createEl("div", { cls: "letta-archival-item-actions" });
+		const editButton = actionsEl.createEl("button", { text: "Edit" });
+		editButton.addEventListener("click", () => this.renderEditor(itemEl, passage));
+
+		// A second click confirms, so a stray click can't delete a passage
+		const deleteButton = actionsEl.createEl("button", { text: "Delete" });
+		deleteButton.addEventListener("click", async () => {
+			if (!deleteButton.hasClass("mod-warning")) {
+				deleteButton.addClass("mod-warning");
+				deleteButton.setText("Confirm delete");
+				return;
+			}
+			deleteButton.disabled = true;
+			await this.deletePassage(passage);
+		});
+	}
+
+	private renderEditor(itemEl: HTMLElement, passage: ArchivalPassage) {
+		itemEl.empty();
+		const textarea = itemEl.createEl("textarea", { cls: "letta-archival-editor" });
+		textarea.value = passage.text;
+
+		const actionsEl = itemEl.createEl("div", { cls: "letta-archival-item-actions" });
+		const saveButton = actionsEl.createEl("button", { text: "Save", cls: "mod-cta" });
+		const cancelButton = actionsEl.createEl("button", { text: "Cancel" });
+		cancelButton.addEventListener("click", () => this.render());
+		saveButton.addEventListener("click", async () => {
+			const text = textarea.value.trim();
+			if (!text || text === passage.text) {
+				this.render();
+				return;
+			}
+			saveButton.disabled = true;
+			await this.updatePassage(passage, text);
+		});
+		textarea.focus();
+	}
+
+	private toggleComposer() {
+		if (this.composerEl.isShown()) {
+			this.composerEl.hide();
+			return;
+		}
+
+		this.composerEl.empty();
+		const textarea = this.composerEl.createEl("textarea", {
+			cls: "letta-archival-editor",
+			attr: { placeholder: "Text for the agent to remember..." },
+		});
+		const tagsInput = this.composerEl.createEl("input", {
+			cls: "letta-archival-tags-input",
+			attr: { type: "text", placeholder: "Tags, comma separated (optional)" },
+		});
+
+		const actionsEl = this.composerEl.createEl("div", { cls: "letta-archival-item-actions" });
+		const addButton = actionsEl.createEl("button", { text: "Add", cls: "mod-cta" });
+		const cancelButton = actionsEl.createEl("button", { text: "Cancel" });
+		cancelButton.addEventListener("click", () => this.composerEl.hide());
+		addButton.addEventListener("click", async () => {
+			const text = textarea.value.trim();
+			if (!text || !this.agentId) return;
+			const tags = tagsInput.value
+				.split(",")
+				.map((tag) => tag.trim())
+				.filter(Boolean);
+
+			addButton.disabled = true;
+			try {
+				await insertPassage(this.plugin, this.agentId, text, tags);
+				this.composerEl.hide();
+				new Notice("Added to archival memory");
+				await this.refresh();
+			} catch (error) {
+				addButton.disabled = false;
+				console.error("[Letta Plugin] Failed to add archival passage:", error);
+				new Notice(`Failed to add passage: ${error.message}`);
+			}
+		});
+
+		this.composerEl.show();
+		textarea.focus();
+	}
+
+	private async updatePassage(passage: ArchivalPassage, text: string): Promise<void> {
+		if (!this.agentId) return;
+		try {
+			await this.plugin.makeRequest(
+				`/v1/agents/${this.agentId}/archival-memory/${passage.id}`,
+				{
+					method: "PATCH",
+					body: { id: passage.id, text },
+				},
+			);
+			passage.text = text;
+			new Notice("Passage updated");
+		} catch (error) {
+			console.error("[Letta Plugin] Failed to update archival passage:", error);
+			new Notice(`Failed to update passage: ${error.message}`);
+		}
+		this.render();
+	}
+
+	private async deletePassage(passage: ArchivalPassage): Promise<void> {
+		if (!this.agentId) return;
+		try {
+			await this.plugin.makeRequest(
+				`/v1/agents/${this.agentId}/archival-memory/${passage.id}`,
+				{ method: "DELETE" },
+			);
+			this.passages = this.passages.filter((other) => other.id !== passage.id);
+			new Notice("Passage deleted");
+		} catch (error) {
+			console.error("[Letta Plugin] Failed to delete archival passage:", error);
+			new Notice(`Failed to delete passage: ${error.message}`);
+		}
+		this.render();
+	}
+}
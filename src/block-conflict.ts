@@ -0,0 +1,111 @@
+import { App, Modal } from "obsidian";
+
+export type BlockConflictResolution = "keep-server" | "overwrite" | "cancel";
+
+// Shown when a memory block changed on the server while it was being edited locally
+export function showBlockConflictDialog(
+	app: App,
+	blockLabel: string,
+	originalValue: string,
+	serverValue: string,
+	localValue: string,
+): Promise<BlockConflictResolution> {
+	return new Promise((resolve) => {
+		const modal = new Modal(app);
+		modal.setTitle("Memory Block Conflict");
+
+		const { contentEl } = modal;
+
+		// Warning message
+		const warningEl = contentEl.createEl("div", {
+			cls: "conflict-warning",
+		});
+		warningEl.createEl("p", {
+			text: `The memory block "${blockLabel}" has been changed on the server since you started editing.`,
+			cls: "conflict-message",
+		});
+
+		// Create tabs/sections for different versions
+		const versionsContainer = contentEl.createEl("div", {
+			cls: "conflict-versions",
+		});
+
+		// Server version section
+		const serverSection = versionsContainer.createEl("div", {
+			cls: "conflict-section",
+		});
+		serverSection.createEl("h4", {
+			text: "🌐 Server Version (Current)",
+			cls: "conflict-section-title",
+		});
+		const serverTextarea = serverSection.createEl("textarea", {
+			cls: "conflict-textarea",
+			attr: { readonly: "true", rows: "6" },
+		});
+		serverTextarea.value = serverValue;
+
+		// Your version section
+		const localSection = versionsContainer.createEl("div", {
+			cls: "conflict-section",
+		});
+		localSection.createEl("h4", {
+			text: "✏️ Your Changes",
+			cls: "conflict-section-title",
+		});
+		const localTextarea = localSection.createEl("textarea", {
+			cls: "conflict-textarea",
+			attr: { readonly: "true", rows: "6" },
+		});
+		localTextarea.value = localValue;
+
+		// Character counts
+		contentEl.createEl("p", {
+			text: `Server version: ${serverValue.length} characters`,
+			cls: "conflict-char-count",
+		});
+		contentEl.createEl("p", {
+			text: `Your version: ${localValue.length} characters`,
+			cls: "conflict-char-count",
+		});
+
+		// Action buttons
+		const buttonContainer = contentEl.createEl("div", {
+			cls: "conflict-buttons",
+		});
+
+		const keepServerButton = buttonContainer.createEl("button", {
+			text: "Keep Server Version",
+			cls: "conflict-btn conflict-btn-server",
+		});
+
+		const overwriteButton = buttonContainer.createEl("button", {
+			text: "Overwrite with My Changes",
+			cls: "conflict-btn conflict-btn-overwrite",
+		});
+
+		const cancelButton = buttonContainer.createEl("button", {
+			text: "Cancel",
+			cls: "conflict-btn conflict-btn-cancel",
+		});
+
+		// Event handlers
+		keepServerButton.addEventListener("click", () => {
+			resolve("keep-server");
+			modal.close();
+		});
+
+		overwriteButton.addEventListener("click", () => {
+			resolve("overwrite");
+			modal.close();
+		});
+
+		cancelButton.addEventListener("click", () => {
+			resolve("cancel");
+			modal.close();
+		});
+
+		// Closing the dialog any other way leaves the block as it is
+		modal.onClose = () => resolve("cancel");
+		modal.open();
+	});
+}
@@ -0,0 +1,148 @@
+import { App, EventRef, Modal, Notice } from "obsidian";
+import type LettaPlugin from "../main";
+import type { BlockRevision } from "./block-history";
+import { renderSideBySideDiff } from "./diff-render";
+
+// Timeline of one block's recorded values, with a diff against the previous revision and restore
+export class BlockHistoryModal extends Modal {
+	private plugin: LettaPlugin;
+	private agentId: string;
+	private label: string;
+	private onRestore: (() => void) | null;
+	private selectedId: string | null = null;
+	private historyRef: EventRef | null = null;
+
+	constructor(
+		app: App,
+		plugin: LettaPlugin,
+		agentId: string,
+		label: string,
+		onRestore?: () => void,
+	) {
+		super(app);
+		this.plugin = plugin;
+		this.agentId = agentId;
+		this.label = label;
+		this.onRestore = onRestore || null;
+	}
+
+	onOpen() {
+		this.modalEl.addClass("letta-block-history-modal");
+		this.setTitle(`History: ${this.label}`);
+		this.historyRef = this.plugin.blockHistory.on(
+			"changed",
+			(agentId: string, label: string) => {
+				if (agentId === this.agentId && label === this.label) this.render();
+			},
+		);
+		this.render();
+	}
+
+	onClose() {
+		if (this.historyRef) {
+			this.plugin.blockHistory.offref(this.historyRef);
+			this.historyRef = null;
+		}
+		this.contentEl.empty();
+	}
+
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const revisions = this.plugin.blockHistory.list(this.agentId, this.label);
+		if (revisions.length === 0) {
+			contentEl.createEl("div", {
+				cls: "letta-block-history-empty",
+				text: "No revisions recorded yet. Revisions are recorded when the memory view loads and when the agent uses its memory tools.",
+			});
+			return;
+		}
+
+		const selected = revisions.find((revision) => revision.id === this.selectedId) || revisions[0];
+		const layout = contentEl.createEl("div", { cls: "letta-block-history" });
+
+		const timeline = layout.createEl("div", { cls: "letta-block-history-timeline" });
+		revisions.forEach((revision, index) => {
+			const previous = revisions[index + 1];
+			const item = timeline.createEl("div", {
+				cls: `letta-block-history-item${revision === selected ? " is-selected" : ""}`,
+			});
+			item.createEl("div", {
+				cls: "letta-block-history-time",
+				text: new Date(revision.timestamp).toLocaleString(),
+			});
+			item.createEl("div", {
+				cls: "letta-block-history-meta",
+				text: [
+					index === 0 ? "Current" : null,
+					revision.source,
+					previous ? this.sizeChange(previous, revision) : "first recorded",
+				]
+					.filter(Boolean)
+					.join(" · "),
+			});
+			item.addEventListener("click", () => {
+				this.selectedId = revision.id;
+				this.render();
+			});
+		});
+
+		const detail = layout.createEl("div", { cls: "letta-block-history-detail" });
+		const previous = revisions[revisions.indexOf(selected) + 1];
+		if (previous?.value) {
+			renderSideBySideDiff(detail, {
+				path: `Changes from ${new Date(previous.timestamp).toLocaleString()}`,
+				before: previous.value,
+				after: selected.value,
+			});
+		} else {
+			detail.createEl("div", {
+				cls: "letta-diff-path",
+				text: previous ? "Block was empty before this revision" : "First recorded value",
+			});
+			detail.createEl("pre", {
+				cls: "letta-block-history-value",
+				text: selected.value || "(empty)",
+			});
+		}
+
+		if (selected !== revisions[0]) {
+			const actions = detail.createEl("div", { cls: "letta-block-history-actions" });
+			const restoreButton = actions.createEl("button", {
+				text: "Restore this version",
+				cls: "mod-cta",
+			});
+			restoreButton.addEventListener("click", async () => {
+				restoreButton.disabled = true;
+				await this.restore(selected);
+				restoreButton.disabled = false;
+			});
+		}
+	}
+
+	private sizeChange(previous: BlockRevision, revision: BlockRevision): string {
+		const delta = revision.value.length - previous.value.length;
+		return `${delta >= 0 ? "+" : ""}${delta} chars`;
+	}
+
+	private async restore(revision: BlockRevision): Promise<void> {
+		if (!this.plugin.client) {
+			new Notice("Connect to Letta to restore a memory block");
+			return;
+		}
+
+		try {
+			await this.plugin.client.agents.blocks.modify(this.agentId, this.label, {
+				value: revision.value,
+			});
+			this.selectedId = null;
+			await this.plugin.blockHistory.record(this.agentId, this.label, revision.value, "restore");
+			new Notice(`Restored "${this.label}" to the version from ${new Date(revision.timestamp).toLocaleString()}`);
+			this.onRestore?.();
+		} catch (error) {
+			console.error(`[Letta Plugin] Failed to restore memory block "${this.label}":`, error);
+			new Notice(`Failed to restore "${this.label}": ${error.message}`);
+		}
+	}
+}
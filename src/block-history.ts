@@ -0,0 +1,132 @@
+import { Events, normalizePath } from "obsidian";
+import type LettaPlugin from "../main";
+import { FOCUS_BLOCK_PATTERN } from "./agent-file";
+
+const HISTORY_FILE = "block-history.json";
+const MAX_REVISIONS_PER_BLOCK = 50;
+
+// Tools whose return means the agent may have rewritten one of its blocks
+export const MEMORY_TOOL_PATTERN = /^(core_memory_|memory_)/;
+
+export interface BlockRevision {
+	id: string;
+	agentId: string;
+	label: string;
+	value: string;
+	timestamp: number;
+	source: string; // How the change was observed, e.g. "memory_replace" or "refresh"
+}
+
+/**
+ * Local history of memory block values. A revision is recorded whenever the
+ * plugin sees a block hold a value different from the last one it recorded,
+ * so the first observation of a block is its baseline and edits made while
+ * the plugin wasn't looking show up as a single step.
+ *
+ * Kept next to the plugin's data.json like the change journal. Fires
+ * "changed" with the agent ID and label whenever a revision is added.
+ */
+export class BlockHistory extends Events {
+	private plugin: LettaPlugin;
+	private revisionsByBlock: Map<string, BlockRevision[]> = new Map(); // Oldest first
+
+	constructor(plugin: LettaPlugin) {
+		super();
+		this.plugin = plugin;
+	}
+
+	private get historyPath(): string {
+		return normalizePath(`${this.plugin.manifest.dir}/${HISTORY_FILE}`);
+	}
+
+	private key(agentId: string, label: string): string {
+		return `${agentId}/${label}`;
+	}
+
+	async load(): Promise<void> {
+		const adapter = this.plugin.app.vault.adapter;
+		try {
+			if (await adapter.exists(this.historyPath)) {
+				const data = JSON.parse(await adapter.read(this.historyPath));
+				(Array.isArray(data?.revisions) ? data.revisions : []).forEach(
+					(revision: BlockRevision) => {
+						const key = this.key(revision.agentId, revision.label);
+						const revisions = this.revisionsByBlock.get(key) || [];
+						revisions.push(revision);
+						this.revisionsByBlock.set(key, revisions);
+					},
+				);
+			}
+		} catch (error) {
+			console.error("[Letta Plugin] Failed to load memory block history:", error);
+			this.revisionsByBlock.clear();
+		}
+	}
+
+	private async save(): Promise<void> {
+		const revisions: BlockRevision[] = [];
+		this.revisionsByBlock.forEach((blockRevisions) => revisions.push(...blockRevisions));
+		try {
+			await this.plugin.app.vault.adapter.write(
+				this.historyPath,
+				JSON.stringify({ revisions }),
+			);
+		} catch (error) {
+			console.error("[Letta Plugin] Failed to save memory block history:", error);
+		}
+	}
+
+	private add(agentId: string, label: string, value: string, source: string): boolean {
+		// The focus block changes with every note opened, so its history is noise
+		if (FOCUS_BLOCK_PATTERN.test(label)) return false;
+
+		const key = this.key(agentId, label);
+		const revisions = this.revisionsByBlock.get(key) || [];
+		if (revisions.length > 0 && revisions[revisions.length - 1].value === value) {
+			return false;
+		}
+
+		revisions.push({
+			id: `revision-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+			agentId,
+			label,
+			value,
+			timestamp: Date.now(),
+			source,
+		});
+		if (revisions.length > MAX_REVISIONS_PER_BLOCK) {
+			revisions.splice(0, revisions.length - MAX_REVISIONS_PER_BLOCK);
+		}
+		this.revisionsByBlock.set(key, revisions);
+		this.trigger("changed", agentId, label);
+		return true;
+	}
+
+	// Returns whether the value was new for the block
+	async record(agentId: string, label: string, value: string, source: string): Promise<boolean> {
+		const added = this.add(agentId, label, value, source);
+		if (added) await this.save();
+		return added;
+	}
+
+	// Record every block from a core-memory listing, saving once
+	async recordBlocks(agentId: string, blocks: any[], source: string): Promise<string[]> {
+		const changed = blocks
+			.filter((block) => block?.label)
+			.filter((block) => this.add(agentId, block.label, block.value || "", source))
+			.map((block) => block.label);
+		if (changed.length > 0) await this.save();
+		return changed;
+	}
+
+	// Newest first
+	list(agentId: string, label: string): BlockRevision[] {
+		return (this.revisionsByBlock.get(this.key(agentId, label)) || []).slice().reverse();
+	}
+
+	async clear(agentId: string, label: string): Promise<void> {
+		this.revisionsByBlock.delete(this.key(agentId, label));
+		await this.save();
+		this.trigger("changed", agentId, label);
+	}
+}
@@ -0,0 +1,337 @@
+import { Notice, TAbstractFile, TFile, TFolder, normalizePath } from "obsidian";
+import type LettaPlugin from "../main";
+import { FOCUS_BLOCK_PATTERN } from "./agent-file";
+import { showBlockConflictDialog } from "./block-conflict";
+
+// Vault folder holding one subfolder of block notes per agent
+export const BLOCK_FOLDER = "Letta Memory Blocks";
+const STATE_FILE = "block-mirror.json";
+const PUSH_DEBOUNCE_MS = 2000;
+export const BLOCK_PULL_INTERVAL_MS = 60 * 1000;
+
+interface MirroredBlock {
+	blockId: string;
+	agentId: string;
+	label: string;
+	path: string; // Vault path of the note
+	value: string; // Value at the last sync, the base for detecting edits on either side
+	limit: number | null;
+	description: string | null;
+}
+
+interface BlockNote {
+	value: string;
+	limit: number | null;
+	description: string | null;
+}
+
+function safeName(name: string): string {
+	return name.replace(/[\\/:*?"<>|#^[\]]/g, "_").trim() || "untitled";
+}
+
+/**
+ * Mirrors the current agent's memory blocks to Markdown notes so they can be
+ * edited with the normal editor. The block value is the note body; label,
+ * limit, description and block ID live in the frontmatter.
+ *
+ * Each note remembers the value it was last synced at. Edits to the note are
+ * pushed when the server still holds that value and server changes are
+ * pulled when the note does; when both sides changed the user picks one in
+ * the same conflict dialog the memory view uses.
+ */
+export class BlockMirror {
+	private plugin: LettaPlugin;
+	private entries: Map<string, MirroredBlock> = new Map(); // Keyed by block ID
+	private pushTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+	private postponed: Set<string> = new Set(); // Block IDs whose conflict the user cancelled
+	private isPulling = false;
+
+	constructor(plugin: LettaPlugin) {
+		this.plugin = plugin;
+	}
+
+	private get statePath(): string {
+		return normalizePath(`${this.plugin.manifest.dir}/${STATE_FILE}`);
+	}
+
+	get enabled(): boolean {
+		return !!this.plugin.settings.mirrorMemoryBlocks;
+	}
+
+	async load(): Promise<void> {
+		const adapter = this.plugin.app.vault.adapter;
+		try {
+			if (await adapter.exists(this.statePath)) {
+				const data = JSON.parse(await adapter.read(this.statePath));
+				(Array.isArray(data?.blocks) ? data.blocks : []).forEach((entry: MirroredBlock) => {
+					this.entries.set(entry.blockId, entry);
+				});
+			}
+		} catch (error) {
+			console.error("[Letta Plugin] Failed to load memory block notes:", error);
+			this.entries.clear();
+		}
+	}
+
+	private async save(): Promise<void> {
+		try {
+			await this.plugin.app.vault.adapter.write(
+				this.statePath,
+				JSON.stringify({ blocks: Array.from(this.entries.values()) }),
+			);
+		} catch (error) {
+			console.error("[Letta Plugin] Failed to save memory block notes:", error);
+		}
+	}
+
+	folderFor(agent: { name: string }): string {
+		return normalizePath(`${BLOCK_FOLDER}/${safeName(agent.name)}`);
+	}
+
+	private entryForPath(path: string): MirroredBlock | undefined {
+		return Array.from(this.entries.values()).find((entry) => entry.path === path);
+	}
+
+	cancelPendingChanges(): void {
+		this.pushTimers.forEach((timer) => clearTimeout(timer));
+		this.pushTimers.clear();
+	}
+
+	// Called from metadataCache "changed" so the frontmatter has been parsed when the push runs
+	onFileChange(file: TFile): void {
+		if (!this.enabled) return;
+		const entry = this.entryForPath(file.path);
+		if (!entry) return;
+
+		// Editing the note again reopens a conflict the user cancelled
+		this.postponed.delete(entry.blockId);
+
+		const pending = this.pushTimers.get(entry.blockId);
+		if (pending) clearTimeout(pending);
+		this.pushTimers.set(
+			entry.blockId,
+			setTimeout(() => {
+				this.pushTimers.delete(entry.blockId);
+				this.push(entry).catch((error) => {
+					console.error(`[Letta Plugin] Failed to push memory block "${entry.label}":`, error);
+					new Notice(`Failed to update memory block "${entry.label}": ${error.message}`);
+				});
+			}, PUSH_DEBOUNCE_MS),
+		);
+	}
+
+	onFileRename(file: TAbstractFile, oldPath: string): void {
+		const entry = this.entryForPath(oldPath);
+		if (!entry) return;
+		entry.path = file.path;
+		this.save();
+	}
+
+	// Deleting a note only stops mirroring it; the next pull recreates it
+	onFileDelete(file: TAbstractFile): void {
+		const entry = this.entryForPath(file.path);
+		if (!entry) return;
+		const pending = this.pushTimers.get(entry.blockId);
+		if (pending) clearTimeout(pending);
+		this.pushTimers.delete(entry.blockId);
+		this.entries.delete(entry.blockId);
+		this.save();
+	}
+
+	/**
+	 * Bring the current agent's block notes up to date with the server,
+	 * creating notes for new blocks. Returns the agent's folder, or null if
+	 * there is no agent to mirror.
+	 */
+	async pull(): Promise<string | null> {
+		const agent = this.plugin.agent;
+		if (!agent || !this.plugin.client) return null;
+		const folder = this.folderFor(agent);
+		if (this.isPulling) return folder;
+
+		this.isPulling = true;
+		try {
+			const blocks = await this.plugin.snapshotMemoryBlocks(agent.id, "note sync");
+			for (const block of blocks) {
+				if (!block?.id || !block.label || FOCUS_BLOCK_PATTERN.test(block.label)) continue;
+				await this.reconcile(agent.id, folder, block);
+			}
+			await this.save();
+		} finally {
+			this.isPulling = false;
+		}
+		return folder;
+	}
+
+	private async reconcile(agentId: string, folder: string, block: any): Promise<void> {
+		const vault = this.plugin.app.vault;
+		const server = this.fromServer(block);
+
+		let entry = this.entries.get(block.id);
+		const file = entry ? vault.getAbstractFileByPath(entry.path) : null;
+		if (!entry || !(file instanceof TFile)) {
+			const path = normalizePath(`${folder}/${safeName(block.label)}.md`);
+			const existing = vault.getAbstractFileByPath(path);
+			entry = {
+				blockId: block.id,
+				agentId,
+				label: block.label,
+				path,
+				...server,
+			};
+			this.entries.set(block.id, entry);
+
+			if (existing instanceof TFile) {
+				// A note left from an earlier session; the server copy wins since there is no base to compare with
+				await vault.modify(existing, this.serialize(entry));
+			} else {
+				await this.ensureFolder(folder);
+				await vault.create(path, this.serialize(entry));
+			}
+			return;
+		}
+
+		const local = await this.readNote(file);
+		const serverChanged = !this.sameAs(entry, server);
+		const localChanged = !this.sameAs(entry, local);
+
+		if (!serverChanged) {
+			// Edits made while the push couldn't run, e.g. offline
+			if (localChanged) await this.push(entry);
+			return;
+		}
+
+		if (localChanged && !this.sameAs(server, local)) {
+			if (this.postponed.has(entry.blockId)) return;
+			const resolution = await showBlockConflictDialog(
+				this.plugin.app,
+				entry.label,
+				entry.value,
+				server.value,
+				local.value,
+			);
+			if (resolution === "cancel") {
+				this.postponed.add(entry.blockId);
+				return;
+			}
+			if (resolution === "overwrite") {
+				await this.write(entry, local);
+				return;
+			}
+		}
+
+		Object.assign(entry, server);
+		await vault.modify(file, this.serialize(entry));
+	}
+
+	private async push(entry: MirroredBlock): Promise<void> {
+		const file = this.plugin.app.vault.getAbstractFileByPath(entry.path);
+		if (!(file instanceof TFile) || !this.plugin.client) return;
+
+		const local = await this.readNote(file);
+		if (this.sameAs(entry, local)) return;
+
+		const block = await this.plugin.makeRequest(
+			`/v1/agents/${entry.agentId}/core-memory/blocks/${entry.label}`,
+		);
+		const server = this.fromServer(block);
+		if (!this.sameAs(entry, server) && !this.sameAs(server, local)) {
+			const resolution = await showBlockConflictDialog(
+				this.plugin.app,
+				entry.label,
+				entry.value,
+				server.value,
+				local.value,
+			);
+			if (resolution === "cancel") {
+				this.postponed.add(entry.blockId);
+				return;
+			}
+			if (resolution === "keep-server") {
+				Object.assign(entry, server);
+				await this.plugin.app.vault.modify(file, this.serialize(entry));
+				await this.save();
+				return;
+			}
+		}
+
+		await this.write(entry, local);
+	}
+
+	private async write(entry: MirroredBlock, note: BlockNote): Promise<void> {
+		const client = this.plugin.client;
+		if (!client) return;
+
+		const limit = note.limit ?? entry.limit;
+		if (limit && note.value.length > limit) {
+			new Notice(
+				`Memory block "${entry.label}" is ${note.value.length} characters, over its limit of ${limit}. Shorten the note or raise the limit.`,
+			);
+			return;
+		}
+
+		await client.agents.blocks.modify(entry.agentId, entry.label, {
+			value: note.value,
+			...(note.limit !== null ? { limit: note.limit } : {}),
+			...(note.description !== null ? { description: note.description } : {}),
+		});
+		Object.assign(entry, note);
+		this.postponed.delete(entry.blockId);
+		await this.save();
+		await this.plugin.blockHistory.record(entry.agentId, entry.label, note.value, "block note");
+		console.log(`[Letta Plugin] Pushed memory block "${entry.label}" from ${entry.path}`);
+	}
+
+	private fromServer(block: any): BlockNote {
+		return {
+			value: block?.value || "",
+			limit: typeof block?.limit === "number" ? block.limit : null,
+			description: block?.description || null,
+		};
+	}
+
+	private sameAs(a: BlockNote, b: BlockNote): boolean {
+		return a.value === b.value && a.limit === b.limit && a.description === b.description;
+	}
+
+	private async readNote(file: TFile): Promise<BlockNote> {
+		const content = (await this.plugin.app.vault.read(file)).replace(/\r\n/g, "\n");
+		const frontmatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter || {};
+		const limit = parseInt(frontmatter.limit, 10);
+		return {
+			value: content.replace(/^---\n[\s\S]*?\n---\n?/, ""),
+			limit: !isNaN(limit) && limit > 0 ? limit : null,
+			description:
+				typeof frontmatter.description === "string" && frontmatter.description.trim()
+					? frontmatter.description.trim()
+					: null,
+		};
+	}
+
+	private serialize(entry: MirroredBlock): string {
+		return [
+			"---",
+			`label: ${JSON.stringify(entry.label)}`,
+			`block_id: ${entry.blockId}`,
+			`agent_id: ${entry.agentId}`,
+			...(entry.limit !== null ? [`limit: ${entry.limit}`] : []),
+			...(entry.description !== null ? [`description: ${JSON.stringify(entry.description)}`] : []),
+			"---",
+			entry.value,
+		].join("\n");
+	}
+
+	private async ensureFolder(folder: string): Promise<void> {
+		const vault = this.plugin.app.vault;
+		let path = "";
+		for (const part of folder.split("/")) {
+			path = path ? `${path}/${part}` : part;
+			const existing = vault.getAbstractFileByPath(path);
+			if (!existing) {
+				await vault.createFolder(path);
+			} else if (!(existing instanceof TFolder)) {
+				throw new Error(`${path} exists and is not a folder`);
+			}
+		}
+	}
+}
@@ -0,0 +1,196 @@
+import { Events, TFile, normalizePath } from "obsidian";
+import type LettaPlugin from "../main";
+
+const JOURNAL_FILE = "agent-changes.json";
+const MAX_ENTRIES = 200;
+const TRIGGER_PREVIEW_LENGTH = 200;
+
+export interface AgentChange {
+	id: string;
+	path: string;
+	before: string | null; // Null when the change created the note
+	after: string;
+	timestamp: number;
+	source: string; // What made the change, e.g. "edit_note"
+	agentId: string | null;
+	turnId: string | null; // Changes made while answering the same user message share this
+	trigger: string | null; // Start of the user message that led to the change
+	reverted: boolean;
+}
+
+export interface AgentTurn {
+	turnId: string | null;
+	trigger: string | null;
+	changes: AgentChange[]; // Newest first
+}
+
+export interface RevertFailure {
+	change: AgentChange;
+	error: string;
+}
+
+/**
+ * Persistent log of every vault write the agent makes, kept next to the
+ * plugin's data.json rather than in it so note contents don't bloat settings.
+ * A change is only reverted if the note still holds exactly what the agent
+ * wrote, so later edits by the user are never silently thrown away.
+ *
+ * Fires "changed" whenever the journal is updated.
+ */
+export class AgentChangeJournal extends Events {
+	private plugin: LettaPlugin;
+	private entries: AgentChange[] = [];
+	private currentTurn: { id: string; trigger: string; agentId: string | null } | null = null;
+
+	constructor(plugin: LettaPlugin) {
+		super();
+		this.plugin = plugin;
+	}
+
+	private get journalPath(): string {
+		return normalizePath(`${this.plugin.manifest.dir}/${JOURNAL_FILE}`);
+	}
+
+	async load(): Promise<void> {
+		const adapter = this.plugin.app.vault.adapter;
+		try {
+			if (await adapter.exists(this.journalPath)) {
+				const data = JSON.parse(await adapter.read(this.journalPath));
+				this.entries = Array.isArray(data?.entries) ? data.entries : [];
+			}
+		} catch (error) {
+			console.error("[Letta Plugin] Failed to load agent change journal:", error);
+			this.entries = [];
+		}
+	}
+
+	private async save(): Promise<void> {
+		try {
+			await this.plugin.app.vault.adapter.write(
+				this.journalPath,
+				JSON.stringify({ entries: this.entries }),
+			);
+		} catch (error) {
+			console.error("[Letta Plugin] Failed to save agent change journal:", error);
+		}
+		this.trigger("changed");
+	}
+
+	// Called when the user sends a message; writes until the next one belong to this turn
+	beginTurn(message: string, agentId: string | null = this.plugin.agent?.id || null): void {
+		const trigger = message.trim();
+		this.currentTurn = {
+			id: `turn-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+			trigger:
+				trigger.length > TRIGGER_PREVIEW_LENGTH
+					? `${trigger.substring(0, TRIGGER_PREVIEW_LENGTH)}...`
+					: trigger,
+			agentId,
+		};
+	}
+
+	async record(
+		change: Pick<AgentChange, "path" | "before" | "after" | "source">,
+	): Promise<void> {
+		this.entries.push({
+			...change,
+			id: `change-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+			timestamp: Date.now(),
+			agentId: this.currentTurn?.agentId ?? (this.plugin.agent?.id || null),
+			turnId: this.currentTurn?.id || null,
+			trigger: this.currentTurn?.trigger || null,
+			reverted: false,
+		});
+		if (this.entries.length > MAX_ENTRIES) {
+			this.entries.splice(0, this.entries.length - MAX_ENTRIES);
+		}
+		await this.save();
+	}
+
+	get canUndo(): boolean {
+		return this.entries.some((entry) => !entry.reverted);
+	}
+
+	list(): AgentChange[] {
+		return this.entries.slice().reverse();
+	}
+
+	// Changes grouped by the user message that triggered them, newest turn first
+	listTurns(): AgentTurn[] {
+		const turns: AgentTurn[] = [];
+		this.list().forEach((change) => {
+			const last = turns[turns.length - 1];
+			if (last && change.turnId !== null && last.turnId === change.turnId) {
+				last.changes.push(change);
+			} else {
+				turns.push({
+					turnId: change.turnId,
+					trigger: change.trigger,
+					changes: [change],
+				});
+			}
+		});
+		return turns;
+	}
+
+	async revert(id: string): Promise<AgentChange> {
+		const change = this.entries.find((entry) => entry.id === id);
+		if (!change) throw new Error("Change not found in the journal");
+
+		await this.restore(change);
+		await this.save();
+		return change;
+	}
+
+	// Reverts newest first so stacked edits to one note unwind cleanly
+	async revertTurn(turnId: string): Promise<{ reverted: AgentChange[]; failed: RevertFailure[] }> {
+		const reverted: AgentChange[] = [];
+		const failed: RevertFailure[] = [];
+
+		for (const change of this.list()) {
+			if (change.turnId !== turnId || change.reverted) continue;
+			try {
+				await this.restore(change);
+				reverted.push(change);
+			} catch (error: any) {
+				failed.push({ change, error: error.message });
+			}
+		}
+
+		await this.save();
+		return { reverted, failed };
+	}
+
+	async undoLast(): Promise<AgentChange> {
+		const change = this.list().find((entry) => !entry.reverted);
+		if (!change) throw new Error("No agent changes to undo");
+		return this.revert(change.id);
+	}
+
+	async clear(): Promise<void> {
+		this.entries = [];
+		await this.save();
+	}
+
+	private async restore(change: AgentChange): Promise<void> {
+		if (change.reverted) throw new Error("This change was already reverted");
+
+		const vault = this.plugin.app.vault;
+		const file = vault.getAbstractFileByPath(change.path);
+		if (!(file instanceof TFile)) {
+			throw new Error(`${change.path} no longer exists`);
+		}
+
+		const current = await vault.read(file);
+		if (current !== change.after) {
+			throw new Error(`${change.path} has changed since the agent edited it`);
+		}
+
+		if (change.before === null) {
+			await vault.trash(file, true);
+		} else {
+			await vault.modify(file, change.before);
+		}
+		change.reverted = true;
+	}
+}
@@ -0,0 +1,181 @@
+import { EventRef, ItemView, Notice, TFile, WorkspaceLeaf } from "obsidian";
+import type LettaPlugin from "../main";
+import type { AgentChange, AgentTurn } from "./change-journal";
+import { renderSideBySideDiff } from "./diff-render";
+
+export const LETTA_CHANGES_VIEW_TYPE = "letta-changes-view";
+
+// Lists every vault change the agent made, grouped by the message that caused it
+export class AgentChangesView extends ItemView {
+	plugin: LettaPlugin;
+	private listEl: HTMLElement;
+	private journalRef: EventRef | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: LettaPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType() {
+		return LETTA_CHANGES_VIEW_TYPE;
+	}
+
+	getDisplayText() {
+		return "Agent Changes";
+	}
+
+	getIcon() {
+		return "history";
+	}
+
+	async onOpen() {
+		const container = this.containerEl.children[1];
+		container.empty();
+		container.addClass("letta-changes-view");
+
+		const header = container.createEl("div", { cls: "letta-changes-header" });
+		header.createEl("h3", { text: "Agent Changes" });
+
+		const clearButton = header.createEl("button", {
+			text: "Clear",
+			cls: "letta-changes-clear",
+			attr: { title: "Forget all recorded changes (notes are not touched)" },
+		});
+		clearButton.addEventListener("click", async () => {
+			await this.plugin.changeJournal.clear();
+		});
+
+		this.listEl = container.createEl("div", { cls: "letta-changes-list" });
+
+		this.journalRef = this.plugin.changeJournal.on("changed", () => this.render());
+		this.render();
+	}
+
+	async onClose() {
+		if (this.journalRef) {
+			this.plugin.changeJournal.offref(this.journalRef);
+			this.journalRef = null;
+		}
+	}
+
+	private render() {
+		this.listEl.empty();
+
+		const turns = this.plugin.changeJournal.listTurns();
+		if (turns.length === 0) {
+			this.listEl.createEl("div", {
+				cls: "letta-changes-empty",
+				text: "The agent hasn't changed any notes yet.",
+			});
+			return;
+		}
+
+		turns.forEach((turn) => this.renderTurn(turn));
+	}
+
+	private renderTurn(turn: AgentTurn) {
+		const turnEl = this.listEl.createEl("div", { cls: "letta-changes-turn" });
+		const headerEl = turnEl.createEl("div", { cls: "letta-changes-turn-header" });
+
+		const newest = turn.changes[0];
+		headerEl.createEl("div", {
+			cls: "letta-changes-trigger",
+			text: turn.trigger ? `"${turn.trigger}"` : "Outside a chat message",
+		});
+		headerEl.createEl("div", {
+			cls: "letta-changes-meta",
+			text: [
+				new Date(newest.timestamp).toLocaleString(),
+				newest.agentId ? `Agent ${newest.agentId}` : null,
+			]
+				.filter(Boolean)
+				.join(" · "),
+		});
+
+		const pending = turn.changes.filter((change) => !change.reverted);
+		if (turn.turnId && pending.length > 1) {
+			const revertAll = headerEl.createEl("button", {
+				text: `Revert all ${pending.length}`,
+				cls: "letta-changes-revert-turn",
+			});
+			revertAll.addEventListener("click", async () => {
+				revertAll.disabled = true;
+				const { reverted, failed } = await this.plugin.changeJournal.revertTurn(
+					turn.turnId as string,
+				);
+				if (failed.length > 0) {
+					new Notice(
+						`Reverted ${reverted.length} of ${reverted.length + failed.length} changes. ` +
+							failed.map((failure) => failure.error).join("; "),
+					);
+				} else {
+					new Notice(`Reverted ${reverted.length} changes`);
+				}
+			});
+		}
+
+		turn.changes.forEach((change) => this.renderChange(turnEl, change));
+	}
+
+	private renderChange(turnEl: HTMLElement, change: AgentChange) {
+		const changeEl = turnEl.createEl("div", {
+			cls: `letta-changes-item${change.reverted ? " letta-changes-reverted" : ""}`,
+		});
+		const rowEl = changeEl.createEl("div", { cls: "letta-changes-item-row" });
+
+		const pathEl = rowEl.createEl("a", {
+			cls: "letta-changes-path",
+			text: change.path,
+		});
+		pathEl.addEventListener("click", async () => {
+			const file = this.app.vault.getAbstractFileByPath(change.path);
+			if (file instanceof TFile) {
+				await this.app.workspace.getLeaf("tab").openFile(file);
+			} else {
+				new Notice(`${change.path} no longer exists`);
+			}
+		});
+
+		rowEl.createEl("span", {
+			cls: "letta-changes-source",
+			text: change.reverted
+				? "reverted"
+				: change.before === null
+					? `created by ${change.source}`
+					: change.source,
+		});
+
+		const diffButton = rowEl.createEl("button", { text: "Diff" });
+		const diffEl = changeEl.createEl("div", {
+			cls: "letta-diff-view letta-changes-diff",
+		});
+		diffEl.hide();
+		diffButton.addEventListener("click", () => {
+			if (diffEl.isShown()) {
+				diffEl.hide();
+				return;
+			}
+			diffEl.empty();
+			renderSideBySideDiff(diffEl, {
+				path: change.path,
+				before: change.before ?? "",
+				after: change.after,
+			});
+			diffEl.show();
+		});
+
+		if (!change.reverted) {
+			const revertButton = rowEl.createEl("button", { text: "Revert" });
+			revertButton.addEventListener("click", async () => {
+				revertButton.disabled = true;
+				try {
+					await this.plugin.changeJournal.revert(change.id);
+					new Notice(`Reverted ${change.path}`);
+				} catch (error: any) {
+					revertButton.disabled = false;
+					new Notice(`Could not revert: ${error.message}`);
+				}
+			});
+		}
+	}
+}
@@ -0,0 +1,166 @@
+import type LettaPlugin from "../main";
+import { isOfflineError } from "./outbox";
+import { Scheduler, TimerHandle, timerScheduler } from "./scheduler";
+
+/**
+ * Where the plugin stands with the server:
+ * - disconnected: never connected, disconnected by the user, or connectToLetta gave up
+ * - connecting: connectToLetta is running
+ * - connected: the last check reached the server
+ * - degraded: connected before, but the server has stopped answering; the agent is kept
+ * - auth-failed: the server refused the API key, so nothing is checked until it changes
+ */
+export type ConnectionState = "disconnected" | "connecting" | "connected" | "degraded" | "auth-failed";
+
+// Status bar text for each state; "Connected" is shown as an empty status bar
+export const CONNECTION_STATE_LABELS: Record<ConnectionState, string> = {
+	disconnected: "Disconnected",
+	connecting: "Connecting...",
+	connected: "Connected",
+	degraded: "Letta not responding",
+	"auth-failed": "Authentication failed",
+};
+
+// How often a healthy connection is checked
+export const HEALTH_CHECK_INTERVAL_MS = 60000;
+// Wait after the first failed check, doubled after each further failure up to the cap
+export const HEALTH_BACKOFF_BASE_MS = 5000;
+export const HEALTH_BACKOFF_MAX_MS = 5 * 60000;
+
+// The wait before the next check after `failures` failed checks in a row
+export function healthCheckDelay(failures: number): number {
+	if (failures === 0) return HEALTH_CHECK_INTERVAL_MS;
+	return Math.min(HEALTH_BACKOFF_BASE_MS * 2 ** (failures - 1), HEALTH_BACKOFF_MAX_MS);
+}
+
+// Only a 401 counts; other text mentioning 401 (ports, ids, timestamps) must not stop the checks
+export function isAuthError(error: any): boolean {
+	if (error?.statusCode === 401 || error?.status === 401) return true;
+	// Without a status, only an error quoting the HTTP status line counts
+	return /\b401 Unauthorized\b/i.test(String(error?.message || ""));
+}
+
+/**
+ * Keeps checking the server in the background once connectToLetta has run, so
+ * a server that goes away shows as degraded instead of a stale "Connected".
+ * Failed checks back off exponentially; when the server answers again the
+ * connection is restored and the outbox sent. Checks pause while Obsidian's
+ * window is out of focus and catch up when it comes back.
+ */
+export class ConnectionMonitor {
+	private plugin: LettaPlugin;
+	private scheduler: Scheduler;
+	private timer: TimerHandle | null = null;
+	private running = false;
+	private paused = false;
+	private checking = false;
+	private failures = 0;
+	private dueAt = 0; // When the next check is due, kept while paused
+
+	constructor(plugin: LettaPlugin, scheduler: Scheduler = timerScheduler) {
+		this.plugin = plugin;
+		this.scheduler = scheduler;
+	}
+
+	// Check on a schedule from now on; called when connectToLetta settles
+	start() {
+		this.running = true;
+		this.failures = this.plugin.connectionState === "connected" ? 0 : 1;
+		this.schedule(healthCheckDelay(this.failures));
+	}
+
+	stop() {
+		this.running = false;
+		this.failures = 0;
+		this.clearTimer();
+	}
+
+	// The window lost focus: hold the next check until it's back
+	pause() {
+		this.paused = true;
+		this.clearTimer();
+	}
+
+	resume() {
+		this.paused = false;
+		if (this.running && !this.timer) {
+			this.schedule(Math.max(0, this.dueAt - this.scheduler.now()));
+		}
+	}
+
+	// A request just failed to reach the server; check again soon rather than in a minute
+	reportOffline() {
+		if (this.plugin.connectionState !== "connected") return;
+		this.failures = 1;
+		this.plugin.setConnectionState("degraded");
+		if (this.running) this.schedule(healthCheckDelay(this.failures));
+	}
+
+	// Ask the server whether it's there and move the connection state to match
+	async check(): Promise<void> {
+		if (this.checking || this.plugin.connectionState === "connecting") return;
+		const client = this.plugin.client;
+		if (!client) return;
+
+		this.checking = true;
+		try {
+			await client.agents.list({ limit: 1 }, { timeoutInSeconds: 10, maxRetries: 0 });
+			await this.onReachable();
+		} catch (error) {
+			this.onUnreachable(error);
+		} finally {
+			this.checking = false;
+		}
+
+		if (this.running) this.schedule(healthCheckDelay(this.failures));
+	}
+
+	private async onReachable() {
+		const state = this.plugin.connectionState;
+		this.failures = 0;
+		if (state === "degraded") {
+			console.log("[Letta Plugin] Server is answering again");
+			this.plugin.setConnectionState("connected");
+			this.plugin.outbox.reset();
+			this.plugin.outbox
+				.flush()
+				.catch((error) => console.error("[Letta Plugin] Failed to send the outbox:", error));
+		} else if (state === "disconnected") {
+			// The agent was never set up, so go through the whole connection
+			await this.plugin.connectToLetta();
+		}
+	}
+
+	private onUnreachable(error: any) {
+		if (isAuthError(error)) {
+			this.plugin.markAuthFailed();
+			return;
+		}
+
+		this.failures++;
+		console.warn(
+			`[Letta Plugin] Health check failed (${this.failures} in a row):`,
+			isOfflineError(error) ? "server unreachable" : error?.message,
+		);
+		if (this.plugin.connectionState === "connected") {
+			this.plugin.setConnectionState("degraded");
+		}
+	}
+
+	private schedule(delay: number) {
+		this.clearTimer();
+		this.dueAt = this.scheduler.now() + delay;
+		if (this.paused) return;
+		this.timer = this.scheduler.setTimeout(() => {
+			this.timer = null;
+			this.check().catch((error) => console.error("[Letta Plugin] Health check failed:", error));
+		}, delay);
+	}
+
+	private clearTimer() {
+		if (this.timer) {
+			this.scheduler.clearTimeout(this.timer);
+			this.timer = null;
+		}
+	}
+}
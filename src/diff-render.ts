@@ -0,0 +1,43 @@
+import { buildSideBySideDiff } from "./note-patch";
+import type { NoteEditPreview } from "./vault-tools";
+
+// Renders a note edit as a two-column table: current note on the left, result on the right
+export function renderSideBySideDiff(container: HTMLElement, preview: NoteEditPreview): void {
+	container.createEl("div", {
+		cls: "letta-diff-path",
+		text: preview.before ? preview.path : `${preview.path} (new note)`,
+	});
+
+	const rows = buildSideBySideDiff(preview.before, preview.after);
+	if (!rows.some((row) => row.type !== "same" && row.type !== "skip")) {
+		container.createEl("div", {
+			cls: "letta-diff-empty",
+			text: "No changes",
+		});
+		return;
+	}
+
+	const table = container.createEl("table", { cls: "letta-diff-table" });
+	rows.forEach((row) => {
+		const tr = table.createEl("tr", { cls: `letta-diff-row letta-diff-${row.type}` });
+		if (row.type === "skip") {
+			tr.createEl("td", {
+				cls: "letta-diff-skip",
+				text: `⋯ ${row.skipped} unchanged ${row.skipped === 1 ? "line" : "lines"}`,
+				attr: { colspan: "4" },
+			});
+			return;
+		}
+
+		[row.left, row.right].forEach((line, side) => {
+			tr.createEl("td", {
+				cls: "letta-diff-number",
+				text: line ? String(line.number) : "",
+			});
+			tr.createEl("td", {
+				cls: `letta-diff-text ${side === 0 ? "letta-diff-old" : "letta-diff-new"}`,
+				text: line ? line.text : "",
+			});
+		});
+	});
+}
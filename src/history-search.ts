@@ -0,0 +1,182 @@
+import type LettaPlugin from "../main";
+
+const PAGE_SIZE = 100;
+const SNIPPET_RADIUS = 60;
+// Client-side scanning stops after this many pages so a search can't run forever
+const MAX_SCAN_PAGES = 30;
+
+export interface HistorySearchHit {
+	id: string; // Message ID, used to find the message in the chat view
+	date: string;
+	role: "user" | "assistant";
+	snippet: string;
+}
+
+export interface HistorySearchResult {
+	hits: HistorySearchHit[];
+	source: "server" | "scan";
+	complete: boolean; // False if there may be matches beyond the ones returned
+}
+
+export function messageType(message: any): string {
+	return message?.message_type || message?.type || "";
+}
+
+export function messageText(message: any): string {
+	const content = message?.content ?? message?.text ?? "";
+	if (typeof content === "string") return content;
+	if (Array.isArray(content)) {
+		return content
+			.map((part) => (typeof part === "string" ? part : part?.text || ""))
+			.join("");
+	}
+	return String(content);
+}
+
+/**
+ * Walk an agent's history from the newest page back, oldest message first
+ * within each page. Stops at the start of the conversation or when the
+ * cursor stops moving.
+ */
+export async function* messagePages(
+	plugin: LettaPlugin,
+	agentId: string,
+): AsyncGenerator<any[]> {
+	let cursor: string | null = null;
+
+	for (;;) {
+		const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+		if (cursor) params.set("before", cursor);
+
+		const page = await plugin.makeRequest(
+			`/v1/agents/${agentId}/messages?${params.toString()}`,
+		);
+		if (!Array.isArray(page) || page.length === 0) return;
+
+		const sorted = page
+			.filter((message: any) => message && messageType(message))
+			.sort(
+				(a: any, b: any) =>
+					new Date(a.date).getTime() - new Date(b.date).getTime(),
+			);
+		yield sorted;
+
+		const oldest = sorted.find((message: any) => message.id);
+		if (page.length < PAGE_SIZE || !oldest || oldest.id === cursor) return;
+		cursor = oldest.id;
+	}
+}
+
+function buildSnippet(text: string, terms: string[]): string {
+	const flat = text.replace(/\s+/g, " ").trim();
+	const lower = flat.toLowerCase();
+	const index = terms
+		.map((term) => lower.indexOf(term))
+		.filter((i) => i !== -1)
+		.sort((a, b) => a - b)[0];
+
+	if (index === undefined) return flat.substring(0, SNIPPET_RADIUS * 2);
+	const start = Math.max(0, index - SNIPPET_RADIUS);
+	const end = Math.min(flat.length, index + SNIPPET_RADIUS);
+	return `${start > 0 ? "…" : ""}${flat.substring(start, end)}${end < flat.length ? "…" : ""}`;
+}
+
+// Mention context is appended to user messages; searching it would match every note body
+function stripMentionContext(text: string): string {
+	return text.replace(/\n*---\n\*\*Context from .+?:\*\*\n```\n[\s\S]*?\n```/g, "");
+}
+
+// Letta Cloud's organization-wide message search, narrowed to this agent
+async function searchOnServer(
+	plugin: LettaPlugin,
+	agentId: string,
+	query: string,
+	terms: string[],
+	limit: number,
+): Promise<HistorySearchHit[]> {
+	const results = await plugin.makeRequest("/v1/agents/messages/search", {
+		method: "POST",
+		body: {
+			query,
+			search_mode: "fts",
+			roles: ["user", "assistant"],
+			limit: limit * 4,
+		},
+	});
+	if (!Array.isArray(results)) throw new Error("Unexpected search response");
+
+	return results
+		.map((result: any) => result.message)
+		.filter((message: any) => message && message.id && (message.agent_id || message.agentId) === agentId)
+		.slice(0, limit)
+		.map((message: any) => ({
+			id: message.id,
+			date: message.created_at || message.createdAt || "",
+			role: message.role === "user" ? "user" : "assistant",
+			snippet: buildSnippet(stripMentionContext(messageText(message)), terms),
+		}));
+}
+
+async function searchByScanning(
+	plugin: LettaPlugin,
+	agentId: string,
+	terms: string[],
+	limit: number,
+): Promise<{ hits: HistorySearchHit[]; complete: boolean }> {
+	const hits: HistorySearchHit[] = [];
+	let pages = 0;
+
+	for await (const page of messagePages(plugin, agentId)) {
+		// Newest first, to match the order the server returns
+		for (const message of page.slice().reverse()) {
+			const type = messageType(message);
+			if (type !== "user_message" && type !== "assistant_message") continue;
+
+			const text = stripMentionContext(messageText(message));
+			const lower = text.toLowerCase();
+			if (!terms.every((term) => lower.includes(term))) continue;
+
+			hits.push({
+				id: message.id,
+				date: message.date || "",
+				role: type === "user_message" ? "user" : "assistant",
+				snippet: buildSnippet(text, terms),
+			});
+			if (hits.length >= limit) return { hits, complete: false };
+		}
+
+		pages++;
+		if (pages >= MAX_SCAN_PAGES) return { hits, complete: false };
+	}
+
+	return { hits, complete: true };
+}
+
+/**
+ * Search the agent's conversation for messages containing every word of the
+ * query. Uses the server's full-text search when it is available (Letta
+ * Cloud) and falls back to scanning history page by page.
+ */
+export async function searchHistory(
+	plugin: LettaPlugin,
+	agentId: string,
+	query: string,
+	limit = 50,
+): Promise<HistorySearchResult> {
+	const terms = query
+		.toLowerCase()
+		.split(/\s+/)
+		.filter((term) => term.length > 0);
+	if (terms.length === 0) return { hits: [], source: "scan", complete: true };
+
+	try {
+		// The server's limit applies across the organization, so an empty result isn't conclusive
+		const hits = await searchOnServer(plugin, agentId, query, terms, limit);
+		if (hits.length > 0) return { hits, source: "server", complete: hits.length < limit };
+	} catch (error) {
+		console.log("[Letta Plugin] Server message search unavailable, scanning history instead:", error);
+	}
+
+	const { hits, complete } = await searchByScanning(plugin, agentId, terms, limit);
+	return { hits, source: "scan", complete };
+}
@@ -0,0 +1,76 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { EditorState } from "@codemirror/state";
+import { GhostText, acceptGhost, assistantText, ghostField, setGhost } from "./inline-writer";
+
+// An editor state over `doc` previewing `ghost`
+function withGhost(doc: string, ghost: GhostText): EditorState {
+	const state = EditorState.create({ doc, extensions: ghostField });
+	return state.update({ effects: setGhost.of(ghost) }).state;
+}
+
+function accepted(state: EditorState): EditorState {
+	const spec = acceptGhost(state);
+	assert.ok(spec, "Expected a reply to accept");
+	return state.update(spec).state;
+}
+
+describe("ghostField", () => {
+	it("keeps the replaced range when text is typed before it", () => {
+		const state = withGhost("Hello world", { from: 6, to: 11, text: "there", streaming: true });
+		const typed = state.update({ changes: { from: 0, insert: ">> " } }).state;
+		assert.deepEqual(typed.field(ghostField), { from: 9, to: 14, text: "there", streaming: true });
+	});
+
+	it("leaves text typed at either end of the range out of it", () => {
+		const state = withGhost("Hello world", { from: 6, to: 11, text: "there", streaming: true });
+		const typed = state.update({ changes: [{ from: 6, insert: "[" }, { from: 11, insert: "]" }] }).state;
+		const ghost = typed.field(ghostField);
+		assert.equal(ghost && typed.sliceDoc(ghost.from, ghost.to), "world");
+	});
+
+	it("follows text typed at the cursor it inserts at", () => {
+		const state = withGhost("Hello", { from: 5, to: 5, text: " world", streaming: true });
+		const typed = state.update({ changes: { from: 5, insert: "," } }).state;
+		assert.deepEqual(typed.field(ghostField), { from: 6, to: 6, text: " world", streaming: true });
+	});
+
+	it("is cleared by setting it to null", () => {
+		const state = withGhost("Hello", { from: 5, to: 5, text: "!", streaming: false });
+		assert.equal(state.update({ effects: setGhost.of(null) }).state.field(ghostField), null);
+	});
+});
+
+describe("acceptGhost", () => {
+	it("replaces the selection with the reply and moves the cursor after it", () => {
+		const state = withGhost("Hello world!", { from: 6, to: 11, text: "there", streaming: false });
+		const result = accepted(state);
+		assert.equal(result.doc.toString(), "Hello there!");
+		assert.equal(result.selection.main.head, 11);
+		assert.equal(result.field(ghostField), null);
+	});
+
+	it("inserts the reply at the cursor", () => {
+		const state = withGhost("Hello", { from: 5, to: 5, text: " world", streaming: true });
+		assert.equal(accepted(state).doc.toString(), "Hello world");
+	});
+
+	it("does nothing without a reply", () => {
+		assert.equal(acceptGhost(EditorState.create({ doc: "Hello", extensions: ghostField })), null);
+	});
+});
+
+describe("assistantText", () => {
+	it("reads string content", () => {
+		assert.equal(assistantText({ messageType: "assistant_message", content: "Hi" }), "Hi");
+	});
+
+	it("joins text parts", () => {
+		assert.equal(assistantText({ content: [{ type: "text", text: "Hi " }, "there"] }), "Hi there");
+	});
+
+	it("returns nothing for other content", () => {
+		assert.equal(assistantText({ content: { unexpected: true } }), "");
+		assert.equal(assistantText(null), "");
+	});
+});
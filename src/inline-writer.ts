@@ -0,0 +1,289 @@
+import { Editor, Notice } from "obsidian";
+import { EditorState, Extension, Prec, StateEffect, StateField, TransactionSpec } from "@codemirror/state";
+import { Decoration, DecorationSet, EditorView, WidgetType, keymap } from "@codemirror/view";
+import type LettaPlugin from "../main";
+import type { LettaAgent } from "../main";
+
+// Tools that need approval are declined while writing inline; after this many the reply is given up
+const MAX_DENIALS = 3;
+const DENIAL_REASON =
+	"This reply is being written straight into a note, where tools that need approval can't run. Reply with the text only.";
+
+// A reply being previewed in the editor before it's accepted into the note
+export interface GhostText {
+	from: number; // Start of the selection the reply replaces, or the cursor
+	to: number; // End of the selection, the same as from when inserting
+	text: string; // The reply so far
+	streaming: boolean;
+}
+
+export const setGhost = StateEffect.define<GhostText | null>();
+
+export const ghostField = StateField.define<GhostText | null>({
+	create: () => null,
+	update(ghost, tr) {
+		for (const effect of tr.effects) {
+			if (effect.is(setGhost)) return effect.value;
+		}
+		if (!ghost || !tr.docChanged) return ghost;
+		// Typing at either end of the range stays outside it, so it's never replaced
+		const from = tr.changes.mapPos(ghost.from, 1);
+		return { ...ghost, from, to: Math.max(from, tr.changes.mapPos(ghost.to, -1)) };
+	},
+	provide: (field) => EditorView.decorations.from(field, ghostDecorations),
+});
+
+class GhostTextWidget extends WidgetType {
+	constructor(
+		readonly text: string,
+		readonly streaming: boolean,
+	) {
+		super();
+	}
+
+	eq(other: GhostTextWidget): boolean {
+		return other.text === this.text && other.streaming === this.streaming;
+	}
+
+	toDOM(): HTMLElement {
+		const el = document.createElement("span");
+		el.className = "letta-ghost";
+		el.createSpan({ cls: "letta-ghost-text", text: this.text });
+		let hint = "Tab to accept · Esc to discard";
+		if (this.streaming) {
+			hint = this.text ? "Tab to accept · Esc to stop" : "Letta is writing… Esc to stop";
+		}
+		el.createSpan({ cls: "letta-ghost-hint", text: hint });
+		return el;
+	}
+}
+
+function ghostDecorations(ghost: GhostText | null): DecorationSet {
+	if (!ghost) return Decoration.none;
+	const ranges = [
+		Decoration.widget({ widget: new GhostTextWidget(ghost.text, ghost.streaming), side: 1 }).range(ghost.to),
+	];
+	if (ghost.to > ghost.from) {
+		ranges.push(Decoration.mark({ class: "letta-ghost-replaced" }).range(ghost.from, ghost.to));
+	}
+	return Decoration.set(ranges, true);
+}
+
+// The transaction that writes the previewed reply into the note, or null when there is none
+export function acceptGhost(state: EditorState): TransactionSpec | null {
+	const ghost = state.field(ghostField, false);
+	if (!ghost) return null;
+	return {
+		changes: { from: ghost.from, to: ghost.to, insert: ghost.text },
+		selection: { anchor: ghost.from + ghost.text.length },
+		effects: setGhost.of(null),
+		userEvent: "input.letta",
+	};
+}
+
+// The text of an assistant message, whose content is a string or a list of text parts
+export function assistantText(message: any): string {
+	const content = message?.content ?? message?.text ?? "";
+	if (typeof content === "string") return content;
+	if (!Array.isArray(content)) return "";
+	return content.map((part) => (typeof part === "string" ? part : part?.text || "")).join("");
+}
+
+function messageType(message: any): string | undefined {
+	return message?.messageType || message?.message_type;
+}
+
+interface InlineSession {
+	view: EditorView;
+	agent: LettaAgent;
+	controller: AbortController;
+}
+
+// What a stream left behind for the session to act on once it ends
+interface StreamOutcome {
+	error: Error | null;
+	approvalId: string | null;
+}
+
+/**
+ * Streams an agent's reply straight into the editor. The reply shows as ghost
+ * text at the cursor, or after a selection it will replace, while it arrives;
+ * Tab writes it into the note and Escape stops the stream or discards the
+ * reply. One reply is written at a time across all editors.
+ */
+export class InlineWriter {
+	private plugin: LettaPlugin;
+	private session: InlineSession | null = null;
+	readonly extension: Extension;
+
+	constructor(plugin: LettaPlugin) {
+		this.plugin = plugin;
+		this.extension = [
+			ghostField,
+			Prec.highest(
+				keymap.of([
+					{ key: "Tab", run: (view) => this.accept(view) },
+					{ key: "Escape", run: (view) => this.escape(view) },
+				]),
+			),
+		];
+	}
+
+	// Stream the agent's reply to `prompt` into the editor in place of its selection
+	async write(editor: Editor, prompt: string, agent: LettaAgent): Promise<void> {
+		const view = (editor as unknown as { cm?: EditorView }).cm;
+		if (!view) {
+			new Notice("This editor doesn't support inline replies");
+			return;
+		}
+
+		this.discard();
+		const { from, to } = view.state.selection.main;
+		const session: InlineSession = { view, agent, controller: new AbortController() };
+		this.session = session;
+		view.dispatch({ effects: setGhost.of({ from, to, text: "", streaming: true }) });
+
+		try {
+			await this.run(session, prompt);
+		} catch (error: any) {
+			if (session.controller.signal.aborted) return;
+			console.error("[Letta Plugin] Inline reply failed:", error);
+			new Notice(`Inline reply failed: ${error.message}`);
+			this.end(session, true);
+			return;
+		}
+
+		if (this.session !== session) return;
+		const ghost = view.state.field(ghostField, false);
+		if (!ghost?.text) {
+			new Notice("Letta didn't reply with any text");
+			this.end(session, true);
+			return;
+		}
+		this.updateGhost(session, { streaming: false });
+	}
+
+	private async run(session: InlineSession, prompt: string): Promise<void> {
+		const { signal } = session.controller;
+		const outcome: StreamOutcome = { error: null, approvalId: null };
+
+		await this.plugin.sendMessageToAgentStream(
+			prompt,
+			(chunk) => this.onChunk(session, chunk, outcome),
+			(error) => (outcome.error = error),
+			() => undefined,
+			session.agent,
+			signal,
+		);
+
+		for (let denials = 0; outcome.approvalId && !outcome.error && !signal.aborted; denials++) {
+			if (denials === MAX_DENIALS) {
+				throw new Error("the agent kept asking to run tools that need approval");
+			}
+			if (denials === 0) {
+				new Notice("Letta asked to run a tool that needs approval. That isn't possible inline, so it was declined.");
+			}
+			const approvalId = outcome.approvalId;
+			outcome.approvalId = null;
+			await this.denyApproval(session, approvalId, outcome);
+		}
+
+		if (outcome.error?.message.includes("CORS_ERROR")) {
+			// Streaming is blocked from this origin: wait for the whole reply instead
+			const messages = await this.plugin.sendMessageToAgent(prompt, session.agent);
+			const text = messages
+				.filter((message) => messageType(message) === "assistant_message")
+				.map(assistantText)
+				.join("\n\n");
+			this.updateGhost(session, { text });
+		} else if (outcome.error) {
+			throw outcome.error;
+		}
+	}
+
+	private onChunk(session: InlineSession, chunk: any, outcome: StreamOutcome) {
+		switch (messageType(chunk)) {
+			case "assistant_message": {
+				const ghost = session.view.state.field(ghostField, false);
+				if (ghost) this.updateGhost(session, { text: ghost.text + assistantText(chunk) });
+				break;
+			}
+			case "approval_request_message":
+				outcome.approvalId = chunk.id;
+				break;
+		}
+	}
+
+	// Decline a tool call so the agent goes on to reply with text
+	private async denyApproval(session: InlineSession, approvalRequestId: string, outcome: StreamOutcome) {
+		if (!this.plugin.client) throw new Error("Client not initialized");
+
+		const approvalMessage = {
+			id: `approval-response-${Date.now()}`,
+			date: new Date().toISOString(),
+			messageType: "approval_response_message",
+			approve: false,
+			approvalRequestId,
+			reason: DENIAL_REASON,
+		};
+		const stream = await this.plugin.client.agents.messages.createStream(
+			session.agent.id,
+			{ messages: [approvalMessage as any], streamTokens: true },
+			{ abortSignal: session.controller.signal },
+		);
+		for await (const chunk of stream) {
+			this.onChunk(session, chunk, outcome);
+		}
+	}
+
+	private updateGhost(session: InlineSession, change: Partial<GhostText>) {
+		if (this.session !== session) return;
+		const ghost = session.view.state.field(ghostField, false);
+		if (ghost) {
+			session.view.dispatch({ effects: setGhost.of({ ...ghost, ...change }) });
+		}
+	}
+
+	// Stop the session's stream, removing the preview too when `clear` is set
+	private end(session: InlineSession, clear: boolean) {
+		session.controller.abort();
+		if (this.session !== session) return;
+		if (clear) {
+			this.session = null;
+			session.view.dispatch({ effects: setGhost.of(null) });
+		} else {
+			this.updateGhost(session, { streaming: false });
+		}
+	}
+
+	private accept(view: EditorView): boolean {
+		const spec = acceptGhost(view.state);
+		if (!spec) return false;
+		if (this.session?.view === view) {
+			this.session.controller.abort();
+			this.session = null;
+		}
+		view.dispatch(spec);
+		return true;
+	}
+
+	private escape(view: EditorView): boolean {
+		const ghost = view.state.field(ghostField, false);
+		if (!ghost) return false;
+		const session = this.session?.view === view ? this.session : null;
+		if (session && ghost.streaming && ghost.text) {
+			// Keep what has arrived so it can still be accepted
+			this.end(session, false);
+		} else if (session) {
+			this.end(session, true);
+		} else {
+			view.dispatch({ effects: setGhost.of(null) });
+		}
+		return true;
+	}
+
+	// Abort the reply being written and remove its preview
+	discard() {
+		if (this.session) this.end(this.session, true);
+	}
+}
@@ -0,0 +1,191 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { PatchError, applyNotePatches, buildSideBySideDiff, findChangedSpan } from "./note-patch";
+
+const NOTE = "# Plan\nIntro\n\n## Goals\nOld goal\n\n## Notes\nOld note\n";
+
+describe("applyNotePatches", () => {
+	describe("replace_section", () => {
+		it("replaces a section's body and keeps the blank line before the next heading", () => {
+			const result = applyNotePatches(NOTE, [{ op: "replace_section", heading: "Goals", content: "New goal" }]);
+
+			assert.equal(result, "# Plan\nIntro\n\n## Goals\nNew goal\n\n## Notes\nOld note\n");
+		});
+
+		it("doesn't add a blank line when the new content ends with a newline", () => {
+			const result = applyNotePatches(NOTE, [
+				{ op: "replace_section", heading: "## goals", content: "New goal\n" },
+			]);
+
+			assert.equal(result, "# Plan\nIntro\n\n## Goals\nNew goal\n\n## Notes\nOld note\n");
+		});
+
+		it("keeps the note's final newline when replacing the last section", () => {
+			assert.equal(
+				applyNotePatches(NOTE, [{ op: "replace_section", heading: "Notes", content: "New note" }]),
+				"# Plan\nIntro\n\n## Goals\nOld goal\n\n## Notes\nNew note\n",
+			);
+			assert.equal(
+				applyNotePatches("# A\nold", [{ op: "replace_section", heading: "A", content: "new\n" }]),
+				"# A\nnew",
+			);
+		});
+
+		it("covers nested headings up to the next heading of the same level", () => {
+			const result = applyNotePatches("# A\nold\n## A.1\nnested\n# B\nkept", [
+				{ op: "replace_section", heading: "A", content: "new" },
+			]);
+
+			assert.equal(result, "# A\nnew\n# B\nkept");
+		});
+
+		it("ignores headings inside code blocks and frontmatter", () => {
+			const note = "---\ntitle: x\n---\n# A\n```\n# B\n```\n# B\nold";
+			const result = applyNotePatches(note, [{ op: "replace_section", heading: "B", content: "new" }]);
+
+			assert.equal(result, "---\ntitle: x\n---\n# A\n```\n# B\n```\n# B\nnew");
+		});
+
+		it("lists the note's headings when the section is missing", () => {
+			assert.throws(
+				() => applyNotePatches(NOTE, [{ op: "replace_section", heading: "Budget", content: "x" }]),
+				(error: unknown) =>
+					error instanceof PatchError &&
+					error.message === 'Heading "Budget" not found; headings in the note: "plan", "goals", "notes"',
+			);
+		});
+	});
+
+	describe("insert_after", () => {
+		it("inserts below a heading", () => {
+			const result = applyNotePatches(NOTE, [{ op: "insert_after", heading: "Goals", content: "First goal" }]);
+
+			assert.equal(result, "# Plan\nIntro\n\n## Goals\nFirst goal\nOld goal\n\n## Notes\nOld note\n");
+		});
+
+		it("inserts after a line number, with 0 meaning the top of the note", () => {
+			assert.equal(applyNotePatches("a\nb", [{ op: "insert_after", line: 1, content: "x" }]), "a\nx\nb");
+			assert.equal(applyNotePatches("a\nb", [{ op: "insert_after", line: 0, content: "x" }]), "x\na\nb");
+		});
+
+		it("rejects a missing anchor", () => {
+			assert.throws(
+				() => applyNotePatches("a\nb", [{ op: "insert_after", line: 5, content: "x" }]),
+				new PatchError("Line 5 is out of range; the note has 2 lines"),
+			);
+			assert.throws(
+				() => applyNotePatches("a\nb", [{ op: "insert_after", content: "x" }]),
+				new PatchError("insert_after needs a heading or a line number"),
+			);
+			assert.throws(
+				() => applyNotePatches("a\nb", [{ op: "insert_after", heading: "Missing", content: "x" }]),
+				new PatchError('Heading "Missing" not found'),
+			);
+		});
+	});
+
+	describe("append", () => {
+		it("adds a line break only when the note lacks one", () => {
+			assert.equal(applyNotePatches("a", [{ op: "append", content: "b" }]), "a\nb");
+			assert.equal(applyNotePatches("a\n", [{ op: "append", content: "b" }]), "a\nb");
+			assert.equal(applyNotePatches("", [{ op: "append", content: "b" }]), "b");
+		});
+	});
+
+	describe("find_replace", () => {
+		it("replaces a unique match", () => {
+			assert.equal(applyNotePatches("red fox", [{ op: "find_replace", find: "red", replace: "brown" }]), "brown fox");
+		});
+
+		it("needs all to replace repeated text", () => {
+			assert.throws(
+				() => applyNotePatches("a a", [{ op: "find_replace", find: "a", replace: "b" }]),
+				new PatchError('Text "a" occurs 2 times; include more context or set all to true'),
+			);
+			assert.equal(applyNotePatches("a a", [{ op: "find_replace", find: "a", replace: "b", all: true }]), "b b");
+		});
+
+		it("rejects text that isn't there", () => {
+			assert.throws(
+				() => applyNotePatches("a", [{ op: "find_replace", find: "z", replace: "b" }]),
+				new PatchError('Text not found: "z"'),
+			);
+		});
+	});
+
+	it("applies patches in order and names the one that failed", () => {
+		assert.equal(
+			applyNotePatches("a", [
+				{ op: "append", content: "b" },
+				{ op: "find_replace", find: "b", replace: "c" },
+			]),
+			"a\nc",
+		);
+		assert.throws(
+			() =>
+				applyNotePatches("a", [
+					{ op: "append", content: "b" },
+					{ op: "find_replace", find: "z", replace: "c" },
+				]),
+			new PatchError('Patch 2: Text not found: "z"'),
+		);
+	});
+
+	it("rejects an empty patch list and unknown ops", () => {
+		assert.throws(() => applyNotePatches("a", []), new PatchError("At least one patch is required"));
+		assert.throws(
+			() => applyNotePatches("a", [{ op: "delete" } as never]),
+			/Unknown patch op "delete"/,
+		);
+	});
+});
+
+describe("buildSideBySideDiff", () => {
+	it("pairs removed and added lines into changed rows", () => {
+		assert.deepEqual(buildSideBySideDiff("a\nb\nc", "a\nB\nc\nd"), [
+			{ type: "same", left: { number: 1, text: "a" }, right: { number: 1, text: "a" } },
+			{ type: "changed", left: { number: 2, text: "b" }, right: { number: 2, text: "B" } },
+			{ type: "same", left: { number: 3, text: "c" }, right: { number: 3, text: "c" } },
+			{ type: "added", left: undefined, right: { number: 4, text: "d" } },
+		]);
+	});
+
+	it("collapses long unchanged stretches around the context", () => {
+		const before = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+		const after = [...before];
+		after[10] = "changed";
+
+		const rows = buildSideBySideDiff(before.join("\n"), after.join("\n"), 2);
+
+		assert.deepEqual(
+			rows.map((row) => (row.type === "skip" ? `skip ${row.skipped}` : row.type)),
+			["skip 8", "same", "same", "changed", "same", "same", "skip 7"],
+		);
+	});
+
+	it("falls back to one replaced block when the diff table would be too large", () => {
+		// Over MAX_DIFF_CELLS, so the shared middle line isn't matched up
+		const side = (name: string) =>
+			[
+				...Array.from({ length: 1001 }, (_, i) => `${name} ${i}`),
+				"shared",
+				...Array.from({ length: 1001 }, (_, i) => `${name} end ${i}`),
+			].join("\n");
+
+		const rows = buildSideBySideDiff(side("left"), side("right"));
+
+		assert.equal(rows.length, 2003);
+		assert.ok(rows.every((row) => row.type === "changed"));
+	});
+});
+
+describe("findChangedSpan", () => {
+	it("finds the one stretch that differs", () => {
+		assert.deepEqual(findChangedSpan("the red fox", "the brown fox"), {
+			start: 4,
+			inserted: "brown",
+			removed: "red",
+		});
+		assert.equal(findChangedSpan("same", "same"), null);
+	});
+});
@@ -0,0 +1,355 @@
+export type NotePatch =
+	| { op: "replace_section"; heading: string; content: string }
+	| { op: "insert_after"; heading?: string; line?: number; content: string }
+	| { op: "append"; content: string }
+	| { op: "find_replace"; find: string; replace: string; all?: boolean };
+
+// A patch that can't be applied; the message goes back to the agent as-is
+export class PatchError extends Error {}
+
+export type DiffRowType = "same" | "changed" | "added" | "removed" | "skip";
+
+export interface DiffLine {
+	number: number; // 1-based line number
+	text: string;
+}
+
+export interface DiffRow {
+	type: DiffRowType;
+	left?: DiffLine; // Line in the current note
+	right?: DiffLine; // Line after the edit
+	skipped?: number; // Unchanged lines hidden by a "skip" row
+}
+
+interface Heading {
+	index: number; // 0-based line index
+	level: number;
+	text: string;
+}
+
+// Above this many LCS cells the diff falls back to one replaced block
+const MAX_DIFF_CELLS = 4_000_000;
+
+function normalizeHeading(text: string): string {
+	return text
+		.trim()
+		.replace(/^#+\s*/, "")
+		.replace(/\s+#+$/, "")
+		.trim()
+		.toLowerCase();
+}
+
+// ATX headings outside of frontmatter and fenced code blocks
+function findHeadings(lines: string[]): Heading[] {
+	const headings: Heading[] = [];
+	let start = 0;
+	let fence: string | null = null;
+
+	if (lines[0] === "---") {
+		const end = lines.indexOf("---", 1);
+		if (end !== -1) start = end + 1;
+	}
+
+	for (let i = start; i < lines.length; i++) {
+		const fenceMatch = lines[i].match(/^\s*(```|~~~)/);
+		if (fenceMatch) {
+			if (fence === null) fence = fenceMatch[1];
+			else if (fence === fenceMatch[1]) fence = null;
+			continue;
+		}
+		if (fence !== null) continue;
+
+		const match = lines[i].match(/^(#{1,6})\s+(.*)$/);
+		if (match) {
+			headings.push({
+				index: i,
+				level: match[1].length,
+				text: normalizeHeading(match[2]),
+			});
+		}
+	}
+
+	return headings;
+}
+
+function locateHeading(lines: string[], heading: string): { heading: Heading; end: number } {
+	const wanted = normalizeHeading(String(heading || ""));
+	if (!wanted) throw new PatchError("A heading is required");
+
+	const headings = findHeadings(lines);
+	const position = headings.findIndex((h) => h.text === wanted);
+	if (position === -1) {
+		const available = headings.map((h) => `"${h.text}"`).join(", ");
+		throw new PatchError(
+			`Heading "${heading}" not found${available ? `; headings in the note: ${available}` : ""}`,
+		);
+	}
+
+	// A section runs until the next heading of the same or a higher level
+	const found = headings[position];
+	const next = headings
+		.slice(position + 1)
+		.find((h) => h.level <= found.level);
+	return { heading: found, end: next ? next.index : lines.length };
+}
+
+function toLines(content: string): string[] {
+	return content.length === 0 ? [] : content.split("\n");
+}
+
+function applyPatch(content: string, patch: NotePatch): string {
+	const insert = toLines(String((patch as { content?: string }).content ?? ""));
+
+	switch (patch?.op) {
+		case "replace_section": {
+			const lines = content.split("\n");
+			const { heading, end } = locateHeading(lines, patch.heading);
+
+			// The section's own line ending decides what follows the new content: a blank line
+			// before the next heading, or the note's final newline
+			const body = toLines(String(patch.content ?? "").replace(/\n+$/, ""));
+			const lineEnding = end - 1 > heading.index && lines[end - 1] === "" ? [""] : [];
+			lines.splice(heading.index + 1, end - heading.index - 1, ...body, ...lineEnding);
+			return lines.join("\n");
+		}
+
+		case "insert_after": {
+			const lines = content.split("\n");
+			let index: number;
+			if (patch.heading) {
+				index = locateHeading(lines, patch.heading).heading.index + 1;
+			} else if (patch.line !== undefined && patch.line !== null) {
+				const line = Number(patch.line);
+				if (!Number.isInteger(line) || line < 0 || line > lines.length) {
+					throw new PatchError(
+						`Line ${patch.line} is out of range; the note has ${lines.length} lines`,
+					);
+				}
+				index = line;
+			} else {
+				throw new PatchError("insert_after needs a heading or a line number");
+			}
+
+			lines.splice(index, 0, ...insert);
+			return lines.join("\n");
+		}
+
+		case "append": {
+			const addition = insert.join("\n");
+			const separator = content.length === 0 || content.endsWith("\n") ? "" : "\n";
+			return content + separator + addition;
+		}
+
+		case "find_replace": {
+			const find = String(patch.find ?? "");
+			if (!find) throw new PatchError("find_replace needs the text to find");
+
+			const count = content.split(find).length - 1;
+			if (count === 0) {
+				throw new PatchError(`Text not found: "${find}"`);
+			}
+			if (count > 1 && !patch.all) {
+				throw new PatchError(
+					`Text "${find}" occurs ${count} times; include more context or set all to true`,
+				);
+			}
+			return content.split(find).join(String(patch.replace ?? ""));
+		}
+
+		default:
+			throw new PatchError(
+				`Unknown patch op "${(patch as { op?: string })?.op}"; use replace_section, insert_after, append or find_replace`,
+			);
+	}
+}
+
+/**
+ * Apply patches in order, each one to the result of the previous. Nothing is
+ * written here; callers decide what to do with the new content.
+ */
+export function applyNotePatches(content: string, patches: NotePatch[]): string {
+	if (!Array.isArray(patches) || patches.length === 0) {
+		throw new PatchError("At least one patch is required");
+	}
+
+	return patches.reduce((current, patch, index) => {
+		try {
+			return applyPatch(current, patch);
+		} catch (error) {
+			if (error instanceof PatchError && patches.length > 1) {
+				throw new PatchError(`Patch ${index + 1}: ${error.message}`);
+			}
+			throw error;
+		}
+	}, content);
+}
+
+/**
+ * Line diff laid out for a side-by-side view. Runs of removed and added lines
+ * are paired into "changed" rows, and unchanged stretches longer than twice
+ * the context are collapsed into a single "skip" row.
+ */
+export function buildSideBySideDiff(
+	before: string,
+	after: string,
+	context = 3,
+): DiffRow[] {
+	const left = toLines(before);
+	const right = toLines(after);
+
+	// Common prefix and suffix keep the LCS table small for typical edits
+	let prefix = 0;
+	while (prefix < left.length && prefix < right.length && left[prefix] === right[prefix]) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (
+		suffix < left.length - prefix &&
+		suffix < right.length - prefix &&
+		left[left.length - 1 - suffix] === right[right.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	const ops: Array<"same" | "removed" | "added"> = [];
+	for (let i = 0; i < prefix; i++) ops.push("same");
+
+	const a = left.slice(prefix, left.length - suffix);
+	const b = right.slice(prefix, right.length - suffix);
+	if (a.length * b.length > MAX_DIFF_CELLS) {
+		a.forEach(() => ops.push("removed"));
+		b.forEach(() => ops.push("added"));
+	} else {
+		// lengths[i][j] is the LCS length of a[i..] and b[j..]
+		const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+			new Array(b.length + 1).fill(0),
+		);
+		for (let i = a.length - 1; i >= 0; i--) {
+			for (let j = b.length - 1; j >= 0; j--) {
+				lengths[i][j] =
+					a[i] === b[j]
+						? lengths[i + 1][j + 1] + 1
+						: Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+			}
+		}
+
+		let i = 0;
+		let j = 0;
+		while (i < a.length || j < b.length) {
+			if (i < a.length && j < b.length && a[i] === b[j]) {
+				ops.push("same");
+				i++;
+				j++;
+			} else if (j < b.length && (i === a.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+				ops.push("added");
+				j++;
+			} else {
+				ops.push("removed");
+				i++;
+			}
+		}
+	}
+
+	for (let i = 0; i < suffix; i++) ops.push("same");
+
+	// Walk the ops, pairing removed/added runs into changed rows
+	const rows: DiffRow[] = [];
+	let l = 0;
+	let r = 0;
+	let k = 0;
+	while (k < ops.length) {
+		if (ops[k] === "same") {
+			rows.push({
+				type: "same",
+				left: { number: l + 1, text: left[l] },
+				right: { number: r + 1, text: right[r] },
+			});
+			l++;
+			r++;
+			k++;
+			continue;
+		}
+
+		const removed: DiffLine[] = [];
+		const added: DiffLine[] = [];
+		while (k < ops.length && ops[k] !== "same") {
+			if (ops[k] === "removed") {
+				removed.push({ number: l + 1, text: left[l] });
+				l++;
+			} else {
+				added.push({ number: r + 1, text: right[r] });
+				r++;
+			}
+			k++;
+		}
+
+		for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+			const type: DiffRowType =
+				n < removed.length && n < added.length
+					? "changed"
+					: n < removed.length
+						? "removed"
+						: "added";
+			rows.push({ type, left: removed[n], right: added[n] });
+		}
+	}
+
+	return collapseUnchanged(rows, context);
+}
+
+function collapseUnchanged(rows: DiffRow[], context: number): DiffRow[] {
+	const result: DiffRow[] = [];
+	let k = 0;
+	while (k < rows.length) {
+		if (rows[k].type !== "same") {
+			result.push(rows[k]);
+			k++;
+			continue;
+		}
+
+		let end = k;
+		while (end < rows.length && rows[end].type === "same") end++;
+
+		const keepBefore = k === 0 ? 0 : context;
+		const keepAfter = end === rows.length ? 0 : context;
+		if (end - k > keepBefore + keepAfter + 1) {
+			result.push(...rows.slice(k, k + keepBefore));
+			result.push({ type: "skip", skipped: end - k - keepBefore - keepAfter });
+			result.push(...rows.slice(end - keepAfter, end));
+		} else {
+			result.push(...rows.slice(k, end));
+		}
+		k = end;
+	}
+	return result;
+}
+
+export interface ChangedSpan {
+	start: number; // Offset in the new text where the change begins
+	inserted: string; // Text that replaced `removed`; empty for a pure deletion
+	removed: string;
+}
+
+// The single stretch of text that differs, found by trimming the common prefix and suffix
+export function findChangedSpan(before: string, after: string): ChangedSpan | null {
+	if (before === after) return null;
+
+	let prefix = 0;
+	while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (
+		suffix < before.length - prefix &&
+		suffix < after.length - prefix &&
+		before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	return {
+		start: prefix,
+		inserted: after.substring(prefix, after.length - suffix),
+		removed: before.substring(prefix, before.length - suffix),
+	};
+}
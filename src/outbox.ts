@@ -0,0 +1,174 @@
+import type LettaPlugin from "../main";
+import { Scheduler, TimerHandle, timerScheduler } from "./scheduler";
+
+// Waits between delivery attempts while the server is still unreachable after a
+// successful connection. Once they run out the outbox waits for the next connection.
+export const OUTBOX_RETRY_DELAYS_MS = [2000, 4000, 8000, 16000, 32000];
+
+export interface OutboxMessage {
+	id: string;
+	agentId: string;
+	agentName: string;
+	text: string; // As typed, shown in the pending bubble and editable
+	context: string; // Content of the @-mentioned notes, read when the message was written
+	notes: string[]; // Paths of the mentioned notes
+	createdAt: string; // ISO date
+	error: string | null; // Why the server refused it; such messages wait for the user
+}
+
+// What happened to a message handed to the chat or the API. Busy means the
+// chat for its agent is still waiting on another reply.
+export interface Delivery {
+	status: "sent" | "offline" | "failed" | "busy";
+	error?: string; // Why the server refused it
+}
+
+// The message the agent receives
+export function outboxPayload(message: OutboxMessage): string {
+	return message.text + message.context;
+}
+
+// True when a request failed before reaching the server, so nothing was sent
+export function isOfflineError(error: any): boolean {
+	if (error?.statusCode || error?.status) return false;
+	const message = String(error?.message || "");
+	return /fetch failed|failed to fetch|networkerror|network request failed|ECONNREFUSED|ERR_CONNECTION_REFUSED|ERR_INTERNET_DISCONNECTED|ERR_NAME_NOT_RESOLVED|ENOTFOUND|Cannot connect to Letta API/i.test(
+		message,
+	);
+}
+
+/**
+ * Chat messages written while the server was unreachable. They're kept in
+ * plugin data, shown as pending bubbles in the chat for their agent, and sent
+ * in order after connectToLetta succeeds. A message the server refuses is
+ * held back with its error until the user edits, retries or discards it.
+ */
+export class Outbox {
+	private plugin: LettaPlugin;
+	private scheduler: Scheduler;
+	private retryTimer: TimerHandle | null = null;
+	private retries = 0;
+	private flushing = false;
+
+	constructor(plugin: LettaPlugin, scheduler: Scheduler = timerScheduler) {
+		this.plugin = plugin;
+		this.scheduler = scheduler;
+	}
+
+	get messages(): OutboxMessage[] {
+		return this.plugin.settings.outbox;
+	}
+
+	forAgent(agentId: string): OutboxMessage[] {
+		return this.messages.filter((message) => message.agentId === agentId);
+	}
+
+	async add(
+		agent: { id: string; name: string },
+		text: string,
+		context: string,
+		notes: string[],
+	): Promise<OutboxMessage> {
+		const message: OutboxMessage = {
+			id: `outbox-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+			agentId: agent.id,
+			agentName: agent.name,
+			text,
+			context,
+			notes,
+			createdAt: new Date().toISOString(),
+			error: null,
+		};
+		await this.save([...this.messages, message]);
+		return message;
+	}
+
+	// Replace a message's text; its mentioned notes stay as they were read
+	async edit(id: string, text: string): Promise<void> {
+		await this.save(
+			this.messages.map((message) => (message.id === id ? { ...message, text, error: null } : message)),
+		);
+	}
+
+	async retry(id: string): Promise<void> {
+		await this.save(
+			this.messages.map((message) => (message.id === id ? { ...message, error: null } : message)),
+		);
+	}
+
+	async discard(id: string): Promise<void> {
+		await this.save(this.messages.filter((message) => message.id !== id));
+	}
+
+	// Send the queued messages in order. A message that still can't reach the
+	// server stops the run and schedules the next attempt.
+	async flush(): Promise<void> {
+		if (this.flushing) return;
+		this.cancelRetry();
+		this.flushing = true;
+		let undelivered = false;
+		try {
+			for (const queued of [...this.messages]) {
+				// Skip messages discarded, edited or held back since the run started
+				const message = this.messages.find((candidate) => candidate.id === queued.id);
+				if (!message || message.error) continue;
+
+				const delivery = await this.plugin.deliverOutboxMessage(message);
+				if (delivery.status === "sent") {
+					await this.discard(message.id);
+				} else if (delivery.status === "failed") {
+					await this.hold(message.id, delivery.error || "The server refused this message");
+				} else {
+					undelivered = true;
+					break;
+				}
+			}
+		} finally {
+			this.flushing = false;
+		}
+
+		if (undelivered) {
+			this.scheduleRetry();
+		} else {
+			this.retries = 0;
+		}
+	}
+
+	cancelRetry() {
+		if (this.retryTimer) {
+			this.scheduler.clearTimeout(this.retryTimer);
+			this.retryTimer = null;
+		}
+	}
+
+	// Forget the backoff so the next connection starts from the first delay
+	reset() {
+		this.cancelRetry();
+		this.retries = 0;
+	}
+
+	// Try again after the next backoff delay, unless a try is already coming up
+	scheduleRetry() {
+		if (this.retryTimer || this.flushing) return;
+		if (this.retries >= OUTBOX_RETRY_DELAYS_MS.length) {
+			console.log("[Letta Plugin] Outbox still undelivered; waiting for the next connection");
+			this.retries = 0;
+			return;
+		}
+		const delay = OUTBOX_RETRY_DELAYS_MS[this.retries++];
+		this.retryTimer = this.scheduler.setTimeout(() => {
+			this.retryTimer = null;
+			this.flush().catch((error) => console.error("[Letta Plugin] Outbox retry failed:", error));
+		}, delay);
+	}
+
+	private async hold(id: string, error: string): Promise<void> {
+		await this.save(this.messages.map((message) => (message.id === id ? { ...message, error } : message)));
+	}
+
+	private async save(messages: OutboxMessage[]): Promise<void> {
+		this.plugin.settings.outbox = messages;
+		await this.plugin.saveSettings();
+		this.plugin.refreshOutboxViews();
+	}
+}
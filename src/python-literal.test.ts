@@ -0,0 +1,189 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { PythonLiteralError, parsePythonLiteral, parseToolReturn } from "./python-literal";
+
+describe("parsePythonLiteral", () => {
+	it("parses constants", () => {
+		assert.equal(parsePythonLiteral("None"), null);
+		assert.equal(parsePythonLiteral("True"), true);
+		assert.equal(parsePythonLiteral("False"), false);
+	});
+
+	it("parses numbers", () => {
+		assert.equal(parsePythonLiteral("42"), 42);
+		assert.equal(parsePythonLiteral("-7"), -7);
+		assert.equal(parsePythonLiteral("3.25"), 3.25);
+		assert.equal(parsePythonLiteral(".5"), 0.5);
+		assert.equal(parsePythonLiteral("1."), 1);
+		assert.equal(parsePythonLiteral("1e-3"), 0.001);
+		assert.equal(parsePythonLiteral("1_000_000"), 1000000);
+		assert.equal(parsePythonLiteral("0xff"), 255);
+		assert.equal(parsePythonLiteral("0o17"), 15);
+		assert.equal(parsePythonLiteral("0b101"), 5);
+		assert.equal(parsePythonLiteral("-inf"), -Infinity);
+		assert.ok(Number.isNaN(parsePythonLiteral("nan")));
+		assert.equal(parsePythonLiteral("2j"), "2j");
+	});
+
+	it("parses strings in either quote style", () => {
+		assert.equal(parsePythonLiteral("'hello'"), "hello");
+		assert.equal(parsePythonLiteral('"hello"'), "hello");
+		assert.equal(parsePythonLiteral("''"), "");
+	});
+
+	it("handles quotes nested in strings", () => {
+		assert.equal(parsePythonLiteral(`"it's"`), "it's");
+		assert.equal(parsePythonLiteral(`'it\\'s'`), "it's");
+		assert.equal(parsePythonLiteral(`'say "hi"'`), 'say "hi"');
+		assert.equal(parsePythonLiteral(`"both ' and \\""`), `both ' and "`);
+	});
+
+	it("decodes escape sequences", () => {
+		assert.equal(parsePythonLiteral("'a\\nb\\tc'"), "a\nb\tc");
+		assert.equal(parsePythonLiteral("'back\\\\slash'"), "back\\slash");
+		assert.equal(parsePythonLiteral("'\\x41\\u00e9\\U0001F600'"), "Aé😀");
+		assert.equal(parsePythonLiteral("'\\101\\0'"), "A\0");
+		assert.equal(parsePythonLiteral("'keep \\d'"), "keep \\d");
+		assert.equal(parsePythonLiteral("'line \\\ncontinued'"), "line continued");
+	});
+
+	it("rejects malformed escapes", () => {
+		assert.throws(() => parsePythonLiteral("'\\xZZ'"), PythonLiteralError);
+	});
+
+	it("leaves raw strings undecoded", () => {
+		assert.equal(parsePythonLiteral("r'C:\\new'"), "C:\\new");
+		assert.equal(parsePythonLiteral("r'a\\'b'"), "a\\'b");
+	});
+
+	it("accepts string prefixes", () => {
+		assert.equal(parsePythonLiteral("b'bytes'"), "bytes");
+		assert.equal(parsePythonLiteral("u'text'"), "text");
+		assert.equal(parsePythonLiteral("Rb'\\d'"), "\\d");
+	});
+
+	it("parses triple-quoted and multi-line strings", () => {
+		assert.equal(parsePythonLiteral("'''one\ntwo'''"), "one\ntwo");
+		assert.equal(parsePythonLiteral('"""has "quotes" inside"""'), 'has "quotes" inside');
+		assert.equal(parsePythonLiteral("'raw\nnewline'"), "raw\nnewline");
+	});
+
+	it("concatenates adjacent strings", () => {
+		assert.equal(parsePythonLiteral("'a' \"b\"\n'c'"), "abc");
+	});
+
+	it("parses lists, tuples and sets as arrays", () => {
+		assert.deepEqual(parsePythonLiteral("[1, 'two', None]"), [1, "two", null]);
+		assert.deepEqual(parsePythonLiteral("[]"), []);
+		assert.deepEqual(parsePythonLiteral("(1, 2)"), [1, 2]);
+		assert.deepEqual(parsePythonLiteral("()"), []);
+		assert.deepEqual(parsePythonLiteral("(1,)"), [1]);
+		assert.deepEqual(parsePythonLiteral("{1, 2, 3}"), [1, 2, 3]);
+		assert.deepEqual(parsePythonLiteral("{'only'}"), ["only"]);
+	});
+
+	it("treats a parenthesised value without a comma as the value itself", () => {
+		assert.equal(parsePythonLiteral("(5)"), 5);
+	});
+
+	it("allows trailing commas", () => {
+		assert.deepEqual(parsePythonLiteral("[1, 2,]"), [1, 2]);
+		assert.deepEqual(parsePythonLiteral("{'a': 1,}"), { a: 1 });
+		assert.deepEqual(parsePythonLiteral("{1, 2,}"), [1, 2]);
+	});
+
+	it("parses dicts with non-string keys as string keys", () => {
+		assert.deepEqual(parsePythonLiteral("{}"), {});
+		assert.deepEqual(parsePythonLiteral("{'a': 1, \"b\": [True]}"), { a: 1, b: [true] });
+		assert.deepEqual(parsePythonLiteral("{1: 'x', None: 'y', True: 'z'}"), {
+			"1": "x",
+			None: "y",
+			True: "z",
+		});
+	});
+
+	it("parses nested structures across lines", () => {
+		const text = `{
+	'results': [
+		{'content': 'first', 'tags': ('a', 'b')},
+		{'content': 'second', 'tags': ()},
+	],
+	'count': 2,
+}`;
+		assert.deepEqual(parsePythonLiteral(text), {
+			results: [
+				{ content: "first", tags: ["a", "b"] },
+				{ content: "second", tags: [] },
+			],
+			count: 2,
+		});
+	});
+
+	it("keeps constructor calls and object reprs as text", () => {
+		assert.deepEqual(
+			parsePythonLiteral("{'when': datetime.datetime(2024, 5, 1, 9, 30, tzinfo=datetime.timezone.utc)}"),
+			{ when: "datetime.datetime(2024, 5, 1, 9, 30, tzinfo=datetime.timezone.utc)" },
+		);
+		assert.deepEqual(parsePythonLiteral("[<Passage object at 0x7f>, 1]"), ["<Passage object at 0x7f>", 1]);
+		assert.equal(parsePythonLiteral("Call(')')"), "Call(')')");
+	});
+
+	it("accepts JSON spellings of constants", () => {
+		assert.deepEqual(parsePythonLiteral("[null, true, false]"), [null, true, false]);
+	});
+
+	it("rejects text that isn't a literal", () => {
+		assert.throws(() => parsePythonLiteral(""), PythonLiteralError);
+		assert.throws(() => parsePythonLiteral("hello world"), PythonLiteralError);
+		assert.throws(() => parsePythonLiteral("[1, 2"), PythonLiteralError);
+		assert.throws(() => parsePythonLiteral("'unterminated"), PythonLiteralError);
+		assert.throws(() => parsePythonLiteral("{'a' 1}"), PythonLiteralError);
+		assert.throws(() => parsePythonLiteral("[1] extra"), PythonLiteralError);
+		assert.throws(() => parsePythonLiteral("@"), PythonLiteralError);
+	});
+});
+
+describe("parseToolReturn", () => {
+	const archivalSearch =
+		"([{'timestamp': '2024-05-01 09:30:00 AM UTC+0000', 'content': \"User's favourite colour is 'teal'\"}, " +
+		"{'timestamp': '2024-05-02 10:00:00 AM UTC+0000', 'content': 'Line one\\nLine two'}], 2)";
+
+	it("decodes an archival search tuple", () => {
+		assert.deepEqual(parseToolReturn(archivalSearch), [
+			[
+				{
+					timestamp: "2024-05-01 09:30:00 AM UTC+0000",
+					content: "User's favourite colour is 'teal'",
+				},
+				{ timestamp: "2024-05-02 10:00:00 AM UTC+0000", content: "Line one\nLine two" },
+			],
+			2,
+		]);
+	});
+
+	it("decodes a Python repr wrapped in a JSON string", () => {
+		assert.deepEqual(parseToolReturn(JSON.stringify(archivalSearch)), parseToolReturn(archivalSearch));
+	});
+
+	it("decodes JSON, including double-encoded JSON", () => {
+		assert.deepEqual(parseToolReturn('{"status": "OK", "count": 3}'), { status: "OK", count: 3 });
+		assert.deepEqual(parseToolReturn(JSON.stringify(JSON.stringify({ total: 1 }))), { total: 1 });
+	});
+
+	it("returns plain text unchanged", () => {
+		assert.equal(parseToolReturn("Sent message successfully."), "Sent message successfully.");
+		assert.equal(parseToolReturn("OK"), "OK");
+		assert.equal(parseToolReturn(""), "");
+		assert.equal(parseToolReturn('"Created note at Notes/a.md"'), "Created note at Notes/a.md");
+	});
+
+	it("decodes Python constants returned on their own", () => {
+		assert.equal(parseToolReturn("None"), null);
+		assert.equal(parseToolReturn("True"), true);
+	});
+
+	it("passes through values that are already decoded", () => {
+		assert.deepEqual(parseToolReturn({ a: 1 }), { a: 1 });
+		assert.equal(parseToolReturn(null), null);
+	});
+});
@@ -0,0 +1,377 @@
+// Thrown for text that isn't a Python literal
+export class PythonLiteralError extends Error {}
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+	"\\": "\\",
+	"'": "'",
+	'"': '"',
+	n: "\n",
+	r: "\r",
+	t: "\t",
+	b: "\b",
+	f: "\f",
+	v: "\v",
+	a: "\x07",
+};
+
+const NAMED_CONSTANTS: Record<string, unknown> = {
+	None: null,
+	True: true,
+	False: false,
+	// JSON spellings, since some tools return JSON inside a Python container
+	null: null,
+	true: true,
+	false: false,
+	inf: Infinity,
+	nan: NaN,
+};
+
+/**
+ * Recursive-descent parser for the literals Python's repr() produces: str and
+ * bytes (any quoting, prefix and escapes), int, float, None, True, False,
+ * lists, tuples, sets and dicts. Tuples and sets become arrays and dict keys
+ * become strings. Anything else that looks like a repr - a constructor call
+ * such as `datetime.datetime(2024, 1, 1)` or an `<object at 0x...>` - is kept
+ * as its source text so one odd value doesn't make the whole return unreadable.
+ */
+class PythonLiteralParser {
+	private text: string;
+	private pos = 0;
+
+	constructor(text: string) {
+		this.text = text;
+	}
+
+	parse(): unknown {
+		this.skipWhitespace();
+		const value = this.parseValue();
+		this.skipWhitespace();
+		if (this.pos < this.text.length) {
+			this.fail("Unexpected text after the value");
+		}
+		return value;
+	}
+
+	private fail(message: string): never {
+		throw new PythonLiteralError(`${message} at position ${this.pos}`);
+	}
+
+	private peek(offset = 0): string {
+		return this.text.charAt(this.pos + offset);
+	}
+
+	private skipWhitespace() {
+		while (this.pos < this.text.length) {
+			const char = this.peek();
+			if (char === " " || char === "\t" || char === "\n" || char === "\r") {
+				this.pos++;
+			} else if (char === "\\" && (this.peek(1) === "\n" || this.peek(1) === "\r")) {
+				// Explicit line continuation
+				this.pos += 2;
+			} else {
+				break;
+			}
+		}
+	}
+
+	private expect(char: string) {
+		if (this.peek() !== char) this.fail(`Expected "${char}"`);
+		this.pos++;
+	}
+
+	private parseValue(): unknown {
+		const char = this.peek();
+		if (!char) this.fail("Unexpected end of input");
+
+		if (char === "[") return this.parseSequence("[", "]");
+		if (char === "(") return this.parseTuple();
+		if (char === "{") return this.parseDictOrSet();
+		if (char === "<") return this.parseAngleRepr();
+		if (this.atString()) return this.parseStrings();
+		if (/[-+0-9.]/.test(char)) return this.parseNumberOrSigned();
+		if (/[A-Za-z_]/.test(char)) return this.parseName();
+		return this.fail(`Unexpected "${char}"`);
+	}
+
+	// Items up to the closing bracket, allowing a trailing comma
+	private parseItems(close: string): { items: unknown[]; trailingComma: boolean } {
+		const items: unknown[] = [];
+		let trailingComma = false;
+		this.skipWhitespace();
+		while (this.peek() !== close) {
+			items.push(this.parseValue());
+			this.skipWhitespace();
+			trailingComma = false;
+			if (this.peek() === ",") {
+				this.pos++;
+				trailingComma = true;
+				this.skipWhitespace();
+			} else if (this.peek() !== close) {
+				this.fail(`Expected "," or "${close}"`);
+			}
+		}
+		this.pos++;
+		return { items, trailingComma };
+	}
+
+	private parseSequence(open: string, close: string): unknown[] {
+		this.expect(open);
+		return this.parseItems(close).items;
+	}
+
+	// `(x)` is just x; `(x,)` and `(x, y)` are tuples
+	private parseTuple(): unknown {
+		this.expect("(");
+		const { items, trailingComma } = this.parseItems(")");
+		return items.length === 1 && !trailingComma ? items[0] : items;
+	}
+
+	private parseDictOrSet(): unknown {
+		this.expect("{");
+		this.skipWhitespace();
+		if (this.peek() === "}") {
+			this.pos++;
+			return {};
+		}
+
+		const first = this.parseValue();
+		this.skipWhitespace();
+		if (this.peek() !== ":") {
+			// A set; the first item is already read
+			const items = [first];
+			if (this.peek() === ",") {
+				this.pos++;
+				items.push(...this.parseItems("}").items);
+			} else {
+				this.expect("}");
+			}
+			return items;
+		}
+
+		const dict: Record<string, unknown> = {};
+		let key = first;
+		for (;;) {
+			this.expect(":");
+			this.skipWhitespace();
+			dict[this.keyString(key)] = this.parseValue();
+			this.skipWhitespace();
+			if (this.peek() === ",") {
+				this.pos++;
+				this.skipWhitespace();
+			} else if (this.peek() !== "}") {
+				this.fail('Expected "," or "}"');
+			}
+			if (this.peek() === "}") {
+				this.pos++;
+				return dict;
+			}
+			key = this.parseValue();
+			this.skipWhitespace();
+		}
+	}
+
+	private keyString(key: unknown): string {
+		if (typeof key === "string") return key;
+		if (key === null) return "None";
+		if (key === true) return "True";
+		if (key === false) return "False";
+		if (Array.isArray(key)) return JSON.stringify(key);
+		return String(key);
+	}
+
+	private atString(): boolean {
+		const match = this.text.substring(this.pos, this.pos + 3).match(/^[rRbBuUfF]{0,2}['"]/);
+		return !!match;
+	}
+
+	// Adjacent literals concatenate, as in Python
+	private parseStrings(): string {
+		let value = this.parseString();
+		for (;;) {
+			const start = this.pos;
+			this.skipWhitespace();
+			if (!this.atString()) {
+				this.pos = start;
+				return value;
+			}
+			value += this.parseString();
+		}
+	}
+
+	private parseString(): string {
+		let raw = false;
+		while (/[rRbBuUfF]/.test(this.peek())) {
+			if (this.peek().toLowerCase() === "r") raw = true;
+			this.pos++;
+		}
+
+		const quote = this.peek();
+		const triple = this.text.substring(this.pos, this.pos + 3) === quote.repeat(3);
+		const delimiter = triple ? quote.repeat(3) : quote;
+		this.pos += delimiter.length;
+
+		let value = "";
+		for (;;) {
+			if (this.pos >= this.text.length) this.fail("Unterminated string");
+			if (this.text.startsWith(delimiter, this.pos)) {
+				this.pos += delimiter.length;
+				return value;
+			}
+
+			const char = this.peek();
+			if (char !== "\\") {
+				value += char;
+				this.pos++;
+				continue;
+			}
+
+			if (raw) {
+				// Raw strings keep the backslash but it still stops the quote from closing the string
+				value += char + this.peek(1);
+				this.pos += 2;
+				continue;
+			}
+			value += this.parseEscape();
+		}
+	}
+
+	private parseEscape(): string {
+		this.pos++; // The backslash
+		const char = this.peek();
+		this.pos++;
+
+		if (char in SIMPLE_ESCAPES) return SIMPLE_ESCAPES[char];
+		if (char === "\n") return "";
+		if (char === "\r") {
+			if (this.peek() === "\n") this.pos++;
+			return "";
+		}
+		if (/[0-7]/.test(char)) {
+			let digits = char;
+			while (digits.length < 3 && /[0-7]/.test(this.peek())) {
+				digits += this.peek();
+				this.pos++;
+			}
+			return String.fromCodePoint(parseInt(digits, 8));
+		}
+
+		const hexLength = char === "x" ? 2 : char === "u" ? 4 : char === "U" ? 8 : 0;
+		if (hexLength > 0) {
+			const digits = this.text.substring(this.pos, this.pos + hexLength);
+			if (!new RegExp(`^[0-9a-fA-F]{${hexLength}}$`).test(digits)) {
+				this.fail(`Invalid \\${char} escape`);
+			}
+			this.pos += hexLength;
+			return String.fromCodePoint(parseInt(digits, 16));
+		}
+
+		// Python keeps unknown escapes, backslash included
+		return `\\${char}`;
+	}
+
+	private parseNumberOrSigned(): unknown {
+		const sign = this.peek() === "-" || this.peek() === "+" ? this.peek() : "";
+		if (sign) {
+			this.pos++;
+			this.skipWhitespace();
+			if (/[A-Za-z_]/.test(this.peek())) {
+				// -inf
+				const value = this.parseName();
+				if (typeof value !== "number") this.fail(`Unexpected "${sign}"`);
+				return sign === "-" ? -value : value;
+			}
+		}
+
+		const rest = this.text.substring(this.pos);
+		const match =
+			rest.match(/^0[xX][0-9a-fA-F_]+|^0[oO][0-7_]+|^0[bB][01_]+/) ||
+			rest.match(/^(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][-+]?\d[\d_]*)?j?/);
+		if (!match) this.fail("Invalid number");
+
+		this.pos += match[0].length;
+		const literal = match[0].replace(/_/g, "");
+		if (literal.endsWith("j")) {
+			// Complex numbers have no JSON equivalent
+			return `${sign}${literal}`;
+		}
+
+		let value: number;
+		if (/^0[xX]/.test(literal)) value = parseInt(literal.substring(2), 16);
+		else if (/^0[oO]/.test(literal)) value = parseInt(literal.substring(2), 8);
+		else if (/^0[bB]/.test(literal)) value = parseInt(literal.substring(2), 2);
+		else value = Number(literal);
+		return sign === "-" ? -value : value;
+	}
+
+	private parseName(): unknown {
+		const start = this.pos;
+		const match = this.text.substring(this.pos).match(/^[A-Za-z_][\w.]*/);
+		if (!match) this.fail("Invalid name");
+		this.pos += match[0].length;
+
+		if (this.peek() === "(") {
+			this.skipBalanced("(", ")");
+			return this.text.substring(start, this.pos);
+		}
+		if (match[0] in NAMED_CONSTANTS) return NAMED_CONSTANTS[match[0]];
+
+		// An unknown bare name, e.g. an enum member; keep it as text
+		return match[0];
+	}
+
+	private parseAngleRepr(): string {
+		const start = this.pos;
+		this.skipBalanced("<", ">");
+		return this.text.substring(start, this.pos);
+	}
+
+	// Skip past the matching close bracket, stepping over any strings inside
+	private skipBalanced(open: string, close: string) {
+		let depth = 0;
+		while (this.pos < this.text.length) {
+			if (this.atString() && /['"]/.test(this.peek())) {
+				this.parseString();
+				continue;
+			}
+			const char = this.peek();
+			this.pos++;
+			if (char === open) depth++;
+			else if (char === close && --depth === 0) return;
+		}
+		this.fail(`Unclosed "${open}"`);
+	}
+}
+
+export function parsePythonLiteral(text: string): unknown {
+	return new PythonLiteralParser(text).parse();
+}
+
+/**
+ * Decode a tool return into a JSON value. Returns arrive as JSON, as Python
+ * reprs, or as a JSON string wrapping either; plain text that is neither
+ * comes back unchanged.
+ */
+export function parseToolReturn(toolReturn: unknown): unknown {
+	let value: unknown = toolReturn;
+	// A few layers at most; deeper nesting is text that happens to be quoted
+	for (let depth = 0; depth < 3 && typeof value === "string"; depth++) {
+		const text = value.trim();
+		if (!text) return value;
+
+		let decoded: unknown;
+		try {
+			decoded = JSON.parse(text);
+		} catch (jsonError) {
+			try {
+				decoded = parsePythonLiteral(text);
+			} catch (pythonError) {
+				return value;
+			}
+		}
+
+		// A bare word such as an enum name decodes to itself
+		if (decoded === text) return value;
+		value = decoded;
+	}
+	return value;
+}
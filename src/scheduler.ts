@@ -0,0 +1,14 @@
+export type TimerHandle = ReturnType<typeof setTimeout>;
+
+// Clock and timers for background retries; tests pass their own to check waits without sleeping
+export interface Scheduler {
+	now(): number;
+	setTimeout(callback: () => void, ms: number): TimerHandle;
+	clearTimeout(handle: TimerHandle): void;
+}
+
+export const timerScheduler: Scheduler = {
+	now: () => Date.now(),
+	setTimeout: (callback, ms) => setTimeout(callback, ms),
+	clearTimeout: (handle) => clearTimeout(handle),
+};
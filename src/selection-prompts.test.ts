@@ -0,0 +1,144 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import type { Editor } from "obsidian";
+import {
+	buildInlinePrompt,
+	buildSelectionPrompt,
+	readEditorContext,
+	readSelectionContext,
+} from "./selection-prompts";
+
+// Just enough of Obsidian's Editor for readSelectionContext, over a single line of text
+function fakeEditor(text: string, from: number, to = from): Editor {
+	const editor = {
+		getValue: () => text,
+		getCursor: (which: "from" | "to") => ({ line: 0, ch: which === "to" ? to : from }),
+		posToOffset: (pos: { line: number; ch: number }) => pos.ch,
+	};
+	return editor as unknown as Editor;
+}
+
+describe("readSelectionContext", () => {
+	const text = "Intro. The selected part. Outro.";
+	const from = text.indexOf("The");
+	const to = text.indexOf(" Outro");
+
+	it("reads the selection and the text on either side", () => {
+		assert.deepEqual(readSelectionContext(fakeEditor(text, from, to), "Notes/a.md", true), {
+			path: "Notes/a.md",
+			selection: "The selected part.",
+			before: "Intro. ",
+			after: " Outro.",
+		});
+	});
+
+	it("leaves out the note for a hidden note", () => {
+		assert.deepEqual(readSelectionContext(fakeEditor(text, from, to), "Private/a.md", false), {
+			path: null,
+			selection: "The selected part.",
+			before: "",
+			after: "",
+		});
+	});
+
+	it("uses the text before the cursor when nothing is selected", () => {
+		assert.equal(readSelectionContext(fakeEditor(text, from), "Notes/a.md", true).selection, "Intro. ");
+	});
+
+	it("limits the surrounding text", () => {
+		const long = `${"a".repeat(5000)}[x]${"b".repeat(5000)}`;
+		const context = readSelectionContext(fakeEditor(long, 5000, 5003), null, true);
+		assert.equal(context.selection, "[x]");
+		assert.equal(context.before.length, 1500);
+		assert.equal(context.after.length, 1500);
+	});
+});
+
+describe("buildSelectionPrompt", () => {
+	const context = {
+		path: "Notes/a.md",
+		selection: "The selected part.",
+		before: "Intro. ",
+		after: " Outro.",
+	};
+
+	it("puts the instruction first, then the selection and its surroundings", () => {
+		assert.equal(
+			buildSelectionPrompt("explain", context),
+			[
+				"Explain the selected passage.",
+				"**Selected text from Notes/a.md:**\n```\nThe selected part.\n```",
+				"**Surrounding text** (<<selection>> marks the selection):\n```\nIntro. <<selection>> Outro.\n```",
+			].join("\n\n"),
+		);
+	});
+
+	it("asks the user's question", () => {
+		assert.match(buildSelectionPrompt("ask", context, "Who wrote this?"), /^Who wrote this\?\n\n/);
+	});
+
+	it("labels the text to continue", () => {
+		const prompt = buildSelectionPrompt("continue", { ...context, before: "", after: "" });
+		assert.match(prompt, /^Continue writing/);
+		assert.match(prompt, /\*\*Text so far from Notes\/a\.md:\*\*/);
+		assert.doesNotMatch(prompt, /Surrounding text/);
+	});
+
+	it("leaves out the source of a hidden note", () => {
+		const prompt = buildSelectionPrompt("summarize", { path: null, selection: "x", before: "", after: "" });
+		assert.match(prompt, /\*\*Selected text:\*\*/);
+	});
+
+	it("fences text containing backticks with a longer fence", () => {
+		const prompt = buildSelectionPrompt("explain", {
+			path: null,
+			selection: "```js\ncode()\n```",
+			before: "",
+			after: "",
+		});
+		assert.ok(prompt.includes("````\n```js\ncode()\n```\n````"));
+	});
+});
+
+describe("readEditorContext", () => {
+	it("reads the text on either side of the cursor when nothing is selected", () => {
+		const text = "Before after";
+		assert.deepEqual(readEditorContext(fakeEditor(text, 7), "Notes/a.md", true), {
+			path: "Notes/a.md",
+			selection: "",
+			before: "Before ",
+			after: "after",
+		});
+	});
+});
+
+describe("buildInlinePrompt", () => {
+	it("asks for replacement text for a selection", () => {
+		const prompt = buildInlinePrompt(" Make it formal ", {
+			path: "Notes/a.md",
+			selection: "hey there",
+			before: "Intro. ",
+			after: "",
+		});
+		assert.match(prompt, /^Make it formal\n\nReply with only the text to replace the selection with\./);
+		assert.ok(prompt.includes("**Selected text from Notes/a.md:**\n```\nhey there\n```"));
+		assert.ok(prompt.includes("(<<selection>> marks the selection):\n```\nIntro. <<selection>>\n```"));
+	});
+
+	it("marks the cursor when inserting", () => {
+		const prompt = buildInlinePrompt("Add a conclusion", {
+			path: "Notes/a.md",
+			selection: "",
+			before: "Intro. ",
+			after: " Outro.",
+		});
+		assert.match(prompt, /Reply with only the text to insert at the cursor\./);
+		assert.doesNotMatch(prompt, /Selected text/);
+		assert.ok(prompt.includes("**Note text from Notes/a.md** (<<cursor>> marks the cursor):\n```\nIntro. <<cursor>> Outro.\n```"));
+	});
+
+	it("sends only the instruction for a hidden note with nothing selected", () => {
+		const prompt = buildInlinePrompt("Write a haiku", { path: null, selection: "", before: "", after: "" });
+		assert.equal(prompt.split("\n\n").length, 2);
+	});
+});
@@ -0,0 +1,219 @@
+import { App, Editor, Modal } from "obsidian";
+
+export type SelectionAction = "ask" | "explain" | "summarize" | "continue";
+
+export interface SelectionActionInfo {
+	id: SelectionAction;
+	name: string; // Command palette and editor menu title
+	icon: string;
+	needsSelection: boolean; // Continue writing also works from the cursor
+}
+
+export const SELECTION_ACTIONS: SelectionActionInfo[] = [
+	{ id: "ask", name: "Ask Letta about selection", icon: "message-circle-question", needsSelection: true },
+	{ id: "explain", name: "Explain selection with Letta", icon: "lightbulb", needsSelection: true },
+	{ id: "summarize", name: "Summarize selection with Letta", icon: "list", needsSelection: true },
+	{ id: "continue", name: "Continue writing with Letta", icon: "pen-line", needsSelection: false },
+];
+
+// How much of the note on each side of the selection goes with it
+const CONTEXT_CHARS = 1500;
+const SELECTION_MARKER = "<<selection>>";
+const CURSOR_MARKER = "<<cursor>>";
+
+export interface SelectionContext {
+	path: string | null; // Null when the note is hidden from the agent
+	selection: string; // For continue writing without a selection, the text before the cursor
+	before: string; // Surrounding note text, empty when the note is hidden
+	after: string;
+}
+
+// Read the selection and the note text around it from the editor
+export function readSelectionContext(
+	editor: Editor,
+	path: string | null,
+	includeNote: boolean,
+): SelectionContext {
+	const text = editor.getValue();
+	const from = editor.posToOffset(editor.getCursor("from"));
+	const to = editor.posToOffset(editor.getCursor("to"));
+
+	if (from === to) {
+		// Nothing selected: the text leading up to the cursor is what gets continued
+		return {
+			path: includeNote ? path : null,
+			selection: text.substring(Math.max(0, from - CONTEXT_CHARS), from),
+			before: "",
+			after: "",
+		};
+	}
+	return readEditorContext(editor, path, includeNote);
+}
+
+// Read the selection, empty when there is none, and the note text on either side of it
+export function readEditorContext(
+	editor: Editor,
+	path: string | null,
+	includeNote: boolean,
+): SelectionContext {
+	const text = editor.getValue();
+	const from = editor.posToOffset(editor.getCursor("from"));
+	const to = editor.posToOffset(editor.getCursor("to"));
+
+	return {
+		path: includeNote ? path : null,
+		selection: text.substring(from, to),
+		before: includeNote ? text.substring(Math.max(0, from - CONTEXT_CHARS), from) : "",
+		after: includeNote ? text.substring(to, to + CONTEXT_CHARS) : "",
+	};
+}
+
+// A code fence longer than any run of backticks in the text, so the text can't close it
+function fenceFor(text: string): string {
+	const longest = Math.max(0, ...(text.match(/`+/g) || []).map((run) => run.length));
+	return "`".repeat(Math.max(3, longest + 1));
+}
+
+function fenced(text: string): string {
+	const fence = fenceFor(text);
+	return `${fence}\n${text}\n${fence}`;
+}
+
+function instructionFor(action: SelectionAction, question: string | null): string {
+	switch (action) {
+		case "ask":
+			return question?.trim() || "What can you tell me about this passage?";
+		case "explain":
+			return "Explain the selected passage.";
+		case "summarize":
+			return "Summarize the selected passage.";
+		case "continue":
+			return "Continue writing from where this text leaves off. Match its voice and formatting, and reply with only the new text.";
+	}
+}
+
+// The chat message sent to the agent for a selection action
+export function buildSelectionPrompt(
+	action: SelectionAction,
+	context: SelectionContext,
+	question: string | null = null,
+): string {
+	const label = action === "continue" ? "Text so far" : "Selected text";
+	const source = context.path ? ` from ${context.path}` : "";
+	const parts = [instructionFor(action, question), `**${label}${source}:**\n${fenced(context.selection)}`];
+
+	if (context.before.trim() || context.after.trim()) {
+		const surrounding = `${context.before}${SELECTION_MARKER}${context.after}`;
+		parts.push(
+			`**Surrounding text** (${SELECTION_MARKER} marks the selection):\n${fenced(surrounding)}`,
+		);
+	}
+	return parts.join("\n\n");
+}
+
+// The message for a reply written into the note: it replaces the selection, or
+// goes in at the cursor when nothing is selected
+export function buildInlinePrompt(instruction: string, context: SelectionContext): string {
+	const replacing = context.selection.length > 0;
+	const source = context.path ? ` from ${context.path}` : "";
+	const parts = [
+		instruction.trim(),
+		replacing
+			? "Reply with only the text to replace the selection with. It goes straight into the note, so leave out any commentary and don't wrap it in a code fence."
+			: "Reply with only the text to insert at the cursor. It goes straight into the note, so leave out any commentary and don't wrap it in a code fence.",
+	];
+
+	if (replacing) {
+		parts.push(`**Selected text${source}:**\n${fenced(context.selection)}`);
+	}
+	if (context.before.trim() || context.after.trim()) {
+		const marker = replacing ? SELECTION_MARKER : CURSOR_MARKER;
+		const label = replacing ? "Surrounding text" : `Note text${source}`;
+		parts.push(
+			`**${label}** (${marker} marks the ${replacing ? "selection" : "cursor"}):\n${fenced(`${context.before}${marker}${context.after}`)}`,
+		);
+	}
+	return parts.join("\n\n");
+}
+
+// Wording of the question dialog
+export interface QuestionDialog {
+	title: string;
+	placeholder: string;
+	submitText: string;
+}
+
+const ASK_DIALOG: QuestionDialog = {
+	title: "Ask Letta about selection",
+	placeholder: "What would you like to know?",
+	submitText: "Ask",
+};
+
+class SelectionQuestionModal extends Modal {
+	private selection: string;
+	private dialog: QuestionDialog;
+	private resolve: (question: string | null) => void;
+	private submitted = false;
+
+	constructor(
+		app: App,
+		selection: string,
+		dialog: QuestionDialog,
+		resolve: (question: string | null) => void,
+	) {
+		super(app);
+		this.selection = selection;
+		this.dialog = dialog;
+		this.resolve = resolve;
+	}
+
+	onOpen() {
+		this.setTitle(this.dialog.title);
+		const { contentEl } = this;
+
+		if (this.selection.trim()) {
+			const preview = this.selection.length > 200 ? `${this.selection.substring(0, 200)}…` : this.selection;
+			contentEl.createEl("blockquote", { cls: "letta-selection-preview", text: preview });
+		}
+
+		const input = contentEl.createEl("textarea", {
+			cls: "letta-selection-question",
+			attr: { placeholder: this.dialog.placeholder, rows: "3" },
+		});
+		input.addEventListener("keydown", (event: KeyboardEvent) => {
+			if (event.key === "Enter" && !event.shiftKey) {
+				event.preventDefault();
+				this.submit(input.value);
+			}
+		});
+
+		const buttons = contentEl.createEl("div", { cls: "modal-button-container" });
+		const askButton = buttons.createEl("button", { text: this.dialog.submitText, cls: "mod-cta" });
+		askButton.addEventListener("click", () => this.submit(input.value));
+		const cancelButton = buttons.createEl("button", { text: "Cancel" });
+		cancelButton.addEventListener("click", () => this.close());
+
+		input.focus();
+	}
+
+	private submit(question: string) {
+		if (!question.trim()) return;
+		this.submitted = true;
+		this.resolve(question.trim());
+		this.close();
+	}
+
+	onClose() {
+		if (!this.submitted) this.resolve(null);
+		this.contentEl.empty();
+	}
+}
+
+// Resolves to the question typed, or null if the dialog was dismissed
+export function promptForQuestion(
+	app: App,
+	selection: string,
+	dialog: QuestionDialog = ASK_DIALOG,
+): Promise<string | null> {
+	return new Promise((resolve) => new SelectionQuestionModal(app, selection, dialog, resolve).open());
+}
@@ -0,0 +1,30 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { quoteHeaderValue, uploadName, vaultPathFromUploadName } from "./sync";
+
+describe("uploadName", () => {
+	it("encodes folders with __ separators", () => {
+		assert.equal(uploadName("folder/subfolder/file.md"), "folder__subfolder__file.md");
+		assert.equal(uploadName("file.md"), "file.md");
+	});
+});
+
+describe("vaultPathFromUploadName", () => {
+	it("decodes __ separators back to folders", () => {
+		assert.equal(vaultPathFromUploadName("folder__subfolder__file.md"), "folder/subfolder/file.md");
+	});
+
+	it("prefers a vault note whose name holds __", () => {
+		assert.equal(vaultPathFromUploadName("a__b.md", ["x.md", "a__b.md"]), "a__b.md");
+	});
+});
+
+describe("quoteHeaderValue", () => {
+	it("quotes plain names as they are", () => {
+		assert.equal(quoteHeaderValue("notes__plan.md"), '"notes__plan.md"');
+	});
+
+	it("percent-encodes quotes, backslashes and line breaks", () => {
+		assert.equal(quoteHeaderValue('a"b\\c\r\nd.md'), '"a%22b%5Cc%0D%0Ad.md"');
+	});
+});
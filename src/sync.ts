@@ -0,0 +1,649 @@
+import { Notice, TAbstractFile, TFile } from "obsidian";
+import type LettaPlugin from "../main";
+
+// Instructions attached to the Letta folder that holds the vault files
+const SYNC_FOLDER_INSTRUCTIONS =
+	"A collection of markdown files from an Obsidian vault. Folder paths are encoded in file names with __ separators (folder__subfolder__note.md is folder/subfolder/note.md).";
+
+// Letta rate-limits file uploads, so keep well under the documented ceiling
+const MAX_UPLOADS_PER_MINUTE = 10;
+
+// Page size used when listing the files already in the Letta folder
+const FILE_LIST_PAGE_SIZE = 100;
+
+// Delay before a modified note is uploaded, so typing doesn't trigger an upload per save
+const CHANGE_DEBOUNCE_MS = 5000;
+
+// Number of file operations between manifest saves during a full sync
+const MANIFEST_SAVE_INTERVAL = 10;
+
+export interface SyncManifestEntry {
+	hash: string; // SHA-256 of the uploaded content ("" when only known from the server)
+	fileId: string; // Letta file ID of the uploaded copy
+	lastSynced: number; // When the note was last uploaded (ms since epoch)
+}
+
+// Persisted in plugin data so a restart doesn't force a full re-upload
+export interface SyncManifest {
+	agentId: string; // Agent the folder was last attached to
+	folderId: string; // Letta folder the files were uploaded into
+	files: Record<string, SyncManifestEntry>; // Keyed by vault path
+}
+
+export interface SyncResult {
+	uploaded: number;
+	renamed: number;
+	deleted: number;
+	skipped: number;
+	failed: number;
+}
+
+interface LocalNote {
+	file: TFile;
+	content: string;
+	hash: string;
+}
+
+// Folder separators in the vault path become "__", so Projects/Plan.md is uploaded as Projects__Plan.md
+export function uploadName(path: string): string {
+	return path.split("/").join("__");
+}
+
+// The vault path an uploaded file came from, preferring a note in `vaultPaths` whose
+// name already held "__" over a folder path that encodes the same way
+export function vaultPathFromUploadName(name: string, vaultPaths: string[] = []): string {
+	return vaultPaths.find((path) => uploadName(path) === name) ?? name.split("__").join("/");
+}
+
+// A quoted multipart header parameter; quotes, backslashes and line breaks in the
+// value would otherwise end the header early
+export function quoteHeaderValue(value: string): string {
+	return `"${value.replace(/["\\\r\n]/g, (char) => encodeURIComponent(char))}"`;
+}
+
+export async function hashContent(content: string): Promise<string> {
+	const digest = await crypto.subtle.digest(
+		"SHA-256",
+		new TextEncoder().encode(content),
+	);
+	return Array.from(new Uint8Array(digest))
+		.map((byte) => byte.toString(16).padStart(2, "0"))
+		.join("");
+}
+
+/**
+ * Keeps a Letta folder in step with the markdown files in the vault.
+ *
+ * The engine tracks every uploaded note in a manifest keyed by vault path,
+ * recording a hash of the content that was uploaded. A sync only uploads notes
+ * whose content hash changed, and a note that disappeared from one path while
+ * identical content appeared at another is treated as a rename. The manifest is
+ * persisted in plugin data so it survives restarts.
+ */
+export class VaultSyncEngine {
+	private plugin: LettaPlugin;
+	private statusBarItem: HTMLElement | null;
+	private folderId: string | null = null;
+	private attachedAgentId: string | null = null;
+	private manifest: Map<string, SyncManifestEntry> = new Map();
+	private manifestLoaded = false;
+	private isSyncing = false;
+	private changeTimers: Map<string, ReturnType<typeof setTimeout>> =
+		new Map();
+
+	// Rate limiter for file uploads
+	private uploadQueue: Array<() => Promise<void>> = [];
+	private uploadsInLastMinute: number[] = [];
+	private isProcessingQueue = false;
+
+	constructor(plugin: LettaPlugin, statusBarItem: HTMLElement | null) {
+		this.plugin = plugin;
+		this.statusBarItem = statusBarItem;
+	}
+
+	get syncing(): boolean {
+		return this.isSyncing;
+	}
+
+	// Forget the folder and manifest, e.g. after switching agents
+	reset(): void {
+		this.folderId = null;
+		this.attachedAgentId = null;
+		this.manifest.clear();
+		this.manifestLoaded = false;
+		this.cancelPendingChanges();
+		this.setProgress(null);
+	}
+
+	cancelPendingChanges(): void {
+		this.changeTimers.forEach((timer) => clearTimeout(timer));
+		this.changeTimers.clear();
+	}
+
+	isSyncable(file: TAbstractFile): file is TFile {
+		return file instanceof TFile && file.extension === "md";
+	}
+
+	async syncVault(): Promise<SyncResult | null> {
+		if (this.isSyncing) {
+			new Notice("Vault sync is already running");
+			return null;
+		}
+
+		if (!this.plugin.agent) {
+			new Notice("Connecting to Letta...");
+			const connected = await this.plugin.connectToLetta();
+			if (!connected || !this.plugin.agent) {
+				new Notice("Connect to an agent before syncing the vault");
+				return null;
+			}
+		}
+
+		const result: SyncResult = {
+			uploaded: 0,
+			renamed: 0,
+			deleted: 0,
+			skipped: 0,
+			failed: 0,
+		};
+
+		this.isSyncing = true;
+		this.setProgress("Preparing sync...");
+
+		try {
+			const folderId = await this.ensureFolder();
+			await this.loadManifest(folderId);
+
+			// Notes hidden by the visibility rules count as gone, so they are removed from Letta
+			const vaultFiles = this.plugin.visibility.filterVisible(
+				this.plugin.app.vault
+					.getMarkdownFiles()
+					.filter((file) => this.isSyncable(file)),
+			);
+			const vaultPaths = new Set(vaultFiles.map((file) => file.path));
+
+			// Hash every note and keep only those whose content changed
+			const changed: LocalNote[] = [];
+			const emptied: string[] = [];
+			for (const file of vaultFiles) {
+				const note = await this.readNote(file);
+				if (!note) {
+					if (this.manifest.has(file.path)) {
+						emptied.push(file.path);
+					} else {
+						result.skipped++;
+					}
+				} else if (this.manifest.get(file.path)?.hash === note.hash) {
+					result.skipped++;
+				} else {
+					changed.push(note);
+				}
+			}
+
+			const stalePaths = Array.from(this.manifest.keys()).filter(
+				(path) => !vaultPaths.has(path),
+			);
+
+			// Content that vanished from one path and appeared unchanged at a new one was renamed
+			const staleByHash = new Map<string, string>();
+			stalePaths.forEach((path) => {
+				const hash = this.manifest.get(path)?.hash;
+				if (hash) staleByHash.set(hash, path);
+			});
+
+			const renames: Array<{ note: LocalNote; oldPath: string }> = [];
+			const uploads: LocalNote[] = [];
+			changed.forEach((note) => {
+				const oldPath = this.manifest.has(note.file.path)
+					? undefined
+					: staleByHash.get(note.hash);
+				if (oldPath) {
+					staleByHash.delete(note.hash);
+					renames.push({ note, oldPath });
+				} else {
+					uploads.push(note);
+				}
+			});
+
+			const renamedFrom = new Set(renames.map((r) => r.oldPath));
+			const deletes = stalePaths
+				.filter((path) => !renamedFrom.has(path))
+				.concat(emptied);
+
+			const total = uploads.length + renames.length + deletes.length;
+			let processed = 0;
+			const step = async () => {
+				processed++;
+				if (processed % MANIFEST_SAVE_INTERVAL === 0) {
+					await this.saveManifest();
+				}
+			};
+
+			for (const note of uploads) {
+				this.setProgress(`Syncing ${processed + 1}/${total}`);
+				try {
+					await this.uploadNote(folderId, note);
+					result.uploaded++;
+				} catch (error) {
+					console.error(
+						`[Letta Plugin] Failed to upload ${note.file.path}:`,
+						error,
+					);
+					result.failed++;
+				}
+				await step();
+			}
+
+			for (const { note, oldPath } of renames) {
+				this.setProgress(`Syncing ${processed + 1}/${total}`);
+				try {
+					await this.renameRemoteFile(folderId, oldPath, note);
+					result.renamed++;
+				} catch (error) {
+					console.error(
+						`[Letta Plugin] Failed to rename ${oldPath} to ${note.file.path}:`,
+						error,
+					);
+					result.failed++;
+				}
+				await step();
+			}
+
+			for (const path of deletes) {
+				this.setProgress(`Syncing ${processed + 1}/${total}`);
+				try {
+					await this.deleteRemoteFile(folderId, path);
+					result.deleted++;
+				} catch (error) {
+					console.error(
+						`[Letta Plugin] Failed to delete ${path} from Letta:`,
+						error,
+					);
+					result.failed++;
+				}
+				await step();
+			}
+
+			await this.saveManifest();
+			new Notice(this.describeResult(result));
+			return result;
+		} catch (error: any) {
+			console.error("[Letta Plugin] Vault sync failed:", error);
+			new Notice(`Sync failed: ${error.message}`);
+			return null;
+		} finally {
+			this.isSyncing = false;
+			this.setProgress(null);
+		}
+	}
+
+	async syncFile(file: TFile): Promise<void> {
+		if (!this.isSyncable(file)) {
+			new Notice("Only markdown files can be synced to Letta");
+			return;
+		}
+
+		if (this.plugin.visibility.isExcluded(file)) {
+			new Notice(`${file.name} is hidden from the agent and can't be synced`);
+			return;
+		}
+
+		if (!this.plugin.agent) {
+			new Notice("Connect to an agent before syncing files");
+			return;
+		}
+
+		try {
+			this.setProgress(`Syncing ${file.name}...`);
+			const folderId = await this.ensureFolder();
+			await this.loadManifest(folderId);
+			const note = await this.readNote(file);
+			if (!note) {
+				new Notice(`${file.name} is empty and was not synced`);
+				return;
+			}
+			if (this.manifest.get(file.path)?.hash !== note.hash) {
+				await this.uploadNote(folderId, note);
+				await this.saveManifest();
+			}
+			new Notice(`Synced ${file.name} to Letta`);
+		} catch (error: any) {
+			console.error("[Letta Plugin] Failed to sync file:", error);
+			new Notice(`Failed to sync file: ${error.message}`);
+		} finally {
+			this.setProgress(null);
+		}
+	}
+
+	// Vault event handlers - only act when auto sync is enabled and connected
+
+	onFileChange(file: TAbstractFile): void {
+		if (!this.shouldAutoSync() || !this.isSyncable(file)) return;
+
+		const existing = this.changeTimers.get(file.path);
+		if (existing) clearTimeout(existing);
+
+		this.changeTimers.set(
+			file.path,
+			setTimeout(() => {
+				this.changeTimers.delete(file.path);
+				this.runAutoSync(async (folderId) => {
+					const note = this.plugin.visibility.isExcluded(file)
+						? null
+						: await this.readNote(file);
+					if (!note) {
+						await this.deleteRemoteFile(folderId, file.path);
+					} else if (this.manifest.get(file.path)?.hash !== note.hash) {
+						await this.uploadNote(folderId, note);
+					}
+				});
+			}, CHANGE_DEBOUNCE_MS),
+		);
+	}
+
+	onFileRename(file: TAbstractFile, oldPath: string): void {
+		if (!this.shouldAutoSync()) return;
+
+		const pending = this.changeTimers.get(oldPath);
+		if (pending) {
+			clearTimeout(pending);
+			this.changeTimers.delete(oldPath);
+		}
+
+		this.runAutoSync(async (folderId) => {
+			const note =
+				this.isSyncable(file) && !this.plugin.visibility.isExcluded(file)
+					? await this.readNote(file)
+					: null;
+			if (note && this.manifest.has(oldPath)) {
+				await this.renameRemoteFile(folderId, oldPath, note);
+			} else if (note) {
+				await this.uploadNote(folderId, note);
+			} else {
+				// Renamed to a non-markdown extension or a hidden location, or emptied
+				await this.deleteRemoteFile(folderId, oldPath);
+			}
+		});
+	}
+
+	onFileDelete(file: TAbstractFile): void {
+		if (!this.shouldAutoSync()) return;
+
+		const pending = this.changeTimers.get(file.path);
+		if (pending) {
+			clearTimeout(pending);
+			this.changeTimers.delete(file.path);
+		}
+
+		this.runAutoSync(async (folderId) => {
+			await this.deleteRemoteFile(folderId, file.path);
+		});
+	}
+
+	private shouldAutoSync(): boolean {
+		return !!this.plugin.settings.autoSync && !!this.plugin.agent;
+	}
+
+	private async runAutoSync(
+		operation: (folderId: string) => Promise<void>,
+	): Promise<void> {
+		// A full sync will pick up this change anyway
+		if (this.isSyncing) return;
+
+		try {
+			const folderId = await this.ensureFolder();
+			await this.loadManifest(folderId);
+			await operation(folderId);
+			await this.saveManifest();
+		} catch (error) {
+			// Silent for auto sync - don't spam the user with notices
+			console.error("[Letta Plugin] Auto sync failed:", error);
+		}
+	}
+
+	// Find or create the Letta folder and make sure the agent can see it
+	async ensureFolder(): Promise<string> {
+		const client = this.plugin.client;
+		const agent = this.plugin.agent;
+		if (!client) throw new Error("Client not initialized");
+		if (!agent) throw new Error("No agent connected");
+
+		if (!this.folderId) {
+			const folderName = this.getFolderName();
+			const folders = await client.folders.list({ name: folderName });
+			const existing = folders.find((f) => f.name === folderName);
+
+			if (existing?.id) {
+				this.folderId = existing.id;
+			} else {
+				const created = await client.folders.create({
+					name: folderName,
+					instructions: SYNC_FOLDER_INSTRUCTIONS,
+				});
+				if (!created.id) {
+					throw new Error("Letta did not return an ID for the new folder");
+				}
+				this.folderId = created.id;
+				this.manifest.clear();
+				this.manifestLoaded = true;
+			}
+		}
+
+		if (this.attachedAgentId !== agent.id) {
+			const attached = await client.agents.folders.list(agent.id);
+			if (!attached.some((f) => f.id === this.folderId)) {
+				await client.agents.folders.attach(agent.id, this.folderId);
+			}
+			this.attachedAgentId = agent.id;
+		}
+
+		return this.folderId;
+	}
+
+	private getFolderName(): string {
+		return this.plugin.settings.sourceName.trim() || "obsidian-vault-files";
+	}
+
+	// Load the persisted manifest, or seed one from the files already in the Letta folder
+	private async loadManifest(folderId: string): Promise<void> {
+		if (this.manifestLoaded) return;
+
+		const saved = this.plugin.settings.syncManifest;
+		if (saved && saved.folderId === folderId) {
+			this.manifest.clear();
+			Object.keys(saved.files).forEach((path) => {
+				this.manifest.set(path, saved.files[path]);
+			});
+			this.manifestLoaded = true;
+			return;
+		}
+
+		const client = this.plugin.client;
+		if (!client) throw new Error("Client not initialized");
+
+		this.manifest.clear();
+		const vaultPaths = this.plugin.app.vault.getMarkdownFiles().map((file) => file.path);
+		let after: string | undefined;
+		for (;;) {
+			const page = await client.folders.files.list(folderId, {
+				limit: FILE_LIST_PAGE_SIZE,
+				after,
+			});
+			page.forEach((remote) => {
+				if (!remote.id || !remote.fileName) return;
+				// The uploaded content is unknown, so the next sync re-uploads it once
+				this.manifest.set(vaultPathFromUploadName(remote.fileName, vaultPaths), {
+					hash: "",
+					fileId: remote.id,
+					lastSynced: remote.updatedAt
+						? new Date(remote.updatedAt).getTime()
+						: 0,
+				});
+			});
+			if (page.length < FILE_LIST_PAGE_SIZE) break;
+			after = page[page.length - 1].id;
+			if (!after) break;
+		}
+		this.manifestLoaded = true;
+	}
+
+	private async saveManifest(): Promise<void> {
+		if (!this.folderId || !this.manifestLoaded) return;
+
+		const files: Record<string, SyncManifestEntry> = {};
+		this.manifest.forEach((entry, path) => {
+			files[path] = entry;
+		});
+
+		this.plugin.settings.syncManifest = {
+			agentId: this.attachedAgentId ?? this.plugin.agent?.id ?? "",
+			folderId: this.folderId,
+			files,
+		};
+		await this.plugin.saveSettings();
+	}
+
+	// Returns null for notes without content, which are never uploaded
+	private async readNote(file: TFile): Promise<LocalNote | null> {
+		const content = await this.plugin.app.vault.cachedRead(file);
+		if (!content || content.trim().length === 0) {
+			return null;
+		}
+		return { file, content, hash: await hashContent(content) };
+	}
+
+	private async uploadNote(folderId: string, note: LocalNote): Promise<void> {
+		const { file, content, hash } = note;
+
+		await this.addToUploadQueue(async () => {
+			const name = uploadName(file.path);
+			const boundary =
+				"----formdata-obsidian-" + Math.random().toString(36).substr(2);
+			const multipartBody = [
+				`--${boundary}`,
+				`Content-Disposition: form-data; name="file"; filename=${quoteHeaderValue(name)}`,
+				"Content-Type: text/markdown",
+				"",
+				content,
+				`--${boundary}--`,
+			].join("\r\n");
+
+			const queryParams = new URLSearchParams({
+				name,
+				duplicate_handling: "replace",
+			});
+
+			const uploaded = await this.plugin.makeRequest(
+				`/v1/folders/${folderId}/upload?${queryParams}`,
+				{
+					method: "POST",
+					headers: {
+						"Content-Type": `multipart/form-data; boundary=${boundary}`,
+					},
+					body: multipartBody,
+					isFileUpload: true,
+				},
+			);
+
+			this.manifest.set(file.path, {
+				hash,
+				fileId: uploaded?.id ?? this.manifest.get(file.path)?.fileId ?? "",
+				lastSynced: Date.now(),
+			});
+		});
+	}
+
+	// Letta has no endpoint to rename a file, so upload under the new path and drop the old copy
+	private async renameRemoteFile(
+		folderId: string,
+		oldPath: string,
+		note: LocalNote,
+	): Promise<void> {
+		await this.uploadNote(folderId, note);
+		await this.deleteRemoteFile(folderId, oldPath);
+	}
+
+	private async deleteRemoteFile(folderId: string, path: string): Promise<void> {
+		const entry = this.manifest.get(path);
+		if (!entry) return;
+
+		if (entry.fileId) {
+			try {
+				await this.plugin.makeRequest(
+					`/v1/folders/${folderId}/${entry.fileId}`,
+					{ method: "DELETE" },
+				);
+			} catch (error: any) {
+				// Already gone on the server - nothing left to delete
+				if (!error.message?.includes("HTTP 404")) throw error;
+			}
+		}
+
+		this.manifest.delete(path);
+	}
+
+	private async addToUploadQueue(
+		uploadFn: () => Promise<void>,
+	): Promise<void> {
+		return new Promise((resolve, reject) => {
+			this.uploadQueue.push(async () => {
+				try {
+					await uploadFn();
+					resolve();
+				} catch (error) {
+					reject(error);
+				}
+			});
+
+			if (!this.isProcessingQueue) {
+				this.processUploadQueue();
+			}
+		});
+	}
+
+	private async processUploadQueue(): Promise<void> {
+		if (this.isProcessingQueue || this.uploadQueue.length === 0) {
+			return;
+		}
+
+		this.isProcessingQueue = true;
+
+		while (this.uploadQueue.length > 0) {
+			// Clean up old timestamps (older than 1 minute)
+			const oneMinuteAgo = Date.now() - 60000;
+			this.uploadsInLastMinute = this.uploadsInLastMinute.filter(
+				(timestamp) => timestamp > oneMinuteAgo,
+			);
+
+			if (this.uploadsInLastMinute.length >= MAX_UPLOADS_PER_MINUTE) {
+				const oldestUpload = Math.min(...this.uploadsInLastMinute);
+				const waitTime = oldestUpload + 60000 - Date.now();
+				await new Promise((resolve) => setTimeout(resolve, waitTime));
+				continue;
+			}
+
+			const uploadFn = this.uploadQueue.shift();
+			if (uploadFn) {
+				// Errors are surfaced to the caller through the queued promise
+				await uploadFn();
+				this.uploadsInLastMinute.push(Date.now());
+			}
+		}
+
+		this.isProcessingQueue = false;
+	}
+
+	private setProgress(text: string | null): void {
+		if (!this.statusBarItem) return;
+		this.statusBarItem.setText(text ? `Letta: ${text}` : "");
+	}
+
+	private describeResult(result: SyncResult): string {
+		const parts = [`${result.uploaded} uploaded`];
+		if (result.renamed > 0) parts.push(`${result.renamed} renamed`);
+		if (result.deleted > 0) parts.push(`${result.deleted} deleted`);
+		parts.push(`${result.skipped} unchanged`);
+		if (result.failed > 0) parts.push(`${result.failed} failed`);
+		return `Sync complete: ${parts.join(", ")}`;
+	}
+}
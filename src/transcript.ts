@@ -0,0 +1,254 @@
+import type LettaPlugin from "../main";
+import { messagePages, messageText, messageType } from "./history-search";
+import { parseToolReturn } from "./python-literal";
+
+export interface TranscriptOptions {
+	agentName: string;
+	agentId: string;
+	linkFor(path: string): string; // Wikilink for a vault path, or the path itself if it is gone
+}
+
+interface TranscriptStats {
+	userMessages: number;
+	assistantMessages: number;
+	toolCalls: Record<string, number>;
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+}
+
+// Tool arguments that name a note in the vault
+const PATH_ARGUMENTS = ["path", "file_path"];
+
+// Mention context appended to user messages by the chat view
+const MENTION_PATTERN = /\n*---\n\*\*Context from (.+?):\*\*\n```\n[\s\S]*?\n```/g;
+
+function parseArguments(toolCall: any): Record<string, any> {
+	const args = toolCall?.arguments ?? toolCall?.function?.arguments;
+	if (!args) return {};
+	if (typeof args === "object") return args;
+	try {
+		return JSON.parse(args);
+	} catch (error) {
+		return {};
+	}
+}
+
+// Prefix every line so multi-line content stays inside the callout
+function quote(text: string): string {
+	return text
+		.split("\n")
+		.map((line) => (line ? `> ${line}` : ">"))
+		.join("\n");
+}
+
+function fence(text: string, language = ""): string {
+	const longest = Math.max(2, ...(text.match(/`+/g) || []).map((run) => run.length));
+	const marker = "`".repeat(longest + 1);
+	return `${marker}${language}\n${text}\n${marker}`;
+}
+
+function formatToolReturn(toolReturn: any): string {
+	const parsed = parseToolReturn(toolReturn);
+	return typeof parsed === "string" ? parsed : JSON.stringify(parsed, null, 2);
+}
+
+function inRange(message: any, from: Date | null, to: Date | null): boolean {
+	if (!message.date) return true;
+	const time = new Date(message.date).getTime();
+	if (from && time < from.getTime()) return false;
+	if (to && time > to.getTime()) return false;
+	return true;
+}
+
+/**
+ * Fetch the agent's messages, oldest first, walking back through history
+ * until the start of the range (or of the conversation).
+ */
+export async function fetchConversation(
+	plugin: LettaPlugin,
+	agentId: string,
+	from: Date | null,
+	to: Date | null,
+): Promise<any[]> {
+	const messages: any[] = [];
+	const seen = new Set<string>();
+
+	for await (const page of messagePages(plugin, agentId)) {
+		page.forEach((message: any) => {
+			const key = `${message.id}:${messageType(message)}`;
+			if (!seen.has(key)) {
+				seen.add(key);
+				messages.push(message);
+			}
+		});
+
+		const oldest = page.find((message: any) => message.date);
+		if (from && oldest && new Date(oldest.date).getTime() < from.getTime()) break;
+	}
+
+	return messages
+		.filter((message) => inRange(message, from, to))
+		.sort(
+			(a, b) => new Date(a.date).getTime() - new Date(b.date).getTime(),
+		);
+}
+
+/**
+ * Render messages as a Markdown note: user and assistant turns as text,
+ * reasoning and tool calls as collapsed callouts, then usage stats and links
+ * to every note the agent touched or the user mentioned.
+ */
+export function buildTranscript(messages: any[], options: TranscriptOptions): string {
+	const stats: TranscriptStats = {
+		userMessages: 0,
+		assistantMessages: 0,
+		toolCalls: {},
+		promptTokens: 0,
+		completionTokens: 0,
+		totalTokens: 0,
+	};
+	const touched = new Set<string>();
+	const mentioned = new Set<string>();
+	const body: string[] = [];
+
+	messages.forEach((message) => {
+		const time = message.date ? new Date(message.date).toLocaleString() : "";
+
+		switch (messageType(message)) {
+			case "user_message": {
+				let text = messageText(message);
+				// Login and heartbeat payloads are JSON the user never typed
+				if (/^\s*\{[\s\S]*"type"\s*:\s*"(login|heartbeat|system_alert)"/.test(text)) {
+					return;
+				}
+
+				const mentions: string[] = [];
+				text = text.replace(MENTION_PATTERN, (_match, path: string) => {
+					mentions.push(path);
+					mentioned.add(path);
+					return "";
+				});
+
+				stats.userMessages++;
+				body.push(`### You${time ? ` · ${time}` : ""}`, "", text.trim());
+				if (mentions.length > 0) {
+					body.push("", `Mentioned: ${mentions.map((path) => options.linkFor(path)).join(", ")}`);
+				}
+				body.push("");
+				break;
+			}
+
+			case "assistant_message":
+				stats.assistantMessages++;
+				body.push(
+					`### ${options.agentName}${time ? ` · ${time}` : ""}`,
+					"",
+					messageText(message).trim(),
+					"",
+				);
+				break;
+
+			case "reasoning_message":
+				if (message.reasoning) {
+					body.push(quote(`[!quote]- Reasoning\n${message.reasoning.trim()}`), "");
+				}
+				break;
+
+			case "tool_call_message": {
+				const toolCall = message.tool_call || message.toolCall;
+				const name = toolCall?.name || toolCall?.function?.name || "unknown";
+				const args = parseArguments(toolCall);
+				stats.toolCalls[name] = (stats.toolCalls[name] || 0) + 1;
+
+				PATH_ARGUMENTS.forEach((key) => {
+					if (typeof args[key] === "string" && args[key].trim()) {
+						touched.add(args[key].trim());
+					}
+				});
+
+				body.push(
+					quote(`[!example]- Tool call: ${name}\n${fence(JSON.stringify(args, null, 2), "json")}`),
+					"",
+				);
+				break;
+			}
+
+			case "tool_return_message": {
+				const toolReturn = message.tool_return ?? message.toolReturn;
+				const failed = message.status === "error";
+				body.push(
+					quote(
+						`[!${failed ? "failure" : "success"}]- Tool result\n${fence(formatToolReturn(toolReturn))}`,
+					),
+					"",
+				);
+				break;
+			}
+
+			case "usage_statistics":
+				stats.promptTokens += message.prompt_tokens || 0;
+				stats.completionTokens += message.completion_tokens || 0;
+				stats.totalTokens += message.total_tokens || 0;
+				break;
+
+			default:
+				break;
+		}
+	});
+
+	const dates = messages
+		.map((message) => message.date)
+		.filter(Boolean)
+		.map((date) => new Date(date));
+	const first = dates[0];
+	const last = dates[dates.length - 1];
+
+	const frontmatter = [
+		"---",
+		`agent: ${JSON.stringify(options.agentName)}`,
+		`agent_id: ${options.agentId}`,
+		`exported: ${new Date().toISOString()}`,
+		...(first ? [`from: ${first.toISOString()}`] : []),
+		...(last ? [`to: ${last.toISOString()}`] : []),
+		"tags: [letta-transcript]",
+		"---",
+	];
+
+	const toolSummary = Object.keys(stats.toolCalls)
+		.sort((a, b) => stats.toolCalls[b] - stats.toolCalls[a])
+		.map((name) => `${name} (${stats.toolCalls[name]})`)
+		.join(", ");
+
+	const summary = [
+		"## Summary",
+		"",
+		`- Messages: ${stats.userMessages} from you, ${stats.assistantMessages} from ${options.agentName}`,
+		`- Tool calls: ${toolSummary || "none"}`,
+		...(stats.totalTokens > 0
+			? [
+					`- Tokens: ${stats.totalTokens} (${stats.promptTokens} prompt, ${stats.completionTokens} completion)`,
+				]
+			: []),
+		...(touched.size > 0
+			? [`- Notes the agent touched: ${Array.from(touched).map((path) => options.linkFor(path)).join(", ")}`]
+			: []),
+		...(mentioned.size > 0
+			? [`- Notes you mentioned: ${Array.from(mentioned).map((path) => options.linkFor(path)).join(", ")}`]
+			: []),
+	];
+
+	return [
+		...frontmatter,
+		"",
+		`# Conversation with ${options.agentName}`,
+		"",
+		...summary,
+		"",
+		"## Transcript",
+		"",
+		...body,
+	]
+		.join("\n")
+		.trimEnd() + "\n";
+}
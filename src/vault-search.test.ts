@@ -0,0 +1,217 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { App, TFile } from "obsidian";
+import { VaultSearchQuery, parseSearchDate, parseSearchTerms, searchVault } from "./vault-search";
+import { VaultVisibility } from "./visibility";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface FakeNote {
+	path: string;
+	content?: string;
+	mtime?: number;
+	cache?: object;
+}
+
+// An app holding `notes`, with notes matching `rules` hidden from the agent
+function vault(notes: FakeNote[], rules = ""): { app: App; visibility: VaultVisibility } {
+	const files = notes.map((fake) => {
+		const file = new TFile();
+		file.path = fake.path;
+		file.basename = fake.path.split("/").pop()?.replace(/\.md$/, "") ?? "";
+		file.stat = { mtime: fake.mtime ?? 0, ctime: 0, size: 0 };
+		return file;
+	});
+	const byPath = new Map(notes.map((fake) => [fake.path, fake]));
+	const app = {
+		vault: {
+			getMarkdownFiles: () => files,
+			cachedRead: async (file: TFile) => byPath.get(file.path)?.content ?? "",
+		},
+		metadataCache: { getFileCache: (file: TFile) => byPath.get(file.path)?.cache ?? null },
+	} as unknown as App;
+	return { app, visibility: new VaultVisibility(app, () => rules) };
+}
+
+async function search(
+	notes: FakeNote[],
+	query: Partial<VaultSearchQuery>,
+	rules = "",
+): Promise<string[]> {
+	const { app, visibility } = vault(notes, rules);
+	const response = await searchVault(app, visibility, {
+		query: "",
+		tags: [],
+		folder: "",
+		properties: [],
+		modifiedAfter: null,
+		modifiedBefore: null,
+		limit: 10,
+		...query,
+	});
+	return response.results.map((result) => result.path);
+}
+
+describe("parseSearchTerms", () => {
+	it("lower-cases keywords and keeps quoted phrases together", () => {
+		assert.deepEqual(parseSearchTerms('Garden "Raised Beds"  soil'), ["garden", "raised beds", "soil"]);
+		assert.deepEqual(parseSearchTerms(""), []);
+	});
+});
+
+describe("parseSearchDate", () => {
+	it("reads ISO dates and timestamps", () => {
+		assert.equal(parseSearchDate("2024-05-01"), Date.parse("2024-05-01"));
+		assert.equal(parseSearchDate("2024-05-01T12:00:00Z"), Date.parse("2024-05-01T12:00:00Z"));
+	});
+
+	it("stretches a bare upper-bound date to the end of that day", () => {
+		assert.equal(parseSearchDate("2024-05-01", true), Date.parse("2024-05-02") - 1);
+		assert.equal(parseSearchDate("2024-05-01T12:00:00Z", true), Date.parse("2024-05-01T12:00:00Z"));
+	});
+
+	it("counts relative offsets back from now", () => {
+		const before = Date.now();
+		const twoWeeksAgo = parseSearchDate("2w");
+		const after = Date.now();
+
+		assert.ok(twoWeeksAgo !== null);
+		assert.ok(twoWeeksAgo >= before - 14 * DAY_MS && twoWeeksAgo <= after - 14 * DAY_MS);
+		assert.ok((parseSearchDate("1m") ?? 0) < (parseSearchDate("7d") ?? 0));
+	});
+
+	it("treats an empty value as no filter and rejects anything else", () => {
+		assert.equal(parseSearchDate(""), null);
+		assert.equal(parseSearchDate(undefined), null);
+		assert.throws(() => parseSearchDate("last tuesday"), /Unrecognized date: last tuesday/);
+	});
+});
+
+describe("searchVault", () => {
+	it("ranks title matches above body matches", async () => {
+		const paths = await search(
+			[
+				{ path: "Log.md", content: "garden ".repeat(30) },
+				{ path: "Garden plan.md", content: "Beds along the garden wall" },
+			],
+			{ query: "garden" },
+		);
+
+		assert.deepEqual(paths, ["Garden plan.md", "Log.md"]);
+	});
+
+	it("favours notes matching every keyword and drops notes matching none", async () => {
+		const paths = await search(
+			[
+				{ path: "a.md", content: "tomato tomato tomato tomato" },
+				{ path: "b.md", content: "tomato in good soil" },
+				{ path: "c.md", content: "nothing relevant" },
+			],
+			{ query: "tomato soil" },
+		);
+
+		assert.deepEqual(paths, ["b.md", "a.md"]);
+	});
+
+	it("counts matches in headings", async () => {
+		const paths = await search(
+			[
+				{ path: "a.md", content: "compost compost" },
+				{ path: "b.md", content: "# Compost\nnotes", cache: { headings: [{ heading: "Compost" }] } },
+			],
+			{ query: "compost" },
+		);
+
+		assert.deepEqual(paths, ["b.md", "a.md"]);
+	});
+
+	it("lists filtered notes newest first without keywords, up to the limit", async () => {
+		const paths = await search(
+			[
+				{ path: "Work/old.md", mtime: 1 },
+				{ path: "Work/new.md", mtime: 3 },
+				{ path: "Work/middle.md", mtime: 2 },
+			],
+			{ folder: "Work", limit: 2 },
+		);
+
+		assert.deepEqual(paths, ["Work/new.md", "Work/middle.md"]);
+	});
+
+	it("keeps notes inside the folder, ignoring case and stray slashes", async () => {
+		const paths = await search(
+			[{ path: "Work/a.md" }, { path: "Work/Sub/b.md" }, { path: "Workshop/c.md" }, { path: "d.md" }],
+			{ folder: "/work/" },
+		);
+
+		assert.deepEqual(paths.sort(), ["Work/Sub/b.md", "Work/a.md"]);
+	});
+
+	it("requires every tag, counting nested tags", async () => {
+		const paths = await search(
+			[
+				{ path: "a.md", cache: { tags: [{ tag: "#project/garden" }, { tag: "#active" }] } },
+				{ path: "b.md", cache: { tags: [{ tag: "#Project" }] } },
+				{ path: "c.md", cache: { tags: [{ tag: "#projects" }, { tag: "#active" }] } },
+			],
+			{ tags: ["#project", "ACTIVE"] },
+		);
+
+		assert.deepEqual(paths, ["a.md"]);
+	});
+
+	it("keeps notes modified within the date range, bounds included", async () => {
+		const may1 = Date.parse("2024-05-01");
+		const notes = [
+			{ path: "april.md", mtime: may1 - 1 },
+			{ path: "may1.md", mtime: may1 },
+			{ path: "may1-evening.md", mtime: may1 + 20 * 60 * 60 * 1000 },
+			{ path: "may2.md", mtime: may1 + DAY_MS },
+		];
+
+		const paths = await search(notes, {
+			modifiedAfter: parseSearchDate("2024-05-01"),
+			modifiedBefore: parseSearchDate("2024-05-01", true),
+		});
+
+		assert.deepEqual(paths.sort(), ["may1-evening.md", "may1.md"]);
+	});
+
+	it("matches properties by key or by value", async () => {
+		const notes = [
+			{ path: "a.md", cache: { frontmatter: { Status: "Draft" } } },
+			{ path: "b.md", cache: { frontmatter: { status: ["done", "draft"] } } },
+			{ path: "c.md", cache: { frontmatter: { status: "" } } },
+		];
+
+		assert.deepEqual((await search(notes, { properties: ["status=draft"] })).sort(), ["a.md", "b.md"]);
+		assert.deepEqual((await search(notes, { properties: ["status"] })).sort(), ["a.md", "b.md"]);
+	});
+
+	it("leaves out notes hidden from the agent", async () => {
+		const paths = await search(
+			[{ path: "Journal/a.md", content: "garden" }, { path: "b.md", content: "garden" }],
+			{ query: "garden" },
+			"Journal/",
+		);
+
+		assert.deepEqual(paths, ["b.md"]);
+	});
+
+	it("returns snippets around the matched terms", async () => {
+		const { app, visibility } = vault([{ path: "a.md", content: `${"x ".repeat(100)}the raised beds need compost` }]);
+
+		const response = await searchVault(app, visibility, {
+			query: "compost",
+			tags: [],
+			folder: "",
+			properties: [],
+			modifiedAfter: null,
+			modifiedBefore: null,
+			limit: 10,
+		});
+
+		assert.equal(response.total, 1);
+		assert.match(response.results[0].snippets[0], /^….*the raised beds need compost$/);
+	});
+});
@@ -0,0 +1,247 @@
+import { App, getAllTags } from "obsidian";
+import type { VaultVisibility } from "./visibility";
+
+const SNIPPET_RADIUS = 80;
+const MAX_SNIPPETS = 3;
+const MAX_LIMIT = 50;
+
+export interface VaultSearchQuery {
+	query: string; // Free-text keywords, "quoted phrases" must match verbatim
+	tags: string[]; // Every tag must be present; nested tags count
+	folder: string; // Only notes inside this folder
+	properties: string[]; // "key" (property is set) or "key=value"
+	modifiedAfter: number | null; // Epoch ms, inclusive
+	modifiedBefore: number | null; // Epoch ms, inclusive
+	limit: number;
+}
+
+export interface VaultSearchResult {
+	path: string;
+	title: string;
+	score: number;
+	tags: string[];
+	modified: string;
+	snippets: string[];
+}
+
+export interface VaultSearchResponse {
+	total: number;
+	results: VaultSearchResult[];
+}
+
+interface PropertyFilter {
+	key: string;
+	value: string | null; // Null only checks that the property is set
+}
+
+// Split a query into lower-cased terms, keeping "quoted phrases" together
+export function parseSearchTerms(query: string): string[] {
+	const terms: string[] = [];
+	const pattern = /"([^"]+)"|(\S+)/g;
+	let match;
+	while ((match = pattern.exec(query || "")) !== null) {
+		const term = (match[1] ?? match[2]).trim().toLowerCase();
+		if (term) terms.push(term);
+	}
+	return terms;
+}
+
+/**
+ * Parse a date filter. Accepts ISO dates ("2024-05-01"), full timestamps and
+ * relative offsets such as "7d", "2w" or "3m" counted back from now.
+ * A bare date used as an upper bound covers that whole day.
+ */
+export function parseSearchDate(
+	value: unknown,
+	endOfDay = false,
+): number | null {
+	const text = String(value ?? "").trim();
+	if (!text) return null;
+
+	const relative = text.match(/^(\d+)\s*([dwmy])$/i);
+	if (relative) {
+		const days = { d: 1, w: 7, m: 30, y: 365 }[
+			relative[2].toLowerCase() as "d" | "w" | "m" | "y"
+		];
+		return Date.now() - Number(relative[1]) * days * 24 * 60 * 60 * 1000;
+	}
+
+	const time = Date.parse(text);
+	if (isNaN(time)) {
+		throw new Error(`Unrecognized date: ${text}`);
+	}
+	if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(text)) {
+		return time + 24 * 60 * 60 * 1000 - 1;
+	}
+	return time;
+}
+
+function parsePropertyFilters(properties: string[]): PropertyFilter[] {
+	return properties
+		.map((property) => String(property).trim())
+		.filter((property) => property.length > 0)
+		.map((property) => {
+			const separator = property.indexOf("=");
+			if (separator === -1) return { key: property, value: null };
+			return {
+				key: property.substring(0, separator).trim(),
+				value: property.substring(separator + 1).trim().toLowerCase(),
+			};
+		});
+}
+
+function normalizeTag(tag: string): string {
+	return String(tag).trim().replace(/^#/, "").toLowerCase();
+}
+
+function matchesProperty(
+	frontmatter: Record<string, any> | undefined,
+	filter: PropertyFilter,
+): boolean {
+	if (!frontmatter) return false;
+
+	// Frontmatter keys are matched case-insensitively, like Obsidian's properties view
+	const key = Object.keys(frontmatter).find(
+		(candidate) => candidate.toLowerCase() === filter.key.toLowerCase(),
+	);
+	if (key === undefined) return false;
+
+	const actual = frontmatter[key];
+	if (filter.value === null) {
+		return actual !== null && actual !== undefined && actual !== "";
+	}
+
+	const values = Array.isArray(actual) ? actual : [actual];
+	return values.some(
+		(value) => String(value).trim().toLowerCase() === filter.value,
+	);
+}
+
+// Collapse whitespace and cut a window of text around each matched term
+function buildSnippets(content: string, terms: string[]): string[] {
+	const lower = content.toLowerCase();
+	const windows: Array<[number, number]> = [];
+
+	for (const term of terms) {
+		const index = lower.indexOf(term);
+		if (index === -1) continue;
+
+		const start = Math.max(0, index - SNIPPET_RADIUS);
+		const end = Math.min(content.length, index + term.length + SNIPPET_RADIUS);
+		const overlapping = windows.find(([s, e]) => start <= e && end >= s);
+		if (overlapping) {
+			overlapping[0] = Math.min(overlapping[0], start);
+			overlapping[1] = Math.max(overlapping[1], end);
+		} else if (windows.length < MAX_SNIPPETS) {
+			windows.push([start, end]);
+		}
+	}
+
+	if (windows.length === 0) {
+		// No keyword hit, so show the start of the note without its frontmatter
+		const body = content.replace(/^---\n[\s\S]*?\n---\n?/, "").trim();
+		if (!body) return [];
+		return [body.substring(0, SNIPPET_RADIUS * 2).replace(/\s+/g, " ").trim()];
+	}
+
+	return windows
+		.sort((a, b) => a[0] - b[0])
+		.map(([start, end]) => {
+			const text = content.substring(start, end).replace(/\s+/g, " ").trim();
+			return `${start > 0 ? "…" : ""}${text}${end < content.length ? "…" : ""}`;
+		});
+}
+
+function countOccurrences(haystack: string, term: string): number {
+	return haystack.split(term).length - 1;
+}
+
+/**
+ * Search the notes the agent is allowed to see. Metadata filters narrow the
+ * candidates first, then keywords rank them: matches in the title count most,
+ * then headings, tags and properties, then the body. Without keywords the
+ * filtered notes come back newest first.
+ */
+export async function searchVault(
+	app: App,
+	visibility: VaultVisibility,
+	search: VaultSearchQuery,
+): Promise<VaultSearchResponse> {
+	const terms = parseSearchTerms(search.query);
+	const tags = search.tags.map(normalizeTag).filter((tag) => tag.length > 0);
+	const properties = parsePropertyFilters(search.properties);
+	const folder = search.folder.trim().replace(/^\/+|\/+$/g, "").toLowerCase();
+	const limit = Math.max(1, Math.min(search.limit || 10, MAX_LIMIT));
+
+	const results: VaultSearchResult[] = [];
+
+	for (const file of visibility.filterVisible(app.vault.getMarkdownFiles())) {
+		if (folder && !file.path.toLowerCase().startsWith(`${folder}/`)) continue;
+		if (search.modifiedAfter !== null && file.stat.mtime < search.modifiedAfter) continue;
+		if (search.modifiedBefore !== null && file.stat.mtime > search.modifiedBefore) continue;
+
+		const cache = app.metadataCache.getFileCache(file);
+		const noteTags = cache ? Array.from(new Set(getAllTags(cache) || [])) : [];
+		const lowerTags = noteTags.map(normalizeTag);
+
+		if (
+			!tags.every((tag) =>
+				lowerTags.some((t) => t === tag || t.startsWith(`${tag}/`)),
+			)
+		) {
+			continue;
+		}
+		if (!properties.every((filter) => matchesProperty(cache?.frontmatter, filter))) {
+			continue;
+		}
+
+		const content = await app.vault.cachedRead(file);
+		let score = 0;
+
+		if (terms.length > 0) {
+			const body = content.toLowerCase();
+			const title = file.basename.toLowerCase();
+			const headings = (cache?.headings || [])
+				.map((heading) => heading.heading.toLowerCase())
+				.join("\n");
+			const propertyText = cache?.frontmatter
+				? JSON.stringify(cache.frontmatter).toLowerCase()
+				: "";
+
+			let matchedAll = true;
+			for (const term of terms) {
+				const inTitle = title.includes(term);
+				const inBody = countOccurrences(body, term);
+				if (!inTitle && inBody === 0) {
+					matchedAll = false;
+					continue;
+				}
+
+				if (inTitle) score += 10;
+				if (headings.includes(term)) score += 4;
+				if (lowerTags.some((tag) => tag.includes(term))) score += 3;
+				if (propertyText.includes(term)) score += 2;
+				// Diminishing returns so long notes don't drown out focused ones
+				score += Math.min(inBody, 10);
+			}
+
+			if (score === 0) continue;
+			if (matchedAll && terms.length > 1) score += 5;
+		}
+
+		results.push({
+			path: file.path,
+			title: file.basename,
+			score,
+			tags: noteTags,
+			modified: new Date(file.stat.mtime).toISOString(),
+			snippets: buildSnippets(content, terms),
+		});
+	}
+
+	results.sort(
+		(a, b) => b.score - a.score || b.modified.localeCompare(a.modified),
+	);
+
+	return { total: results.length, results: results.slice(0, limit) };
+}
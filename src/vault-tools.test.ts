@@ -0,0 +1,22 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import type LettaPlugin from "../main";
+import { VaultTool, VaultToolRegistry } from "./vault-tools";
+
+// Describing a call needs nothing from the plugin
+function tool(name: string): VaultTool {
+	const found = new VaultToolRegistry({} as LettaPlugin).get(name);
+	assert.ok(found, `Expected a ${name} tool`);
+	return found;
+}
+
+describe("edit_note.describeCall", () => {
+	it("counts the patches", () => {
+		const patches = JSON.stringify([{ op: "append", content: "x" }]);
+		assert.equal(tool("edit_note").describeCall({ path: "a.md", patches }), "Edit a.md (1 change)");
+	});
+
+	it("falls back to the path when the patches aren't valid JSON", () => {
+		assert.equal(tool("edit_note").describeCall({ path: "a.md", patches: "[{op: " }), "Edit a.md");
+	});
+});
@@ -0,0 +1,570 @@
+import { TFile, TFolder, getAllTags, normalizePath } from "obsidian";
+import type LettaPlugin from "../main";
+import { NotePatch, PatchError, applyNotePatches } from "./note-patch";
+import { VaultSearchQuery, parseSearchDate, searchVault } from "./vault-search";
+
+export interface VaultToolParam {
+	name: string;
+	type: "str" | "int" | "bool" | "List[str]" | "List[dict]";
+	description: string;
+	default?: string; // Python literal for optional parameters
+}
+
+export interface VaultTool {
+	name: string;
+	description: string;
+	params: VaultToolParam[];
+	writes: boolean; // Tools that change the vault always need the user's approval
+	execute(args: Record<string, any>): Promise<string>;
+	describeCall(args: Record<string, any>): string; // One-line summary for the approval UI; must not throw
+	preview?(args: Record<string, any>): Promise<NoteEditPreview>; // Diff shown before approving a write
+}
+
+export interface NoteEditPreview {
+	path: string;
+	before: string; // Empty for a note that doesn't exist yet
+	after: string;
+}
+
+export interface VaultToolOutcome {
+	status: "success" | "error";
+	result: string;
+}
+
+// Thrown by tools for problems the agent should see and can act on
+export class VaultToolError extends Error {}
+
+// Letta only ever runs these stubs if a call is approved server-side without
+// going through Obsidian, so they fail loudly instead of pretending to work
+export function buildPythonStub(tool: VaultTool): string {
+	const signature = tool.params
+		.map((param) =>
+			param.default !== undefined
+				? `${param.name}: ${param.type} = ${param.default}`
+				: `${param.name}: ${param.type}`,
+		)
+		.join(", ");
+
+	const args = tool.params
+		.map((param) => `        ${param.name} (${param.type}): ${param.description}`)
+		.join("\n");
+
+	return [
+		`def ${tool.name}(${signature}) -> str:`,
+		`    """`,
+		`    ${tool.description}`,
+		"",
+		...(args ? ["    Args:", args, ""] : []),
+		"    Returns:",
+		"        str: JSON-encoded result produced by the Obsidian plugin",
+		`    """`,
+		`    raise Exception("${tool.name} is executed by the Obsidian plugin and must be approved from the Obsidian chat")`,
+		"",
+	].join("\n");
+}
+
+// Agents sometimes send a single string or a comma-separated list where a list is expected
+function toStringList(value: unknown): string[] {
+	if (Array.isArray(value)) return value.map((item) => String(item));
+	if (typeof value === "string" && value.trim()) {
+		return value.split(",").map((item) => item.trim());
+	}
+	return [];
+}
+
+/**
+ * Tools that Letta agents call but that run inside Obsidian against the local
+ * vault. Each one is registered with Letta as a stub that requires approval;
+ * the chat view intercepts the approval request, runs the tool here and sends
+ * the real result back to the agent.
+ */
+export class VaultToolRegistry {
+	private plugin: LettaPlugin;
+	private tools: Map<string, VaultTool> = new Map();
+
+	constructor(plugin: LettaPlugin) {
+		this.plugin = plugin;
+		this.registerBuiltInTools();
+	}
+
+	register(tool: VaultTool): void {
+		this.tools.set(tool.name, tool);
+	}
+
+	get(name: string): VaultTool | undefined {
+		return this.tools.get(name);
+	}
+
+	has(name: string): boolean {
+		return this.tools.has(name);
+	}
+
+	list(): VaultTool[] {
+		return Array.from(this.tools.values());
+	}
+
+	async execute(
+		name: string,
+		args: Record<string, any>,
+	): Promise<VaultToolOutcome> {
+		const tool = this.tools.get(name);
+		if (!tool) {
+			return { status: "error", result: `Unknown vault tool: ${name}` };
+		}
+
+		try {
+			return { status: "success", result: await tool.execute(args || {}) };
+		} catch (error: any) {
+			if (!(error instanceof VaultToolError)) {
+				console.error(`[Letta Plugin] Vault tool ${name} failed:`, error);
+			}
+			return { status: "error", result: error.message || String(error) };
+		}
+	}
+
+	// Upsert the stubs and attach any that the agent is missing, with approval required
+	async attachToAgent(agentId: string, tools: VaultTool[]): Promise<void> {
+		const client = this.plugin.client;
+		if (!client) throw new Error("Client not initialized");
+
+		for (const tool of tools) {
+			const registered = await client.tools.upsert({
+				sourceCode: buildPythonStub(tool),
+				description: tool.description,
+				tags: ["obsidian", "client-side", "requires-approval"],
+				defaultRequiresApproval: true,
+			});
+
+			if (!registered.id) {
+				throw new Error(`Letta did not return an ID for ${tool.name}`);
+			}
+
+			await client.agents.tools.attach(agentId, registered.id);
+			await client.agents.tools.modifyApproval(agentId, tool.name, {
+				requiresApproval: true,
+			});
+		}
+	}
+
+	async getMissingTools(agentId: string): Promise<VaultTool[]> {
+		const client = this.plugin.client;
+		if (!client) throw new Error("Client not initialized");
+
+		const attached = await client.agents.tools.list(agentId);
+		const attachedNames = new Set(attached.map((tool) => tool.name));
+		return this.list().filter((tool) => !attachedNames.has(tool.name));
+	}
+
+	// Resolve a path or link text to a note the agent is allowed to see
+	resolveNote(path: string): TFile {
+		const app = this.plugin.app;
+		const cleaned = (path || "").trim().replace(/^\[\[|\]\]$/g, "");
+		if (!cleaned) throw new VaultToolError("A note path is required");
+
+		const normalized = normalizePath(cleaned);
+		const candidate =
+			app.vault.getAbstractFileByPath(normalized) ||
+			app.vault.getAbstractFileByPath(`${normalized}.md`) ||
+			app.metadataCache.getFirstLinkpathDest(cleaned, "");
+
+		if (
+			!(candidate instanceof TFile) ||
+			candidate.extension !== "md" ||
+			this.plugin.visibility.isExcluded(candidate)
+		) {
+			throw new VaultToolError(`Note not found: ${cleaned}`);
+		}
+		return candidate;
+	}
+
+	// Vault-relative path for a new note, defaulting to the configured note folder
+	private resolveNewNotePath(path: string): string {
+		let cleaned = (path || "").trim().replace(/[\\:*?"<>|]/g, "_");
+		if (!cleaned) throw new VaultToolError("A note path is required");
+
+		const defaultFolder = this.plugin.settings.defaultNoteFolder?.trim();
+		if (defaultFolder && !cleaned.includes("/")) {
+			cleaned = `${defaultFolder}/${cleaned}`;
+		}
+		if (!cleaned.endsWith(".md")) cleaned += ".md";
+
+		const fullPath = normalizePath(cleaned);
+		if (this.plugin.visibility.isPathExcluded(fullPath)) {
+			throw new VaultToolError(
+				`${fullPath} is hidden from the agent and can't be written`,
+			);
+		}
+		return fullPath;
+	}
+
+	private async ensureFolder(filePath: string): Promise<void> {
+		const slash = filePath.lastIndexOf("/");
+		if (slash <= 0) return;
+
+		const folderPath = filePath.substring(0, slash);
+		if (!this.plugin.app.vault.getAbstractFileByPath(folderPath)) {
+			await this.plugin.app.vault.createFolder(folderPath);
+		}
+	}
+
+	// Agents may send the patch list as a JSON string instead of a list
+	private parsePatches(value: unknown): NotePatch[] {
+		let patches = value;
+		if (typeof patches === "string") {
+			try {
+				patches = JSON.parse(patches);
+			} catch (error) {
+				throw new VaultToolError("patches must be a list of patch objects");
+			}
+		}
+		if (patches && !Array.isArray(patches)) patches = [patches];
+		return (patches || []) as NotePatch[];
+	}
+
+	private patchContent(content: string, patches: NotePatch[]): string {
+		try {
+			return applyNotePatches(content, patches);
+		} catch (error) {
+			if (error instanceof PatchError) throw new VaultToolError(error.message);
+			throw error;
+		}
+	}
+
+	private async previewEdit(path: string, patches: NotePatch[]): Promise<NoteEditPreview> {
+		const file = this.resolveNote(path);
+		const before = await this.plugin.app.vault.read(file);
+		return { path: file.path, before, after: this.patchContent(before, patches) };
+	}
+
+	private getTags(file: TFile): string[] {
+		const cache = this.plugin.app.metadataCache.getFileCache(file);
+		return cache ? Array.from(new Set(getAllTags(cache) || [])) : [];
+	}
+
+	private registerBuiltInTools(): void {
+		const app = this.plugin.app;
+		const visibility = this.plugin.visibility;
+
+		this.register({
+			name: "search_vault",
+			description:
+				"Search the notes in the user's Obsidian vault by keyword, tag, frontmatter property, folder and modification date. Returns ranked note paths with snippets.",
+			params: [
+				{
+					name: "query",
+					type: "str",
+					description: "Keywords to search for; wrap a phrase in double quotes to match it exactly",
+					default: '""',
+				},
+				{
+					name: "tags",
+					type: "List[str]",
+					description: "Only notes carrying all of these tags, e.g. ['project', 'status/active']",
+					default: "[]",
+				},
+				{
+					name: "folder",
+					type: "str",
+					description: "Only notes inside this vault-relative folder",
+					default: '""',
+				},
+				{
+					name: "properties",
+					type: "List[str]",
+					description: "Frontmatter filters, either 'key' (property is set) or 'key=value'",
+					default: "[]",
+				},
+				{
+					name: "modified_after",
+					type: "str",
+					description: "Only notes modified on or after this date, e.g. '2024-05-01' or '7d' for the last week",
+					default: '""',
+				},
+				{
+					name: "modified_before",
+					type: "str",
+					description: "Only notes modified on or before this date",
+					default: '""',
+				},
+				{
+					name: "limit",
+					type: "int",
+					description: "Maximum number of results to return",
+					default: "10",
+				},
+			],
+			writes: false,
+			describeCall: (args) =>
+				args.query ? `Search the vault for "${args.query}"` : "Search the vault by metadata",
+			execute: async (args) => {
+				const search: VaultSearchQuery = {
+					query: String(args.query || ""),
+					tags: toStringList(args.tags),
+					folder: String(args.folder || ""),
+					properties: toStringList(args.properties),
+					modifiedAfter: null,
+					modifiedBefore: null,
+					limit: Number(args.limit) || 10,
+				};
+
+				try {
+					search.modifiedAfter = parseSearchDate(args.modified_after);
+					search.modifiedBefore = parseSearchDate(args.modified_before, true);
+				} catch (error: any) {
+					throw new VaultToolError(error.message);
+				}
+
+				if (
+					!search.query.trim() &&
+					search.tags.length === 0 &&
+					!search.folder.trim() &&
+					search.properties.length === 0 &&
+					search.modifiedAfter === null &&
+					search.modifiedBefore === null
+				) {
+					throw new VaultToolError("Provide a query or at least one filter");
+				}
+
+				return JSON.stringify(await searchVault(app, visibility, search));
+			},
+		});
+
+		this.register({
+			name: "read_note",
+			description: "Read the full Markdown content of a note in the user's Obsidian vault.",
+			params: [
+				{
+					name: "path",
+					type: "str",
+					description: "Vault-relative path of the note, e.g. 'projects/plan.md'",
+				},
+			],
+			writes: false,
+			describeCall: (args) => `Read ${args.path}`,
+			execute: async (args) => {
+				const file = this.resolveNote(args.path);
+				return JSON.stringify({
+					path: file.path,
+					tags: this.getTags(file),
+					modified: new Date(file.stat.mtime).toISOString(),
+					content: await app.vault.cachedRead(file),
+				});
+			},
+		});
+
+		this.register({
+			name: "list_folder",
+			description:
+				"List the notes and subfolders inside a folder of the user's Obsidian vault.",
+			params: [
+				{
+					name: "path",
+					type: "str",
+					description: "Vault-relative folder path; leave empty for the vault root",
+					default: '""',
+				},
+			],
+			writes: false,
+			describeCall: (args) => `List ${args.path || "the vault root"}`,
+			execute: async (args) => {
+				const path = String(args.path || "").trim().replace(/\/+$/, "");
+				const folder = path
+					? app.vault.getAbstractFileByPath(normalizePath(path))
+					: app.vault.getRoot();
+				if (!(folder instanceof TFolder) || (path && visibility.isPathExcluded(folder.path))) {
+					throw new VaultToolError(`Folder not found: ${path}`);
+				}
+
+				const folders: string[] = [];
+				const notes: string[] = [];
+				folder.children.forEach((child) => {
+					if (child instanceof TFolder) {
+						if (!visibility.isPathExcluded(child.path)) folders.push(child.path);
+					} else if (
+						child instanceof TFile &&
+						child.extension === "md" &&
+						!visibility.isExcluded(child)
+					) {
+						notes.push(child.path);
+					}
+				});
+
+				return JSON.stringify({ path: folder.path, folders, notes });
+			},
+		});
+
+		this.register({
+			name: "get_backlinks",
+			description: "List the notes in the user's Obsidian vault that link to a given note.",
+			params: [
+				{ name: "path", type: "str", description: "Vault-relative path of the note" },
+			],
+			writes: false,
+			describeCall: (args) => `Find backlinks to ${args.path}`,
+			execute: async (args) => {
+				const target = this.resolveNote(args.path);
+				const resolvedLinks = app.metadataCache.resolvedLinks;
+
+				const backlinks: Array<{ path: string; count: number }> = [];
+				Object.keys(resolvedLinks).forEach((sourcePath) => {
+					const count = resolvedLinks[sourcePath][target.path];
+					if (!count) return;
+					const source = app.vault.getAbstractFileByPath(sourcePath);
+					if (source instanceof TFile && !visibility.isExcluded(source)) {
+						backlinks.push({ path: sourcePath, count });
+					}
+				});
+
+				backlinks.sort((a, b) => b.count - a.count);
+				return JSON.stringify({ path: target.path, backlinks });
+			},
+		});
+
+		this.register({
+			name: "get_tags",
+			description:
+				"Get the tags of one note, or, without a path, every tag used in the user's Obsidian vault with its note count.",
+			params: [
+				{
+					name: "path",
+					type: "str",
+					description: "Vault-relative path of a note; leave empty for all tags in the vault",
+					default: '""',
+				},
+			],
+			writes: false,
+			describeCall: (args) => (args.path ? `Get tags of ${args.path}` : "List all tags in the vault"),
+			execute: async (args) => {
+				if (args.path) {
+					const file = this.resolveNote(args.path);
+					return JSON.stringify({ path: file.path, tags: this.getTags(file) });
+				}
+
+				const counts: Record<string, number> = {};
+				visibility.filterVisible(app.vault.getMarkdownFiles()).forEach((file) => {
+					this.getTags(file).forEach((tag) => {
+						counts[tag] = (counts[tag] || 0) + 1;
+					});
+				});
+
+				const tags = Object.keys(counts)
+					.map((tag) => ({ tag, count: counts[tag] }))
+					.sort((a, b) => b.count - a.count);
+				return JSON.stringify({ tags });
+			},
+		});
+
+		this.register({
+			name: "create_note",
+			description:
+				"Create a new Markdown note in the user's Obsidian vault. Fails if the note already exists.",
+			params: [
+				{
+					name: "path",
+					type: "str",
+					description: "Vault-relative path for the new note; a bare name goes into the default note folder",
+				},
+				{ name: "content", type: "str", description: "Markdown content of the note" },
+			],
+			writes: true,
+			describeCall: (args) => `Create ${args.path}`,
+			preview: async (args) => ({
+				path: this.resolveNewNotePath(args.path),
+				before: "",
+				after: String(args.content ?? ""),
+			}),
+			execute: async (args) => {
+				const fullPath = this.resolveNewNotePath(args.path);
+				if (app.vault.getAbstractFileByPath(fullPath)) {
+					throw new VaultToolError(`A note already exists at ${fullPath}`);
+				}
+
+				const content = String(args.content ?? "");
+				await this.ensureFolder(fullPath);
+				await app.vault.create(fullPath, content);
+				await this.plugin.changeJournal.record({
+					path: fullPath,
+					before: null,
+					after: content,
+					source: "create_note",
+				});
+				return JSON.stringify({ created: fullPath });
+			},
+		});
+
+		this.register({
+			name: "append_to_note",
+			description: "Append Markdown content to the end of an existing note in the user's Obsidian vault.",
+			params: [
+				{ name: "path", type: "str", description: "Vault-relative path of the note" },
+				{ name: "content", type: "str", description: "Markdown content to append" },
+			],
+			writes: true,
+			describeCall: (args) => `Append to ${args.path}`,
+			preview: async (args) =>
+				this.previewEdit(args.path, [{ op: "append", content: String(args.content ?? "") }]),
+			execute: async (args) => {
+				const file = this.resolveNote(args.path);
+				const addition = String(args.content ?? "");
+
+				let before = "";
+				const after = await app.vault.process(file, (current) => {
+					before = current;
+					const separator = current.length === 0 || current.endsWith("\n") ? "" : "\n";
+					return current + separator + addition;
+				});
+				await this.plugin.changeJournal.record({ path: file.path, before, after, source: "append_to_note" });
+				return JSON.stringify({ appended: file.path, characters: addition.length });
+			},
+		});
+
+		this.register({
+			name: "edit_note",
+			description:
+				"Edit part of an existing note in the user's Obsidian vault without rewriting the rest of it. " +
+				"Each patch is an object with an 'op' and its fields: " +
+				"{'op': 'replace_section', 'heading': str, 'content': str} replaces everything under a heading up to the next heading of the same or higher level; " +
+				"{'op': 'insert_after', 'heading': str, 'content': str} inserts directly below a heading line, or use 'line': int (1-based, 0 for the top of the note) instead of 'heading'; " +
+				"{'op': 'append', 'content': str} adds to the end of the note; " +
+				"{'op': 'find_replace', 'find': str, 'replace': str, 'all': bool} replaces exact text, which must be unique unless 'all' is true. " +
+				"Patches apply in order and the user reviews a diff before anything is written.",
+			params: [
+				{ name: "path", type: "str", description: "Vault-relative path of the note" },
+				{
+					name: "patches",
+					type: "List[dict]",
+					description: "Patches to apply in order, as described above",
+				},
+			],
+			writes: true,
+			describeCall: (args) => {
+				let count: number;
+				try {
+					count = this.parsePatches(args.patches).length;
+				} catch (error) {
+					// Malformed patches are reported to the agent by preview or execute
+					return `Edit ${args.path}`;
+				}
+				return `Edit ${args.path} (${count} ${count === 1 ? "change" : "changes"})`;
+			},
+			preview: async (args) => this.previewEdit(args.path, this.parsePatches(args.patches)),
+			execute: async (args) => {
+				const file = this.resolveNote(args.path);
+				const patches = this.parsePatches(args.patches);
+
+				// Patches apply to the note as it is now, which may differ from the previewed version
+				let before = "";
+				const after = await app.vault.process(file, (current) => {
+					before = current;
+					return this.patchContent(current, patches);
+				});
+				if (before === after) {
+					return JSON.stringify({ edited: file.path, changed: false });
+				}
+
+				await this.plugin.changeJournal.record({ path: file.path, before, after, source: "edit_note" });
+				return JSON.stringify({ edited: file.path, changed: true });
+			},
+		});
+	}
+}
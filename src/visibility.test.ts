@@ -0,0 +1,123 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { App, TFile } from "obsidian";
+import { VaultVisibility, globToRegExp, parseVisibilityRules } from "./visibility";
+
+function note(path: string): TFile {
+	const file = new TFile();
+	file.path = path;
+	return file;
+}
+
+// Visibility for `rules`, with metadata caches keyed by path
+function visibility(rules: string, caches: Record<string, object> = {}): VaultVisibility {
+	const app = {
+		metadataCache: { getFileCache: (file: TFile) => caches[file.path] ?? null },
+	} as unknown as App;
+	return new VaultVisibility(app, () => rules);
+}
+
+describe("globToRegExp", () => {
+	it("matches a name without a slash at any depth", () => {
+		const regex = globToRegExp("secret.md");
+		assert.ok(regex.test("secret.md"));
+		assert.ok(regex.test("Work/Notes/secret.md"));
+		assert.ok(!regex.test("not-secret.md"));
+	});
+
+	it("anchors patterns with a slash to the vault root", () => {
+		assert.ok(globToRegExp("/secret.md").test("secret.md"));
+		assert.ok(!globToRegExp("/secret.md").test("Work/secret.md"));
+		assert.ok(globToRegExp("Work/secret.md").test("Work/secret.md"));
+		assert.ok(!globToRegExp("Work/secret.md").test("Old/Work/secret.md"));
+	});
+
+	it("keeps * within one folder and lets ** cross folders", () => {
+		assert.ok(globToRegExp("Templates/*.md").test("Templates/Daily.md"));
+		assert.ok(!globToRegExp("Templates/*.md").test("Templates/Old/Daily.md"));
+		assert.ok(globToRegExp("Templates/**/*.md").test("Templates/Daily.md"));
+		assert.ok(globToRegExp("Templates/**/*.md").test("Templates/Old/Daily.md"));
+		assert.ok(globToRegExp("Archive/**").test("Archive/2023/Q1/Plan.md"));
+	});
+
+	it("covers everything inside a matched folder", () => {
+		assert.ok(globToRegExp("Journal/").test("Journal/2024-01-01.md"));
+		assert.ok(globToRegExp("Journal/").test("Personal/Journal/today.md"));
+		assert.ok(!globToRegExp("Journal/").test("Journal.md"));
+		assert.ok(globToRegExp("Private").test("Private/Plan.md"));
+		assert.ok(!globToRegExp("Private").test("Privately.md"));
+	});
+
+	it("ignores case and escapes regex characters", () => {
+		assert.ok(globToRegExp("journal/").test("Journal/today.md"));
+		assert.ok(!globToRegExp("a.md").test("abmd"));
+		assert.ok(globToRegExp("Notes (old)/").test("Notes (old)/a.md"));
+	});
+});
+
+describe("parseVisibilityRules", () => {
+	it("reads path, tag and negated rules and skips comments and blank lines", () => {
+		const rules = parseVisibilityRules("# Hidden folders\n\nJournal/\n#Private\n!Journal/shared/\n!\n");
+
+		assert.deepEqual(
+			rules.map(({ source, negated, kind }) => ({ source, negated, kind })),
+			[
+				{ source: "Journal/", negated: false, kind: "path" },
+				{ source: "#Private", negated: false, kind: "tag" },
+				{ source: "!Journal/shared/", negated: true, kind: "path" },
+			],
+		);
+		assert.equal(rules[1].pattern, "private");
+	});
+});
+
+describe("VaultVisibility", () => {
+	it("lets the last matching rule decide", () => {
+		const rules = visibility("Journal/\n!Journal/shared/\nJournal/shared/drafts/");
+
+		assert.equal(rules.isExcluded(note("Journal/today.md")), true);
+		assert.equal(rules.isExcluded(note("Journal/shared/plan.md")), false);
+		assert.equal(rules.isExcluded(note("Journal/shared/drafts/idea.md")), true);
+		assert.equal(rules.isExcluded(note("Projects/plan.md")), false);
+	});
+
+	it("names the rule that hid a note", () => {
+		assert.equal(
+			visibility("*.secret.md").getExclusionReason(note("keys.secret.md")),
+			'matches rule "*.secret.md"',
+		);
+	});
+
+	it("hides notes carrying a tag or a tag nested below it", () => {
+		const rules = visibility("#private\n!#private/shared", {
+			"a.md": { tags: [{ tag: "#Private" }] },
+			"b.md": { tags: [{ tag: "#private/health" }] },
+			"c.md": { tags: [{ tag: "#private/shared" }] },
+			"d.md": { tags: [{ tag: "#privateer" }] },
+		});
+
+		assert.deepEqual(
+			["a.md", "b.md", "c.md", "d.md"].map((path) => rules.isExcluded(note(path))),
+			[true, true, false, false],
+		);
+	});
+
+	it("hides notes with letta: false in their frontmatter whatever the rules say", () => {
+		const rules = visibility("!**", {
+			"a.md": { frontmatter: { letta: false } },
+			"b.md": { frontmatter: { letta: "false" } },
+			"c.md": { frontmatter: { letta: true } },
+		});
+
+		assert.equal(rules.getExclusionReason(note("a.md")), "letta: false in frontmatter");
+		assert.equal(rules.isExcluded(note("b.md")), true);
+		assert.equal(rules.isExcluded(note("c.md")), false);
+	});
+
+	it("checks paths alone for notes that don't exist yet", () => {
+		const rules = visibility("Journal/\n#private");
+
+		assert.equal(rules.isPathExcluded("Journal/new.md"), true);
+		assert.equal(rules.isPathExcluded("Projects/new.md"), false);
+	});
+});
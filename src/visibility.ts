@@ -0,0 +1,165 @@
+import { App, TFile, getAllTags } from "obsidian";
+
+export interface VisibilityRule {
+	source: string; // The rule as written in settings
+	negated: boolean; // "!" rules re-include notes matched by earlier rules
+	kind: "path" | "tag";
+	pattern: RegExp | string; // Path regex, or lower-cased tag without "#"
+}
+
+/**
+ * Convert a gitignore-style glob into a regex over vault paths.
+ *
+ * Patterns without a slash match a file or folder name at any depth, a leading
+ * slash anchors the pattern to the vault root, and a match on a folder covers
+ * everything inside it.
+ */
+export function globToRegExp(glob: string): RegExp {
+	let pattern = glob.trim();
+	const directoryOnly = pattern.endsWith("/");
+	pattern = pattern.replace(/\/+$/, "");
+
+	const anchored = pattern.startsWith("/") || pattern.includes("/");
+	pattern = pattern.replace(/^\/+/, "");
+
+	let body = "";
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === "*") {
+			if (pattern[i + 1] === "*") {
+				// "**/" matches zero or more folders, a bare "**" matches anything
+				if (pattern[i + 2] === "/") {
+					body += "(?:.*/)?";
+					i += 2;
+				} else {
+					body += ".*";
+					i += 1;
+				}
+			} else {
+				body += "[^/]*";
+			}
+		} else if (char === "?") {
+			body += "[^/]";
+		} else {
+			body += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+
+	const prefix = anchored ? "^" : "^(?:.*/)?";
+	const suffix = directoryOnly ? "/.*$" : "(?:/.*)?$";
+	return new RegExp(prefix + body + suffix, "i");
+}
+
+/**
+ * Parse the rule text from settings, one rule per line:
+ * - `Journal/` or `Templates/*.md` - gitignore-style path globs
+ * - `#private` - notes carrying the tag (or a nested tag below it)
+ * - `!Journal/shared/` - re-include notes excluded by an earlier rule
+ * - `# comment` - a hash followed by a space is a comment
+ */
+export function parseVisibilityRules(text: string): VisibilityRule[] {
+	const rules: VisibilityRule[] = [];
+
+	text.split("\n").forEach((line) => {
+		let source = line.trim();
+		if (!source || source.startsWith("# ")) return;
+
+		const negated = source.startsWith("!");
+		if (negated) source = source.substring(1).trim();
+		if (!source) return;
+
+		if (source.startsWith("#")) {
+			const tag = source.substring(1).toLowerCase();
+			if (tag) {
+				rules.push({ source: line.trim(), negated, kind: "tag", pattern: tag });
+			}
+		} else {
+			rules.push({
+				source: line.trim(),
+				negated,
+				kind: "path",
+				pattern: globToRegExp(source),
+			});
+		}
+	});
+
+	return rules;
+}
+
+/**
+ * Decides which notes the agent may see. Every place that sends vault content
+ * to Letta (focus mode, mentions, sync, vault tools) asks this first.
+ */
+export class VaultVisibility {
+	private app: App;
+	private getRuleText: () => string;
+	private cachedText: string | null = null;
+	private cachedRules: VisibilityRule[] = [];
+
+	constructor(app: App, getRuleText: () => string) {
+		this.app = app;
+		this.getRuleText = getRuleText;
+	}
+
+	private get rules(): VisibilityRule[] {
+		const text = this.getRuleText() || "";
+		if (text !== this.cachedText) {
+			this.cachedText = text;
+			this.cachedRules = parseVisibilityRules(text);
+		}
+		return this.cachedRules;
+	}
+
+	// Returns why the note is hidden from the agent, or null if it is visible
+	getExclusionReason(file: TFile): string | null {
+		const cache = this.app.metadataCache.getFileCache(file);
+		const optOut = cache?.frontmatter?.letta;
+		if (optOut === false || optOut === "false") {
+			return "letta: false in frontmatter";
+		}
+
+		const tags = cache
+			? (getAllTags(cache) || []).map((tag) =>
+					tag.replace(/^#/, "").toLowerCase(),
+				)
+			: [];
+
+		return this.evaluate(file.path, tags);
+	}
+
+	isExcluded(file: TFile): boolean {
+		return this.getExclusionReason(file) !== null;
+	}
+
+	// Path rules only - for notes that don't exist yet
+	isPathExcluded(path: string): boolean {
+		return this.evaluate(path, []) !== null;
+	}
+
+	filterVisible(files: TFile[]): TFile[] {
+		return files.filter((file) => !this.isExcluded(file));
+	}
+
+	// Like gitignore, the last matching rule decides
+	private evaluate(path: string, tags: string[]): string | null {
+		let reason: string | null = null;
+
+		this.rules.forEach((rule) => {
+			let matches: boolean;
+			if (rule.kind === "tag") {
+				const tag = rule.pattern as string;
+				matches = tags.some(
+					(t) => t === tag || t.startsWith(`${tag}/`),
+				);
+			} else {
+				matches = (rule.pattern as RegExp).test(path);
+			}
+
+			if (matches) {
+				reason = rule.negated ? null : `matches rule "${rule.source}"`;
+			}
+		});
+
+		return reason;
+	}
+}
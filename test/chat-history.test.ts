@@ -0,0 +1,213 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { LettaChatView } from "../main";
+import { FakeElement, WorkspaceLeaf } from "./obsidian";
+import { OFFLINE_URL, createTestPlugin, silenceConsole } from "./harness";
+
+silenceConsole();
+
+type Rendered =
+	| { kind: "message"; type: string; content: string; title?: string; reasoning?: string; el: FakeElement }
+	| { kind: "tool-call"; reasoning: string; toolCall: any; el: FakeElement }
+	| { kind: "tool-result"; toolCallEl: FakeElement; result: any; toolName?: string; toolCallData?: any }
+	| { kind: "system"; message: any };
+
+// A chat view whose rendering methods record what they were asked to show
+async function createRecordingView() {
+	const plugin = await createTestPlugin(OFFLINE_URL);
+	const view = new LettaChatView(new WorkspaceLeaf() as any, plugin);
+	const rendered: Rendered[] = [];
+	const containers: unknown[] = []; // Where each message, tool call and system message was put
+
+	view.addMessage = async (type, content, title, reasoning, container) => {
+		containers.push(container);
+		const el = new FakeElement();
+		rendered.push({ kind: "message", type, content, title, reasoning, el });
+		return el as any;
+	};
+	view.addToolInteractionMessage = (reasoning, toolCall, container) => {
+		containers.push(container);
+		const el = new FakeElement();
+		rendered.push({ kind: "tool-call", reasoning, toolCall: JSON.parse(toolCall), el });
+		return el as any;
+	};
+	view.addToolResultToMessage = async (toolCallEl, result, toolName, toolCallData) => {
+		rendered.push({
+			kind: "tool-result",
+			toolCallEl: toolCallEl as any,
+			result: JSON.parse(result),
+			toolName,
+			toolCallData,
+		});
+	};
+	view.addSystemMessage = (message, container) => {
+		containers.push(container);
+		rendered.push({ kind: "system", message });
+	};
+
+	return { view, rendered, containers };
+}
+
+describe("processMessagesInGroups", () => {
+	it("renders user and assistant messages in order with their IDs", async () => {
+		const { view, rendered } = await createRecordingView();
+		await view.processMessagesInGroups([
+			{ id: "m1", message_type: "user_message", content: "Hi" },
+			{ id: "m2", message_type: "assistant_message", content: "Hello!" },
+		]);
+
+		assert.deepEqual(
+			rendered.map((item) => item.kind === "message" && [item.type, item.content]),
+			[
+				["user", "Hi"],
+				["assistant", "Hello!"],
+			],
+		);
+		assert.equal(rendered[0].kind === "message" && rendered[0].el.dataset.messageId, "m1");
+		assert.equal(rendered[1].kind === "message" && rendered[1].el.dataset.messageId, "m2");
+	});
+
+	it("attaches accumulated reasoning to the next assistant message only", async () => {
+		const { view, rendered } = await createRecordingView();
+		await view.processMessagesInGroups([
+			{ id: "r1", message_type: "reasoning_message", reasoning: "The user " },
+			{ id: "r2", message_type: "reasoning_message", reasoning: "said hi." },
+			{ id: "a1", message_type: "assistant_message", content: "Hello!" },
+			{ id: "a2", message_type: "assistant_message", content: "Anything else?" },
+		]);
+
+		assert.equal(rendered.length, 2);
+		assert.equal(rendered[0].kind === "message" && rendered[0].reasoning, "The user said hi.");
+		assert.equal(rendered[1].kind === "message" && rendered[1].reasoning, undefined);
+	});
+
+	it("pairs a tool return with the tool call before it", async () => {
+		const { view, rendered } = await createRecordingView();
+		const toolCall = { name: "archival_memory_search", arguments: '{"query": "tea"}' };
+		await view.processMessagesInGroups([
+			{ id: "r1", message_type: "reasoning_message", reasoning: "Let me search." },
+			{ id: "t1", message_type: "tool_call_message", tool_call: toolCall },
+			{ id: "t2", message_type: "tool_return_message", tool_return: "([], 0)" },
+			{ id: "a1", message_type: "assistant_message", content: "Nothing found." },
+		]);
+
+		assert.deepEqual(
+			rendered.map((item) => item.kind),
+			["tool-call", "tool-result", "message"],
+		);
+		const [call, result, reply] = rendered;
+		assert.ok(call.kind === "tool-call" && result.kind === "tool-result" && reply.kind === "message");
+		assert.equal(call.reasoning, "Let me search.");
+		assert.deepEqual(call.toolCall, toolCall);
+		assert.equal(result.toolCallEl, call.el);
+		assert.equal(result.toolName, "archival_memory_search");
+		assert.deepEqual(result.toolCallData, toolCall);
+		assert.equal(result.result, "([], 0)");
+		// The reasoning went to the tool call, so the reply has none
+		assert.equal(reply.reasoning, undefined);
+	});
+
+	it("takes the tool name from an OpenAI-style function call", async () => {
+		const { view, rendered } = await createRecordingView();
+		await view.processMessagesInGroups([
+			{ message_type: "tool_call_message", tool_call: { function: { name: "send_message" } } },
+			{ message_type: "tool_return_message", tool_return: "None" },
+		]);
+
+		assert.equal(rendered[1].kind === "tool-result" && rendered[1].toolName, "send_message");
+	});
+
+	it("drops a tool return that has no tool call to attach to", async () => {
+		const { view, rendered } = await createRecordingView();
+		await view.processMessagesInGroups([
+			{ message_type: "tool_return_message", tool_return: "orphaned" },
+		]);
+
+		assert.deepEqual(rendered, []);
+	});
+
+	it("skips system, heartbeat and login messages", async () => {
+		const { view, rendered } = await createRecordingView();
+		await view.processMessagesInGroups([
+			{ message_type: "system_message", content: "You are a helpful agent" },
+			{ message_type: "heartbeat" },
+			{ type: "login" },
+			{ message_type: "user_message", content: '{"type": "login", "last_login": "never"}' },
+			{ message_type: "user_message", content: "Real question" },
+		]);
+
+		assert.equal(rendered.length, 1);
+		assert.equal(rendered[0].kind === "message" && rendered[0].content, "Real question");
+	});
+
+	it("keeps system alerts for the hidden system message list", async () => {
+		const { view, rendered } = await createRecordingView();
+		const alert = { type: "system_alert", message: "Note: prior messages have been hidden" };
+		await view.processMessagesInGroups([alert]);
+
+		assert.deepEqual(rendered, [{ kind: "system", message: alert }]);
+	});
+
+	it("reports malformed messages instead of rendering them", async () => {
+		const { view, rendered } = await createRecordingView();
+		await view.processMessagesInGroups([
+			{ message_type: "assistant_message" },
+			{ message_type: "tool_call_message" },
+		]);
+
+		assert.deepEqual(
+			rendered.map((item) => item.kind === "message" && [item.title, item.content]),
+			[
+				["System", "Malformed assistant_message message - This message had invalid data and was skipped."],
+				["System", "Malformed tool_call_message message - This message had invalid data and was skipped."],
+			],
+		);
+	});
+
+	it("keeps going after a message fails to render", async () => {
+		const { view, rendered } = await createRecordingView();
+		const addMessage = view.addMessage;
+		let failed = false;
+		view.addMessage = async (type, content, ...rest) => {
+			if (content === "Breaks" && !failed) {
+				failed = true;
+				throw new Error("Render failed");
+			}
+			return addMessage(type, content, ...rest);
+		};
+
+		await view.processMessagesInGroups([
+			{ message_type: "user_message", content: "Breaks" },
+			{ message_type: "user_message", content: "Still shown" },
+		]);
+
+		assert.deepEqual(
+			rendered.map((item) => item.kind === "message" && item.content),
+			[
+				"Error processing user_message message - This message had invalid data and was skipped.",
+				"Still shown",
+			],
+		);
+	});
+
+	it("renders into the page it's given without touching the chat container", async () => {
+		const { view, containers } = await createRecordingView();
+		const chatContainer = new FakeElement();
+		view.chatContainer = chatContainer as any;
+		const page = new FakeElement() as any;
+
+		await view.processMessagesInGroups(
+			[
+				{ type: "system_alert", message: "Note: prior messages have been hidden" },
+				{ message_type: "user_message", content: "Hi" },
+				{ message_type: "tool_call_message", tool_call: { name: "search" } },
+				{ message_type: "assistant_message", content: "Hello" },
+			],
+			page,
+		);
+
+		assert.equal(containers.length, 4);
+		assert.ok(containers.every((container) => container === page));
+		assert.equal(view.chatContainer, chatContainer);
+	});
+});
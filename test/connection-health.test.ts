@@ -0,0 +1,170 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import type LettaPlugin from "../main";
+import {
+	ConnectionMonitor,
+	HEALTH_BACKOFF_MAX_MS,
+	HEALTH_CHECK_INTERVAL_MS,
+	healthCheckDelay,
+	isAuthError,
+} from "../src/connection-health";
+import {
+	RecordingScheduler,
+	TEST_AGENT,
+	createOfflinePlugin,
+	silenceConsole,
+	until,
+	withMockServer,
+} from "./harness";
+
+silenceConsole();
+
+const AGENTS_PATH = "/v1/agents/";
+const MESSAGES_PATH = `/v1/agents/${TEST_AGENT.id}/messages`;
+
+// A connected plugin whose server has since stopped, checked on `scheduler`
+async function createDroppedPlugin(scheduler = new RecordingScheduler()): Promise<LettaPlugin> {
+	const plugin = await createOfflinePlugin();
+	plugin.connectionMonitor = new ConnectionMonitor(plugin, scheduler);
+	plugin.connectionState = "connected";
+	return plugin;
+}
+
+describe("healthCheckDelay", () => {
+	it("waits the full interval while the connection is healthy", () => {
+		assert.equal(healthCheckDelay(0), HEALTH_CHECK_INTERVAL_MS);
+	});
+
+	it("doubles the wait after each failed check up to the cap", () => {
+		assert.deepEqual([1, 2, 3, 4].map(healthCheckDelay), [5000, 10000, 20000, 40000]);
+		assert.equal(healthCheckDelay(20), HEALTH_BACKOFF_MAX_MS);
+	});
+});
+
+describe("isAuthError", () => {
+	it("recognizes a 401 status", () => {
+		assert.equal(isAuthError(Object.assign(new Error("Status code: 401"), { statusCode: 401 })), true);
+		assert.equal(isAuthError(Object.assign(new Error("Authentication failed"), { status: 401 })), true);
+		assert.equal(isAuthError(new Error("HTTP 401 Unauthorized")), true);
+	});
+
+	it("ignores other errors that happen to mention 401", () => {
+		assert.equal(isAuthError(new Error("connect ECONNREFUSED 127.0.0.1:4010")), false);
+		assert.equal(isAuthError(Object.assign(new Error("file-401 not found"), { statusCode: 404 })), false);
+		assert.equal(isAuthError(new Error("Timed out at 1714014010")), false);
+	});
+});
+
+describe("ConnectionMonitor", () => {
+	it("marks a connection degraded when the server stops answering", async () => {
+		const plugin = await createDroppedPlugin();
+
+		await plugin.connectionMonitor.check();
+
+		assert.equal(plugin.connectionState, "degraded");
+		// The agent stays so messages can still be queued
+		assert.equal(plugin.agent?.id, TEST_AGENT.id);
+		assert.match(plugin.getConnectionStatusText(), /is not responding/);
+	});
+
+	it("marks a connection degraded when the server answers with errors", () =>
+		withMockServer(async (server, plugin) => {
+			server.on("GET", AGENTS_PATH, { status: 500, body: { detail: "Internal error" } });
+			plugin.connectionState = "connected";
+
+			await plugin.connectionMonitor.check();
+
+			assert.equal(plugin.connectionState, "degraded");
+			assert.equal(server.requestsTo("GET", AGENTS_PATH).length, 1);
+		}));
+
+	it("restores the connection and sends the outbox when the server answers again", () =>
+		withMockServer(async (server, plugin) => {
+			server.on("GET", AGENTS_PATH, { body: [] });
+			server.on("POST", MESSAGES_PATH, { body: { messages: [], usage: {} } });
+			plugin.connectionState = "degraded";
+			await plugin.outbox.add(TEST_AGENT, "Sent later", "", []);
+
+			await plugin.connectionMonitor.check();
+
+			assert.equal(plugin.connectionState, "connected");
+			await until(() => plugin.settings.outbox.length === 0);
+			assert.equal(server.requestsTo("POST", MESSAGES_PATH).length, 1);
+		}));
+
+	it("stops checking once the server refuses the API key", () =>
+		withMockServer(async (server, plugin) => {
+			server.on("GET", AGENTS_PATH, { status: 401, body: { detail: "Unauthorized" } });
+			plugin.connectionState = "connected";
+
+			await plugin.connectionMonitor.check();
+			await plugin.connectionMonitor.check();
+
+			assert.equal(plugin.connectionState, "auth-failed");
+			assert.equal(plugin.client, null);
+			assert.equal(plugin.agent, null);
+			assert.ok(plugin.lastAuthError);
+			assert.equal(server.requestsTo("GET", AGENTS_PATH).length, 1);
+		}));
+
+	it("keeps checking after errors that only mention 401", () =>
+		withMockServer(async (server, plugin) => {
+			const scheduler = new RecordingScheduler();
+			plugin.connectionMonitor = new ConnectionMonitor(plugin, scheduler);
+			server.on("GET", AGENTS_PATH, {
+				status: 500,
+				body: { detail: "Upstream at 10.0.0.1:8401 timed out for file-401" },
+			});
+			plugin.connectionState = "connected";
+
+			plugin.connectionMonitor.start();
+			await plugin.connectionMonitor.check();
+			plugin.connectionMonitor.stop();
+
+			assert.equal(plugin.connectionState, "degraded");
+			assert.ok(plugin.client);
+			assert.deepEqual(scheduler.waits, [HEALTH_CHECK_INTERVAL_MS, 5000]);
+		}));
+
+	it("backs off while the server stays unreachable", async () => {
+		const scheduler = new RecordingScheduler();
+		const plugin = await createDroppedPlugin(scheduler);
+
+		plugin.connectionMonitor.start();
+		await plugin.connectionMonitor.check();
+		await plugin.connectionMonitor.check();
+		plugin.connectionMonitor.stop();
+
+		assert.deepEqual(scheduler.waits, [HEALTH_CHECK_INTERVAL_MS, 5000, 10000]);
+	});
+
+	it("checks again soon after a message fails to reach the server", async () => {
+		const scheduler = new RecordingScheduler();
+		const plugin = await createDroppedPlugin(scheduler);
+
+		plugin.connectionMonitor.start();
+		plugin.connectionMonitor.reportOffline();
+		plugin.connectionMonitor.stop();
+
+		assert.deepEqual(scheduler.waits, [HEALTH_CHECK_INTERVAL_MS, 5000]);
+		assert.equal(plugin.connectionState, "degraded");
+	});
+
+	it("holds checks while the window is out of focus", async () => {
+		const scheduler = new RecordingScheduler();
+		const plugin = await createDroppedPlugin(scheduler);
+
+		plugin.connectionMonitor.start();
+		plugin.connectionMonitor.pause();
+		await plugin.connectionMonitor.check();
+		assert.deepEqual(scheduler.waits, [HEALTH_CHECK_INTERVAL_MS]);
+
+		// The failed check's backoff waits for focus too, counting the time spent away
+		assert.equal(plugin.connectionState, "degraded");
+		scheduler.time += 2000;
+		plugin.connectionMonitor.resume();
+		plugin.connectionMonitor.stop();
+
+		assert.deepEqual(scheduler.waits, [HEALTH_CHECK_INTERVAL_MS, 3000]);
+	});
+});
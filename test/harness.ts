@@ -0,0 +1,88 @@
+import * as assert from "node:assert/strict";
+import LettaPlugin from "../main";
+import { BlockHistory } from "../src/block-history";
+import { ConnectionMonitor } from "../src/connection-health";
+import { Outbox } from "../src/outbox";
+import { Scheduler, TimerHandle } from "../src/scheduler";
+import { MockLettaServer } from "./mock-letta-server";
+import { App } from "./obsidian";
+
+export const TEST_AGENT = { id: "agent-test", name: "Test Agent" };
+// Base URL for tests that never reach the network
+export const OFFLINE_URL = "http://127.0.0.1:1";
+
+// A plugin pointed at `baseUrl` with an agent selected, without running onload()
+export async function createTestPlugin(
+	baseUrl: string,
+	settings: Record<string, unknown> = {},
+): Promise<LettaPlugin> {
+	const app = new App();
+	const plugin = new LettaPlugin(app as any, {
+		id: "letta-ai-agent",
+		dir: ".obsidian/plugins/letta-ai-agent",
+	} as any);
+	(plugin as any).data = { lettaBaseUrl: baseUrl, lettaApiKey: "test-key", ...settings };
+	await plugin.loadSettings();
+	plugin.blockHistory = new BlockHistory(plugin);
+	plugin.outbox = new Outbox(plugin);
+	plugin.connectionMonitor = new ConnectionMonitor(plugin);
+	plugin.agent = { ...TEST_AGENT };
+	return plugin;
+}
+
+// A plugin pointed at a server that has stopped, so every request is refused
+export async function createOfflinePlugin(settings: Record<string, unknown> = {}): Promise<LettaPlugin> {
+	const stopped = new MockLettaServer();
+	const stoppedUrl = await stopped.start();
+	await stopped.stop();
+	return createTestPlugin(stoppedUrl, settings);
+}
+
+// Records the waits it's asked for and never runs the callbacks; time stands still until a test moves it
+export class RecordingScheduler implements Scheduler {
+	waits: number[] = [];
+	time = 0;
+
+	now(): number {
+		return this.time;
+	}
+
+	setTimeout(_callback: () => void, ms: number): TimerHandle {
+		this.waits.push(ms);
+		return this.waits.length as unknown as TimerHandle;
+	}
+
+	clearTimeout() {
+		// Nothing was started, so nothing to cancel
+	}
+}
+
+// Polls until `condition` holds, failing after about a second
+export async function until(condition: () => boolean): Promise<void> {
+	for (let tries = 0; !condition(); tries++) {
+		if (tries === 100) assert.fail("Timed out waiting");
+		await new Promise((resolve) => setTimeout(resolve, 10));
+	}
+}
+
+// Runs `test` against a fresh mock server and a plugin pointed at it
+export async function withMockServer(
+	test: (server: MockLettaServer, plugin: LettaPlugin) => Promise<void>,
+	settings: Record<string, unknown> = {},
+): Promise<void> {
+	const server = new MockLettaServer();
+	try {
+		const plugin = await createTestPlugin(await server.start(), settings);
+		await test(server, plugin);
+	} finally {
+		await server.stop();
+	}
+}
+
+// The plugin logs every request and stream chunk; keep test output readable.
+// Each test file runs in its own process, so this needn't be undone.
+export function silenceConsole() {
+	(["log", "info", "warn", "error"] as const).forEach((method) => {
+		console[method] = () => undefined;
+	});
+}
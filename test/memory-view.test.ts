@@ -0,0 +1,140 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import type LettaPlugin from "../main";
+import { LettaMemoryView } from "../main";
+import { Modal, WorkspaceLeaf, notices, openModals } from "./obsidian";
+import { TEST_AGENT, silenceConsole, withMockServer } from "./harness";
+
+silenceConsole();
+
+const BLOCK_PATH = `/v1/agents/${TEST_AGENT.id}/core-memory/blocks/human`;
+
+// A memory view showing the "human" block as loaded with `loaded`, edited to `edited`
+function createView(plugin: LettaPlugin, loaded: string, edited: string) {
+	notices.length = 0;
+	openModals.length = 0;
+	const view = new LettaMemoryView(new WorkspaceLeaf() as any, plugin);
+	const editor = { value: edited };
+	const saveButton = { disabled: false, textContent: "Save Changes" };
+	view.blocks = [{ label: "human", value: loaded, limit: 5000 }];
+	view.blockEditors.set("human", editor as any);
+	view.blockSaveButtons.set("human", saveButton as any);
+	view.blockDirtyStates.set("human", true);
+	return { view, editor, saveButton };
+}
+
+async function waitForModal(): Promise<Modal> {
+	for (let tick = 0; tick < 200 && openModals.length === 0; tick++) {
+		await new Promise((resolve) => setTimeout(resolve, 5));
+	}
+	assert.equal(openModals.length, 1, "Expected the conflict dialog to open");
+	return openModals[0];
+}
+
+async function choose(modal: Modal, buttonText: string) {
+	const button = modal.contentEl.findByText(buttonText);
+	assert.ok(button, `No "${buttonText}" button in the dialog`);
+	await button.click();
+}
+
+describe("LettaMemoryView.saveBlock", () => {
+	it("saves when the server still has the value that was loaded", () =>
+		withMockServer(async (server, plugin) => {
+			server
+				.on("GET", BLOCK_PATH, { body: { label: "human", value: "Name: Sam" } })
+				.on("PATCH", BLOCK_PATH, { body: { label: "human", value: "Name: Sam\nLikes tea" } });
+			const { view, saveButton } = createView(plugin, "Name: Sam", "Name: Sam\nLikes tea");
+
+			await view.saveBlock("human");
+
+			assert.deepEqual(server.requestsTo("PATCH", BLOCK_PATH)[0].body, {
+				value: "Name: Sam\nLikes tea",
+			});
+			assert.equal(view.blocks[0].value, "Name: Sam\nLikes tea");
+			assert.equal(view.blockDirtyStates.get("human"), false);
+			assert.equal(saveButton.textContent, "Saved ✓");
+			assert.equal(saveButton.disabled, true);
+			assert.equal(openModals.length, 0);
+			assert.deepEqual(
+				plugin.blockHistory.list(TEST_AGENT.id, "human").map((revision) => revision.source),
+				["memory view"],
+			);
+		}));
+
+	it("keeps the server version when chosen in the conflict dialog", () =>
+		withMockServer(async (server, plugin) => {
+			server.on("GET", BLOCK_PATH, { body: { label: "human", value: "Name: Sam (from agent)" } });
+			const { view, editor, saveButton } = createView(plugin, "Name: Sam", "Name: Samantha");
+
+			const saving = view.saveBlock("human");
+			await choose(await waitForModal(), "Keep Server Version");
+			await saving;
+
+			assert.equal(server.requestsTo("PATCH", BLOCK_PATH).length, 0);
+			assert.equal(editor.value, "Name: Sam (from agent)");
+			assert.equal(view.blocks[0].value, "Name: Sam (from agent)");
+			assert.equal(view.blockDirtyStates.get("human"), false);
+			assert.equal(saveButton.textContent, "No Changes");
+			assert.deepEqual(
+				plugin.blockHistory.list(TEST_AGENT.id, "human").map((revision) => revision.value),
+				["Name: Sam (from agent)"],
+			);
+		}));
+
+	it("overwrites the server version when chosen in the conflict dialog", () =>
+		withMockServer(async (server, plugin) => {
+			server
+				.on("GET", BLOCK_PATH, { body: { label: "human", value: "Name: Sam (from agent)" } })
+				.on("PATCH", BLOCK_PATH, { body: { label: "human", value: "Name: Samantha" } });
+			const { view } = createView(plugin, "Name: Sam", "Name: Samantha");
+
+			const saving = view.saveBlock("human");
+			await choose(await waitForModal(), "Overwrite with My Changes");
+			await saving;
+
+			assert.deepEqual(server.requestsTo("PATCH", BLOCK_PATH)[0].body, { value: "Name: Samantha" });
+			assert.equal(view.blocks[0].value, "Name: Samantha");
+			// Both the overwritten server value and the saved one are in the history
+			assert.deepEqual(
+				plugin.blockHistory.list(TEST_AGENT.id, "human").map((revision) => revision.source),
+				["memory view", "server"],
+			);
+		}));
+
+	it("leaves the edit unsaved when the conflict dialog is cancelled or closed", () =>
+		withMockServer(async (server, plugin) => {
+			server.on("GET", BLOCK_PATH, { body: { label: "human", value: "Changed elsewhere" } });
+			const { view, editor, saveButton } = createView(plugin, "Original", "My edit");
+
+			for (const close of [
+				(modal: Modal) => choose(modal, "Cancel"),
+				async (modal: Modal) => modal.close(),
+			]) {
+				const saving = view.saveBlock("human");
+				await close(await waitForModal());
+				await saving;
+
+				assert.equal(editor.value, "My edit");
+				assert.equal(view.blockDirtyStates.get("human"), true);
+				assert.equal(saveButton.textContent, "Save Changes");
+				assert.equal(saveButton.disabled, false);
+			}
+			assert.equal(server.requestsTo("PATCH", BLOCK_PATH).length, 0);
+		}));
+
+	it("reports a failed save and keeps the edit", () =>
+		withMockServer(async (server, plugin) => {
+			server
+				.on("GET", BLOCK_PATH, { body: { label: "human", value: "Original" } })
+				.on("PATCH", BLOCK_PATH, { status: 500, body: { detail: "Internal error" } });
+			const { view, saveButton } = createView(plugin, "Original", "My edit");
+
+			await view.saveBlock("human");
+
+			assert.equal(view.blocks[0].value, "Original");
+			assert.equal(view.blockDirtyStates.get("human"), true);
+			assert.equal(saveButton.textContent, "Save Changes");
+			assert.equal(saveButton.disabled, false);
+			assert.ok(notices.includes('Failed to save block "human". Please try again.'));
+		}));
+});
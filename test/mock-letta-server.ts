@@ -0,0 +1,117 @@
+import * as http from "http";
+import { AddressInfo, Socket } from "net";
+
+export interface MockResponse {
+	status?: number;
+	headers?: Record<string, string>;
+	body?: unknown; // Sent as JSON unless it's already a string
+	sse?: unknown[]; // Sent as server-sent events followed by [DONE]
+}
+
+export interface RecordedRequest {
+	method: string;
+	path: string; // Including the query string
+	headers: http.IncomingHttpHeaders;
+	body: any;
+}
+
+type Handler = MockResponse | ((request: RecordedRequest) => MockResponse);
+
+/**
+ * Local stand-in for the Letta API. Routes are registered per method and path
+ * (query string ignored); a route given several responses serves them in turn
+ * and then keeps repeating the last one. Unrouted requests get a 404 like the
+ * real server. Every request is recorded for assertions.
+ */
+export class MockLettaServer {
+	requests: RecordedRequest[] = [];
+	private routes: Map<string, Handler[]> = new Map();
+	private server: http.Server;
+	private sockets: Set<Socket> = new Set();
+
+	constructor() {
+		this.server = http.createServer((req, res) => this.handle(req, res));
+		// Tracked so stop() doesn't wait on keep-alive connections
+		this.server.on("connection", (socket) => {
+			this.sockets.add(socket);
+			socket.on("close", () => this.sockets.delete(socket));
+		});
+	}
+
+	async start(): Promise<string> {
+		await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+		const { port } = this.server.address() as AddressInfo;
+		return `http://127.0.0.1:${port}`;
+	}
+
+	async stop(): Promise<void> {
+		this.sockets.forEach((socket) => socket.destroy());
+		await new Promise<void>((resolve) => this.server.close(() => resolve()));
+	}
+
+	on(method: string, path: string, ...handlers: Handler[]): this {
+		this.routes.set(`${method.toUpperCase()} ${path}`, handlers);
+		return this;
+	}
+
+	reset() {
+		this.routes.clear();
+		this.requests = [];
+	}
+
+	requestsTo(method: string, path: string): RecordedRequest[] {
+		return this.requests.filter(
+			(request) => request.method === method.toUpperCase() && request.path.split("?")[0] === path,
+		);
+	}
+
+	private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+		let raw = "";
+		req.on("data", (chunk) => (raw += chunk));
+		req.on("end", () => {
+			let body: any = raw;
+			try {
+				body = raw ? JSON.parse(raw) : null;
+			} catch (error) {
+				// Keep non-JSON bodies as text
+			}
+
+			const request: RecordedRequest = {
+				method: req.method || "GET",
+				path: req.url || "/",
+				headers: req.headers,
+				body,
+			};
+			this.requests.push(request);
+
+			const handlers = this.routes.get(`${request.method} ${request.path.split("?")[0]}`);
+			if (!handlers || handlers.length === 0) {
+				this.send(res, { status: 404, body: { detail: "Not Found" } });
+				return;
+			}
+			const handler = handlers.length > 1 ? handlers.shift()! : handlers[0];
+			this.send(res, typeof handler === "function" ? handler(request) : handler);
+		});
+	}
+
+	private send(res: http.ServerResponse, response: MockResponse) {
+		if (response.sse) {
+			res.writeHead(response.status || 200, {
+				"Content-Type": "text/event-stream",
+				"Cache-Control": "no-cache",
+				...response.headers,
+			});
+			response.sse.forEach((event) => res.write(`data: ${JSON.stringify(event)}\n\n`));
+			res.end("data: [DONE]\n\n");
+			return;
+		}
+
+		const body =
+			typeof response.body === "string" ? response.body : JSON.stringify(response.body ?? null);
+		res.writeHead(response.status || 200, {
+			"Content-Type": "application/json",
+			...response.headers,
+		});
+		res.end(body);
+	}
+}
@@ -0,0 +1,480 @@
+// Stand-in for the "obsidian" module when the plugin runs under Node. The test
+// build aliases "obsidian" to this file, so only what the plugin touches while
+// under test is implemented; DOM helpers build a small element tree instead of
+// real nodes.
+
+type Listener = (...args: any[]) => any;
+
+interface ElementOptions {
+	text?: string;
+	cls?: string;
+	attr?: Record<string, string>;
+	href?: string;
+	type?: string;
+	placeholder?: string;
+	value?: string;
+}
+
+export class FakeElement {
+	tagName: string;
+	children: FakeElement[] = [];
+	parentElement: FakeElement | null = null;
+	classList: Set<string> = new Set();
+	attributes: Record<string, string> = {};
+	dataset: Record<string, string> = {};
+	style: Record<string, string> = {};
+	value = "";
+	disabled = false;
+	scrollTop = 0;
+	scrollHeight = 0;
+	private text = "";
+	private listeners: Map<string, Listener[]> = new Map();
+
+	constructor(tagName = "div") {
+		this.tagName = tagName.toUpperCase();
+	}
+
+	get textContent(): string {
+		return this.text + this.children.map((child) => child.textContent).join("");
+	}
+
+	set textContent(text: string) {
+		this.children = [];
+		this.text = text;
+	}
+
+	createEl(tag: string, options: ElementOptions | string = {}): FakeElement {
+		const el = new FakeElement(tag);
+		const opts: ElementOptions = typeof options === "string" ? { cls: options } : options;
+		if (opts.text) el.text = opts.text;
+		if (opts.cls) opts.cls.split(" ").filter(Boolean).forEach((cls) => el.classList.add(cls));
+		Object.entries(opts.attr || {}).forEach(([name, value]) => el.setAttribute(name, value));
+		if (opts.href) el.setAttribute("href", opts.href);
+		if (opts.type) el.setAttribute("type", opts.type);
+		if (opts.placeholder) el.setAttribute("placeholder", opts.placeholder);
+		if (opts.value) el.value = opts.value;
+		el.parentElement = this;
+		this.children.push(el);
+		return el;
+	}
+
+	createDiv(options: ElementOptions | string = {}): FakeElement {
+		return this.createEl("div", options);
+	}
+
+	createSpan(options: ElementOptions | string = {}): FakeElement {
+		return this.createEl("span", options);
+	}
+
+	empty() {
+		this.children = [];
+		this.text = "";
+	}
+
+	setText(text: string) {
+		this.textContent = text;
+	}
+
+	addClass(...classes: string[]) {
+		classes.forEach((cls) => this.classList.add(cls));
+	}
+
+	removeClass(...classes: string[]) {
+		classes.forEach((cls) => this.classList.delete(cls));
+	}
+
+	toggleClass(cls: string, value: boolean) {
+		if (value) this.classList.add(cls);
+		else this.classList.delete(cls);
+	}
+
+	hasClass(cls: string): boolean {
+		return this.classList.has(cls);
+	}
+
+	setAttribute(name: string, value: string) {
+		this.attributes[name] = value;
+	}
+
+	getAttribute(name: string): string | null {
+		return this.attributes[name] ?? null;
+	}
+
+	show() {
+		delete this.style.display;
+	}
+
+	hide() {
+		this.style.display = "none";
+	}
+
+	isShown(): boolean {
+		return this.style.display !== "none";
+	}
+
+	focus() {
+		// Nothing to focus outside a real document
+	}
+
+	remove() {
+		if (!this.parentElement) return;
+		const siblings = this.parentElement.children;
+		siblings.splice(siblings.indexOf(this), 1);
+		this.parentElement = null;
+	}
+
+	addEventListener(event: string, listener: Listener) {
+		this.listeners.set(event, [...(this.listeners.get(event) || []), listener]);
+	}
+
+	removeEventListener(event: string, listener: Listener) {
+		this.listeners.set(
+			event,
+			(this.listeners.get(event) || []).filter((other) => other !== listener),
+		);
+	}
+
+	async dispatch(event: string, ...args: any[]): Promise<void> {
+		for (const listener of this.listeners.get(event) || []) {
+			await listener(...args);
+		}
+	}
+
+	click(): Promise<void> {
+		return this.dispatch("click", {});
+	}
+
+	// Only single-class selectors are supported, which is all the plugin's lookups need
+	querySelector(selector: string): FakeElement | null {
+		return this.querySelectorAll(selector)[0] || null;
+	}
+
+	querySelectorAll(selector: string): FakeElement[] {
+		const matches: FakeElement[] = [];
+		const cls = selector.startsWith(".") ? selector.slice(1) : null;
+		const visit = (el: FakeElement) => {
+			el.children.forEach((child) => {
+				if (cls && child.hasClass(cls)) matches.push(child);
+				visit(child);
+			});
+		};
+		visit(this);
+		return matches;
+	}
+
+	// Test helper: first descendant, depth first, whose own text is exactly `text`
+	findByText(text: string): FakeElement | null {
+		for (const child of this.children) {
+			if (child.text === text) return child;
+			const match = child.findByText(text);
+			if (match) return match;
+		}
+		return null;
+	}
+}
+
+export const notices: string[] = [];
+
+export class Notice {
+	message: string;
+
+	constructor(message: string) {
+		this.message = message;
+		notices.push(message);
+	}
+
+	setMessage(message: string) {
+		this.message = message;
+		notices.push(message);
+	}
+
+	hide() {
+		// Notices aren't displayed under test
+	}
+}
+
+export class Events {
+	private handlers: Map<string, Listener[]> = new Map();
+
+	on(name: string, callback: Listener): { name: string; callback: Listener } {
+		this.handlers.set(name, [...(this.handlers.get(name) || []), callback]);
+		return { name, callback };
+	}
+
+	offref(ref: { name: string; callback: Listener }) {
+		this.handlers.set(
+			ref.name,
+			(this.handlers.get(ref.name) || []).filter((callback) => callback !== ref.callback),
+		);
+	}
+
+	trigger(name: string, ...args: any[]) {
+		(this.handlers.get(name) || []).forEach((callback) => callback(...args));
+	}
+}
+
+export class TAbstractFile {
+	path = "";
+	name = "";
+}
+
+export class TFile extends TAbstractFile {
+	basename = "";
+	extension = "md";
+}
+
+export class TFolder extends TAbstractFile {
+	children: TAbstractFile[] = [];
+}
+
+export class Vault extends Events {
+	// Adapter files keyed by path, e.g. the plugin's JSON state files
+	files: Map<string, string> = new Map();
+	adapter = {
+		exists: async (path: string) => this.files.has(path),
+		read: async (path: string) => this.files.get(path) ?? "",
+		write: async (path: string, data: string) => {
+			this.files.set(path, data);
+		},
+		remove: async (path: string) => {
+			this.files.delete(path);
+		},
+	};
+
+	getAbstractFileByPath(): TAbstractFile | null {
+		return null;
+	}
+
+	getMarkdownFiles(): TFile[] {
+		return [];
+	}
+}
+
+export class Workspace extends Events {
+	getLeavesOfType(): WorkspaceLeaf[] {
+		return [];
+	}
+
+	getActiveFile(): TFile | null {
+		return null;
+	}
+
+	getActiveViewOfType(): null {
+		return null;
+	}
+}
+
+export class App {
+	vault = new Vault();
+	workspace = new Workspace();
+	metadataCache = new Events();
+}
+
+export class Component {
+	load() {
+		// No lifecycle under test
+	}
+
+	unload() {
+		// No lifecycle under test
+	}
+
+	register() {
+		// Cleanup callbacks aren't needed under test
+	}
+
+	registerEvent() {
+		// Events registered by components are never unhooked under test
+	}
+
+	registerInterval(id: number): number {
+		return id;
+	}
+}
+
+export interface PluginManifest {
+	id: string;
+	dir?: string;
+	[key: string]: any;
+}
+
+export class Plugin extends Component {
+	app: App;
+	manifest: PluginManifest;
+	// What loadData() returns and saveData() stores
+	data: any = null;
+
+	constructor(app: App, manifest: PluginManifest) {
+		super();
+		this.app = app;
+		this.manifest = manifest;
+	}
+
+	async loadData(): Promise<any> {
+		return this.data;
+	}
+
+	async saveData(data: any): Promise<void> {
+		this.data = data;
+	}
+
+	addCommand(command: any) {
+		return command;
+	}
+
+	addRibbonIcon(): FakeElement {
+		return new FakeElement();
+	}
+
+	addStatusBarItem(): FakeElement {
+		return new FakeElement();
+	}
+
+	addSettingTab() {
+		// Settings aren't rendered under test
+	}
+
+	registerView() {
+		// Views are constructed directly by tests
+	}
+}
+
+export class WorkspaceLeaf {
+	view: ItemView | null = null;
+}
+
+export class ItemView extends Component {
+	app: App;
+	leaf: WorkspaceLeaf;
+	containerEl: FakeElement;
+
+	constructor(leaf: WorkspaceLeaf) {
+		super();
+		this.leaf = leaf;
+		this.app = new App();
+		this.containerEl = new FakeElement();
+		this.containerEl.createDiv();
+		this.containerEl.createDiv();
+	}
+}
+
+export class MarkdownView extends ItemView {
+	file: TFile | null = null;
+}
+
+// Modals that are open right now, most recent last
+export const openModals: Modal[] = [];
+
+export class Modal {
+	app: App;
+	modalEl = new FakeElement();
+	titleEl = new FakeElement();
+	contentEl = new FakeElement();
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	setTitle(title: string): this {
+		this.titleEl.setText(title);
+		return this;
+	}
+
+	open() {
+		openModals.push(this);
+		this.onOpen();
+	}
+
+	close() {
+		const index = openModals.indexOf(this);
+		if (index === -1) return;
+		openModals.splice(index, 1);
+		this.onClose();
+	}
+
+	onOpen() {
+		// Subclasses render here
+	}
+
+	onClose() {
+		// Subclasses clean up here
+	}
+}
+
+export class PluginSettingTab {
+	app: App;
+	containerEl = new FakeElement();
+
+	constructor(app: App) {
+		this.app = app;
+	}
+}
+
+export class Setting {
+	constructor() {
+		// Settings aren't rendered under test
+	}
+}
+
+export const MarkdownRenderer = {
+	async render(app: App, markdown: string, el: FakeElement) {
+		el.createEl("p", { text: markdown });
+	},
+	async renderMarkdown(markdown: string, el: FakeElement) {
+		el.createEl("p", { text: markdown });
+	},
+};
+
+export function normalizePath(path: string): string {
+	return path
+		.replace(/\\/g, "/")
+		.replace(/\/+/g, "/")
+		.replace(/^\/|\/$/g, "");
+}
+
+// Tags from the body only; frontmatter tags aren't needed under test
+export function getAllTags(cache?: { tags?: Array<{ tag: string }> }): string[] {
+	return (cache?.tags || []).map((entry) => entry.tag);
+}
+
+export interface RequestUrlParam {
+	url: string;
+	method?: string;
+	headers?: Record<string, string>;
+	body?: string | ArrayBuffer;
+	throw?: boolean;
+}
+
+export interface RequestUrlResponse {
+	status: number;
+	headers: Record<string, string>;
+	text: string;
+	json: any;
+	arrayBuffer: ArrayBuffer;
+}
+
+// Obsidian's requestUrl sidesteps CORS; under Node plain fetch does the same job
+export async function requestUrl(request: RequestUrlParam): Promise<RequestUrlResponse> {
+	const response = await fetch(request.url, {
+		method: request.method || "GET",
+		headers: request.headers,
+		body: request.body,
+	});
+	const text = await response.text();
+	const headers: Record<string, string> = {};
+	response.headers.forEach((value, name) => {
+		headers[name] = value;
+	});
+	if (request.throw !== false && response.status >= 400) {
+		throw new Error(`Request failed, status ${response.status}`);
+	}
+	return {
+		status: response.status,
+		headers,
+		text,
+		get json() {
+			return JSON.parse(text);
+		},
+		arrayBuffer: new TextEncoder().encode(text).buffer,
+	};
+}
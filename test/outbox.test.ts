@@ -0,0 +1,174 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { LettaError } from "@letta-ai/letta-client";
+import type LettaPlugin from "../main";
+import { LettaChatView } from "../main";
+import { AgentChangeJournal } from "../src/change-journal";
+import { OUTBOX_RETRY_DELAYS_MS, Outbox, isOfflineError } from "../src/outbox";
+import { FakeElement, WorkspaceLeaf, notices } from "./obsidian";
+import {
+	RecordingScheduler,
+	TEST_AGENT,
+	createOfflinePlugin,
+	silenceConsole,
+	withMockServer,
+} from "./harness";
+
+silenceConsole();
+
+const MESSAGES_PATH = `/v1/agents/${TEST_AGENT.id}/messages`;
+const REPLY = { body: { messages: [], usage: {} } };
+
+describe("isOfflineError", () => {
+	it("recognizes requests that never reached the server", () => {
+		assert.equal(isOfflineError(new TypeError("Failed to fetch")), true);
+		assert.equal(isOfflineError(new LettaError({ message: "fetch failed" })), true);
+		assert.equal(isOfflineError(new Error("Cannot connect to Letta API at http://localhost:8283")), true);
+	});
+
+	it("leaves out errors the server sent", () => {
+		assert.equal(isOfflineError(new LettaError({ message: "fetch failed", statusCode: 500 })), false);
+		assert.equal(isOfflineError(new Error("HTTP 429: Rate limited")), false);
+	});
+});
+
+describe("Outbox", () => {
+	it("keeps queued messages in plugin data", async () => {
+		const plugin = await createOfflinePlugin();
+
+		await plugin.outbox.add(TEST_AGENT, "Summarize this", "\n\n---\n**Context from a.md:**", ["a.md"]);
+
+		const [saved] = (plugin as any).data.outbox;
+		assert.equal(saved.agentId, TEST_AGENT.id);
+		assert.equal(saved.text, "Summarize this");
+		assert.equal(saved.context, "\n\n---\n**Context from a.md:**");
+		assert.deepEqual(saved.notes, ["a.md"]);
+	});
+
+	it("sends queued messages in order with their context", () =>
+		withMockServer(async (server, plugin) => {
+			server.on("POST", MESSAGES_PATH, REPLY);
+			await plugin.outbox.add(TEST_AGENT, "First", "", []);
+			await plugin.outbox.add(TEST_AGENT, "Second", " with context", ["a.md"]);
+
+			await plugin.outbox.flush();
+
+			assert.deepEqual(
+				server.requestsTo("POST", MESSAGES_PATH).map((request) => request.body.messages[0].content),
+				[
+					"[Message from Obsidian chat interface]\n\nFirst",
+					"[Message from Obsidian chat interface]\n\nSecond with context",
+				],
+			);
+			assert.deepEqual(plugin.settings.outbox, []);
+		}));
+
+	it("holds back a message the server refuses and sends the rest", () =>
+		withMockServer(async (server, plugin) => {
+			server.on("POST", MESSAGES_PATH, { status: 422, body: { detail: "Invalid message" } }, REPLY);
+			await plugin.outbox.add(TEST_AGENT, "Refused", "", []);
+			await plugin.outbox.add(TEST_AGENT, "Accepted", "", []);
+
+			await plugin.outbox.flush();
+
+			assert.equal(plugin.settings.outbox.length, 1);
+			assert.equal(plugin.settings.outbox[0].text, "Refused");
+			assert.ok(plugin.settings.outbox[0].error);
+
+			// A held message stays put until the user retries it
+			await plugin.outbox.flush();
+			assert.equal(server.requestsTo("POST", MESSAGES_PATH).length, 2);
+		}));
+
+	it("keeps messages and backs off while the server is unreachable", async () => {
+		const plugin = await createOfflinePlugin();
+		const scheduler = new RecordingScheduler();
+		plugin.outbox = new Outbox(plugin, scheduler);
+		await plugin.outbox.add(TEST_AGENT, "Hello", "", []);
+
+		for (let attempt = 0; attempt <= OUTBOX_RETRY_DELAYS_MS.length; attempt++) {
+			await plugin.outbox.flush();
+		}
+		// After the last delay it waits for the next connection instead
+		assert.deepEqual(scheduler.waits, OUTBOX_RETRY_DELAYS_MS);
+
+		assert.equal(plugin.settings.outbox.length, 1);
+		assert.equal(plugin.settings.outbox[0].error, null);
+	});
+
+	it("edits a message's text and keeps its context", async () => {
+		const plugin = await createOfflinePlugin();
+		const message = await plugin.outbox.add(TEST_AGENT, "Helo", " context", ["a.md"]);
+
+		await plugin.outbox.edit(message.id, "Hello");
+
+		assert.equal(plugin.settings.outbox[0].text, "Hello");
+		assert.equal(plugin.settings.outbox[0].context, " context");
+	});
+});
+
+describe("LettaChatView outbox", () => {
+	// A chat view with just the elements sending a message touches
+	function createView(plugin: LettaPlugin) {
+		plugin.changeJournal = new AgentChangeJournal(plugin);
+		const view = new LettaChatView(new WorkspaceLeaf() as any, plugin);
+		view.chatContainer = new FakeElement() as any;
+		view.outboxContainer = new FakeElement() as any;
+		view.messageInput = new FakeElement("textarea") as any;
+		view.sendButton = new FakeElement("button") as any;
+		view.stopButton = new FakeElement("button") as any;
+		view.extractMentionedFiles = () => [];
+		const shown: { type: string; el: FakeElement }[] = [];
+		view.addMessage = async (type) => {
+			const el = (view.chatContainer as any as FakeElement).createDiv();
+			shown.push({ type, el });
+			return el as any;
+		};
+		return { view, shown, outboxEl: view.outboxContainer as any as FakeElement };
+	}
+
+	it("queues a message the server can't be reached for", async () => {
+		const plugin = await createOfflinePlugin();
+		plugin.outbox = new Outbox(plugin, new RecordingScheduler());
+		const { view, shown } = createView(plugin);
+		notices.length = 0;
+		view.messageInput.value = "Are you there?";
+
+		await view.sendMessage();
+
+		assert.deepEqual(
+			plugin.settings.outbox.map((message) => [message.agentId, message.text]),
+			[[TEST_AGENT.id, "Are you there?"]],
+		);
+		assert.equal(view.messageInput.value, "");
+		assert.equal(view.messageInput.disabled, false);
+		// The user bubble is taken back out of the conversation
+		assert.equal((view.chatContainer as any as FakeElement).children.length, 0);
+		assert.deepEqual(shown.map((item) => item.type), ["user"]);
+		assert.ok(notices.some((notice) => notice.includes("unreachable")));
+	});
+
+	it("shows pending bubbles for its agent that can be edited and discarded", async () => {
+		const plugin = await createOfflinePlugin();
+		const { view, outboxEl } = createView(plugin);
+		await plugin.outbox.add(TEST_AGENT, "Queued", "", ["a.md"]);
+		await plugin.outbox.add({ id: "agent-other", name: "Other" }, "Elsewhere", "", []);
+
+		view.renderOutbox();
+		assert.ok(outboxEl.findByText("Waiting to send"));
+		assert.ok(outboxEl.findByText("Queued"));
+		assert.ok(outboxEl.findByText("With a.md"));
+		assert.equal(outboxEl.findByText("Elsewhere"), null);
+
+		await outboxEl.findByText("Edit")?.click();
+		const editor = outboxEl.querySelector(".letta-pending-editor") as any as FakeElement;
+		editor.value = "Queued, edited";
+		await outboxEl.findByText("Save")?.click();
+		assert.equal(plugin.outbox.forAgent(TEST_AGENT.id)[0].text, "Queued, edited");
+
+		view.renderOutbox();
+		await outboxEl.findByText("Discard")?.click();
+		assert.deepEqual(plugin.outbox.forAgent(TEST_AGENT.id), []);
+		assert.equal(plugin.settings.outbox.length, 1);
+	});
+});
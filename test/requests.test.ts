@@ -0,0 +1,176 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { MockLettaServer } from "./mock-letta-server";
+import { TEST_AGENT, createTestPlugin, silenceConsole, withMockServer } from "./harness";
+import { notices } from "./obsidian";
+
+silenceConsole();
+
+const AGENT_PATH = `/v1/agents/${TEST_AGENT.id}`;
+
+// Runs `run` with the waits makeRequestWithRetry schedules recorded and skipped;
+// other timers, such as the HTTP client's own, run as usual
+async function skippingBackoff(run: (waits: number[]) => Promise<void>): Promise<void> {
+	const waits: number[] = [];
+	const realSetTimeout = globalThis.setTimeout;
+	globalThis.setTimeout = ((callback: () => void, ms = 0) => {
+		if (!new Error().stack?.includes("makeRequestWithRetry")) {
+			return realSetTimeout(callback, ms);
+		}
+		waits.push(ms);
+		return realSetTimeout(callback, 0);
+	}) as typeof setTimeout;
+	try {
+		await run(waits);
+	} finally {
+		globalThis.setTimeout = realSetTimeout;
+	}
+}
+
+describe("makeRequest", () => {
+	it("sends JSON with the API key and returns the parsed response", () =>
+		withMockServer(async (server, plugin) => {
+			server.on("PATCH", AGENT_PATH, { body: { id: TEST_AGENT.id, name: "Renamed" } });
+
+			const agent = await plugin.makeRequest(AGENT_PATH, {
+				method: "PATCH",
+				body: { name: "Renamed" },
+			});
+
+			assert.deepEqual(agent, { id: TEST_AGENT.id, name: "Renamed" });
+			const [request] = server.requestsTo("PATCH", AGENT_PATH);
+			assert.equal(request.headers.authorization, "Bearer test-key");
+			assert.equal(request.headers["content-type"], "application/json");
+			assert.deepEqual(request.body, { name: "Renamed" });
+		}));
+
+	it("leaves out the Authorization header when no API key is set", () =>
+		withMockServer(
+			async (server, plugin) => {
+				server.on("GET", AGENT_PATH, { body: TEST_AGENT });
+
+				await plugin.makeRequest(AGENT_PATH);
+
+				assert.equal(server.requestsTo("GET", AGENT_PATH)[0].headers.authorization, undefined);
+			},
+			{ lettaApiKey: "" },
+		));
+
+	it("returns null for a response that isn't JSON", () =>
+		withMockServer(async (server, plugin) => {
+			server.on("DELETE", AGENT_PATH, { body: "" });
+			assert.equal(await plugin.makeRequest(AGENT_PATH, { method: "DELETE" }), null);
+		}));
+
+	it("waits for Retry-After when rate limited and then retries", () =>
+		withMockServer((server, plugin) =>
+			skippingBackoff(async (waits) => {
+				server.on(
+					"GET",
+					AGENT_PATH,
+					{ status: 429, headers: { "Retry-After": "2" }, body: { detail: "Slow down" } },
+					{ body: TEST_AGENT },
+				);
+
+				const agent = await plugin.makeRequest(AGENT_PATH);
+
+				assert.deepEqual(agent, TEST_AGENT);
+				assert.deepEqual(waits, [2000]);
+				assert.equal(server.requestsTo("GET", AGENT_PATH).length, 2);
+			}),
+		));
+
+	it("backs off exponentially and gives up after the last retry", () =>
+		withMockServer((server, plugin) =>
+			skippingBackoff(async (waits) => {
+				server.on("GET", AGENT_PATH, { status: 429, body: { detail: "Slow down" } });
+
+				await assert.rejects(plugin.makeRequestWithRetry(AGENT_PATH, {}, 3), (error: any) => {
+					assert.equal(error.isRateLimit, true);
+					assert.equal(error.retryAfter, null);
+					assert.match(error.message, /Rate limit exceeded\. Slow down/);
+					return true;
+				});
+				assert.deepEqual(waits, [1000, 2000, 4000]);
+				assert.equal(server.requestsTo("GET", AGENT_PATH).length, 4);
+			}),
+		));
+
+	it("doesn't retry other errors", () =>
+		withMockServer(async (server, plugin) => {
+			server.on("GET", AGENT_PATH, { status: 500, body: { detail: "Internal error" } });
+
+			await assert.rejects(plugin.makeRequest(AGENT_PATH), (error: any) => {
+				assert.equal(error.status, 500);
+				assert.deepEqual(error.responseJson, { detail: "Internal error" });
+				return true;
+			});
+			assert.equal(server.requestsTo("GET", AGENT_PATH).length, 1);
+		}));
+
+	it("explains a missing agent", () =>
+		withMockServer(async (server, plugin) => {
+			await assert.rejects(plugin.makeRequest(AGENT_PATH), /Agent not found/);
+		}));
+
+	it("explains an unreachable API on the agents list", () =>
+		withMockServer(async (server, plugin) => {
+			await assert.rejects(plugin.makeRequest("/v1/agents"), /Cannot connect to Letta API/);
+		}));
+
+	it("explains a server that refuses the connection", async () => {
+		const stopped = new MockLettaServer();
+		const stoppedUrl = await stopped.start();
+		await stopped.stop();
+		const plugin = await createTestPlugin(stoppedUrl);
+
+		await assert.rejects(plugin.makeRequest("/v1/agents"), /Cannot connect to Letta API/);
+	});
+
+	it("asks for an API key when authentication fails without one", () =>
+		withMockServer(
+			async (server, plugin) => {
+				server.on("GET", "/v1/agents", { status: 401, body: { detail: "Unauthorized" } });
+
+				await assert.rejects(plugin.makeRequest("/v1/agents"), /please provide an API key/);
+			},
+			{ lettaApiKey: "" },
+		));
+
+	it("asks to check the API key when authentication fails with one", () =>
+		withMockServer(async (server, plugin) => {
+			server.on("GET", "/v1/agents", { status: 401, body: { detail: "Unauthorized" } });
+
+			await assert.rejects(plugin.makeRequest("/v1/agents"), /verify your API key/);
+		}));
+});
+
+describe("resolveAgentReference", () => {
+	const RESEARCHER = { id: "agent-researcher", name: "Researcher" };
+
+	it("looks a missing agent up again, warning about it once", () =>
+		withMockServer(async (server, plugin) => {
+			server.on("GET", "/v1/agents/", { body: [] }, { body: [] }, { body: [RESEARCHER] });
+			notices.length = 0;
+
+			assert.equal(await plugin.resolveAgentReference("Researcher"), null);
+			assert.equal(await plugin.resolveAgentReference("Researcher"), null);
+			// Created since, e.g. from a template
+			assert.deepEqual(await plugin.resolveAgentReference("Researcher"), RESEARCHER);
+
+			assert.equal(notices.filter((notice) => notice.includes("no agent called")).length, 1);
+		}));
+
+	it("remembers agents it found until the cache is cleared", () =>
+		withMockServer(async (server, plugin) => {
+			server.on("GET", "/v1/agents/", { body: [RESEARCHER] });
+
+			await plugin.resolveAgentReference("Researcher");
+			await plugin.resolveAgentReference("Researcher");
+			assert.equal(server.requestsTo("GET", "/v1/agents/").length, 1);
+
+			plugin.clearResolvedAgents();
+			await plugin.resolveAgentReference("Researcher");
+			assert.equal(server.requestsTo("GET", "/v1/agents/").length, 2);
+		}));
+});
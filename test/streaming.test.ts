@@ -0,0 +1,343 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { LettaError } from "@letta-ai/letta-client";
+import type LettaPlugin from "../main";
+import { LettaChatView } from "../main";
+import { AgentChangeJournal } from "../src/change-journal";
+import { VaultToolRegistry } from "../src/vault-tools";
+import { FakeElement, WorkspaceLeaf } from "./obsidian";
+import {
+	OFFLINE_URL,
+	TEST_AGENT,
+	createTestPlugin,
+	silenceConsole,
+	until,
+	withMockServer,
+} from "./harness";
+
+const STREAM_PATH = `/v1/agents/${TEST_AGENT.id}/messages/stream`;
+const CANCEL_PATH = `/v1/agents/${TEST_AGENT.id}/messages/cancel`;
+const MESSAGES_PATH = `/v1/agents/${TEST_AGENT.id}/messages`;
+const DATE = "2025-01-01T00:00:00Z";
+
+silenceConsole();
+
+// Runs sendMessageToAgentStream and collects what it reports through its callbacks
+async function stream(plugin: LettaPlugin, message = "Hello") {
+	const chunks: any[] = [];
+	const errors: Error[] = [];
+	let completed = 0;
+	await plugin.sendMessageToAgentStream(
+		message,
+		(chunk) => chunks.push(chunk),
+		(error) => errors.push(error),
+		() => completed++,
+	);
+	return { chunks, errors, completed };
+}
+
+// A client whose stream request fails with `error` before any response arrives
+function failingClient(error: Error): any {
+	return {
+		agents: {
+			messages: {
+				createStream: async () => {
+					throw error;
+				},
+			},
+		},
+	};
+}
+
+describe("sendMessageToAgentStream", () => {
+	it("passes each streamed message on in order and then completes", () =>
+		withMockServer(async (server, plugin) => {
+			server.on("POST", STREAM_PATH, {
+				sse: [
+					{ id: "m1", date: DATE, message_type: "reasoning_message", reasoning: "Thinking" },
+					{ id: "m2", date: DATE, message_type: "assistant_message", content: "Hi " },
+					{ id: "m2", date: DATE, message_type: "assistant_message", content: "there" },
+				],
+			});
+
+			const { chunks, errors, completed } = await stream(plugin, "Hello");
+
+			assert.deepEqual(errors, []);
+			assert.equal(completed, 1);
+			assert.deepEqual(
+				chunks.map((chunk) => chunk.messageType),
+				["reasoning_message", "assistant_message", "assistant_message"],
+			);
+			assert.equal(chunks.map((chunk) => chunk.content || "").join(""), "Hi there");
+		}));
+
+	it("sends the message wrapped for the agent with token streaming on", () =>
+		withMockServer(async (server, plugin) => {
+			server.on("POST", STREAM_PATH, { sse: [] });
+
+			await stream(plugin, "What's in my notes?");
+
+			const [request] = server.requestsTo("POST", STREAM_PATH);
+			assert.equal(request.headers.authorization, "Bearer test-key");
+			assert.equal(request.body.stream_tokens, true);
+			assert.deepEqual(request.body.messages, [
+				{
+					role: "user",
+					content: "[Message from Obsidian chat interface]\n\nWhat's in my notes?",
+				},
+			]);
+		}));
+
+	it("reports a rate limit as an HTTP 429 error", () =>
+		withMockServer(async (server, plugin) => {
+			server.on("POST", STREAM_PATH, {
+				status: 429,
+				body: { detail: "Rate limit exceeded for this model" },
+			});
+
+			const { errors, completed } = await stream(plugin);
+
+			assert.equal(completed, 0);
+			assert.equal(errors.length, 1);
+			assert.match(errors[0].message, /^HTTP 429/);
+		}));
+
+	it("passes other server errors through unchanged", () =>
+		withMockServer(async (server, plugin) => {
+			server.on("POST", STREAM_PATH, { status: 500, body: { detail: "Internal error" } });
+
+			const { errors } = await stream(plugin);
+
+			assert.equal(errors.length, 1);
+			assert.ok(errors[0] instanceof LettaError);
+			assert.equal((errors[0] as LettaError).statusCode, 500);
+			assert.doesNotMatch(errors[0].message, /CORS_ERROR/);
+		}));
+
+	it("reports a blocked fetch as a CORS error so the chat can fall back", async () => {
+		const plugin = await createTestPlugin(OFFLINE_URL);
+		plugin.client = failingClient(new TypeError("Failed to fetch"));
+
+		const { errors } = await stream(plugin);
+
+		assert.equal(errors.length, 1);
+		assert.match(errors[0].message, /^CORS_ERROR/);
+	});
+
+	it("treats a status 0 SDK error as a CORS error", async () => {
+		const plugin = await createTestPlugin(OFFLINE_URL);
+		plugin.client = failingClient(new LettaError({ message: "Network error", statusCode: 0 }));
+
+		const { errors } = await stream(plugin);
+
+		assert.equal(errors.length, 1);
+		assert.match(errors[0].message, /^CORS_ERROR/);
+	});
+
+	it("rejects when the error handler rethrows, which triggers the chat's fallback", async () => {
+		const plugin = await createTestPlugin(OFFLINE_URL);
+		plugin.client = failingClient(new TypeError("NetworkError when attempting to fetch resource"));
+
+		await assert.rejects(
+			plugin.sendMessageToAgentStream(
+				"Hello",
+				() => undefined,
+				(error) => {
+					throw error;
+				},
+				() => undefined,
+			),
+			/CORS_ERROR/,
+		);
+	});
+
+	it("falls back to the non-streaming endpoint", () =>
+		withMockServer(async (server, plugin) => {
+			server.on("POST", `/v1/agents/${TEST_AGENT.id}/messages`, {
+				body: {
+					messages: [
+						{ id: "m1", date: DATE, message_type: "assistant_message", content: "Non-streamed reply" },
+					],
+					usage: {},
+				},
+			});
+
+			const messages: any[] = await plugin.sendMessageToAgent("Hello");
+
+			assert.equal(messages.length, 1);
+			assert.equal(messages[0].content, "Non-streamed reply");
+		}));
+
+	it("stops quietly once aborted", () =>
+		withMockServer(async (server, plugin) => {
+			server.on("POST", STREAM_PATH, {
+				sse: [
+					{ id: "m1", date: DATE, message_type: "assistant_message", content: "Hi " },
+					{ id: "m1", date: DATE, message_type: "assistant_message", content: "there" },
+				],
+			});
+			const controller = new AbortController();
+			const chunks: any[] = [];
+			const errors: Error[] = [];
+			let completed = 0;
+
+			await plugin.sendMessageToAgentStream(
+				"Hello",
+				(chunk) => {
+					chunks.push(chunk);
+					controller.abort();
+				},
+				(error) => errors.push(error),
+				() => completed++,
+				plugin.agent,
+				controller.signal,
+			);
+
+			assert.equal(chunks.length, 1);
+			assert.deepEqual(errors, []);
+			assert.equal(completed, 0);
+		}));
+
+	it("refuses to send without an agent", async () => {
+		const plugin = await createTestPlugin(OFFLINE_URL);
+		plugin.agent = null;
+		await assert.rejects(stream(plugin), /Agent not connected/);
+	});
+});
+
+describe("cancelAgentRun", () => {
+	it("asks the server to cancel the run", () =>
+		withMockServer(async (server, plugin) => {
+			server.on("POST", CANCEL_PATH, { body: {} });
+
+			assert.equal(await plugin.cancelAgentRun(TEST_AGENT, "run-1"), true);
+			assert.deepEqual(server.requestsTo("POST", CANCEL_PATH)[0].body, { run_ids: ["run-1"] });
+		}));
+
+	it("cancels every active run when the run isn't known yet", () =>
+		withMockServer(async (server, plugin) => {
+			server.on("POST", CANCEL_PATH, { body: {} });
+
+			await plugin.cancelAgentRun(TEST_AGENT, null);
+			assert.deepEqual(server.requestsTo("POST", CANCEL_PATH)[0].body, {});
+		}));
+
+	it("reports a server without run cancellation", () =>
+		withMockServer(async (server, plugin) => {
+			assert.equal(await plugin.cancelAgentRun(TEST_AGENT, "run-1"), false);
+		}));
+});
+
+describe("LettaChatView.stopResponse", () => {
+	// A chat view waiting on a response that has streamed `partial` so far
+	function respondingView(plugin: LettaPlugin, partial: FakeElement | null) {
+		const view = new LettaChatView(new WorkspaceLeaf() as any, plugin);
+		view.chatContainer = new FakeElement() as any;
+		view.stopButton = new FakeElement() as any;
+		view.messageInput = new FakeElement("textarea") as any;
+		view.sendButton = new FakeElement("button") as any;
+		// The streaming state is private to the view
+		(view as any).currentAssistantMessageEl = partial;
+		const controller = new AbortController();
+		view.activeResponse = { agent: TEST_AGENT, controller, runId: "run-1", pending: 1 };
+		return { view, controller };
+	}
+
+	it("aborts the response, marks the partial message and cancels the run", () =>
+		withMockServer(async (server, plugin) => {
+			server.on("POST", CANCEL_PATH, { body: {} });
+			const partial = new FakeElement();
+			const bubble = partial.createDiv({ cls: "letta-message-bubble" });
+			const { view, controller } = respondingView(plugin, partial);
+
+			await view.stopResponse();
+
+			assert.equal(controller.signal.aborted, true);
+			assert.ok(partial.hasClass("letta-message-interrupted"));
+			assert.ok(bubble.findByText("Stopped"));
+			assert.equal((view as any).currentAssistantMessageEl, null);
+			assert.deepEqual(server.requestsTo("POST", CANCEL_PATH)[0].body, { run_ids: ["run-1"] });
+		}));
+
+	it("notes a response stopped before any reply arrived", () =>
+		withMockServer(async (server, plugin) => {
+			const { view } = respondingView(plugin, null);
+
+			await view.stopResponse();
+
+			assert.ok((view.chatContainer as any as FakeElement).findByText("Stopped before the agent replied"));
+		}));
+
+	it("does nothing when no response is in flight", () =>
+		withMockServer(async (server, plugin) => {
+			const { view } = respondingView(plugin, null);
+			view.activeResponse = null;
+
+			await view.stopResponse();
+
+			assert.equal(server.requestsTo("POST", CANCEL_PATH).length, 0);
+		}));
+});
+
+describe("Stopping an auto-approved tool chain", () => {
+	// An approval request for read_note, as streamed or returned with a tool result
+	function readNoteRequest(id: string, toolCallId: string) {
+		return {
+			id,
+			date: DATE,
+			message_type: "approval_request_message",
+			run_id: "run-1",
+			tool_call: { name: "read_note", arguments: JSON.stringify({ path: "a.md" }), tool_call_id: toolCallId },
+		};
+	}
+
+	it("ends the chain at the step where Stop was pressed", () =>
+		withMockServer(async (server, plugin) => {
+			server.on("POST", STREAM_PATH, { sse: [readNoteRequest("approval-1", "call-1")] });
+			// Each tool result is answered with another read
+			server.on("POST", MESSAGES_PATH, { body: { messages: [readNoteRequest("approval-2", "call-2")] } });
+			server.on("POST", CANCEL_PATH, { body: {} });
+
+			plugin.changeJournal = new AgentChangeJournal(plugin);
+			plugin.vaultTools = new VaultToolRegistry(plugin);
+			const view = new LettaChatView(new WorkspaceLeaf() as any, plugin);
+			view.chatContainer = new FakeElement() as any;
+			view.messageInput = new FakeElement("textarea") as any;
+			view.sendButton = new FakeElement("button") as any;
+			view.stopButton = new FakeElement("button") as any;
+			view.addMessage = async () => (view.chatContainer as any as FakeElement).createDiv() as any;
+
+			// The second read is still running when the user presses Stop
+			const readNote = plugin.vaultTools.get("read_note");
+			assert.ok(readNote);
+			let reads = 0;
+			let stopButtonShown = false;
+			plugin.vaultTools.register({
+				...readNote,
+				execute: async () => {
+					reads++;
+					stopButtonShown = (view.stopButton as any as FakeElement).isShown();
+					if (reads === 2) await view.stopResponse();
+					return "Note text";
+				},
+			});
+
+			const delivery = view.deliverMessage("Read a.md", "");
+			const response = view.activeResponse;
+			assert.ok(response);
+			await delivery;
+			await until(() => response.pending === 0);
+
+			assert.equal(reads, 2);
+			// Stop stayed up through the first read, after the stream itself had ended
+			assert.equal(stopButtonShown, true);
+			assert.equal(response.controller.signal.aborted, true);
+			// Only the first read's result went back to the agent
+			assert.equal(server.requestsTo("POST", MESSAGES_PATH).length, 1);
+			assert.equal(server.requestsTo("POST", STREAM_PATH).length, 1);
+			assert.deepEqual(server.requestsTo("POST", CANCEL_PATH)[0].body, { run_ids: ["run-1"] });
+			assert.equal(view.activeResponse, null);
+			assert.equal(view.messageInput.disabled, false);
+			assert.equal((view.stopButton as any as FakeElement).isShown(), false);
+		}));
+});